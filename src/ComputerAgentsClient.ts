@@ -27,11 +27,30 @@
  */
 
 import { ApiClient, ApiClientError } from './cloud/ApiClient';
-import type { ApiClientConfig } from './cloud/ApiClient';
+import type { ApiClientConfig, RequestOptions } from './cloud/ApiClient';
+import type { RetryOptions } from './cloud/retry';
+import type { ApiRequest, FetchLike, Middleware, MiddlewareNext } from './cloud/middleware';
+import type { LogFields, LogLevel, Logger } from './cloud/logger';
+import { getActiveSpan, runInSpanContext, withSpan } from './cloud/tracing';
+import { MessageStream } from './cloud/MessageStream';
+import { Conversation, toConversationState } from './cloud/Conversation';
+import type { ConversationOptions, ConversationState } from './cloud/Conversation';
+import { InvalidArgumentError } from './cloud/errors';
+import type { ReconnectOptions } from './cloud/MessageStream';
+import { dispatchStreamEvent } from './cloud/streamEvents';
+import type { StreamEventHandlers } from './cloud/streamEvents';
+import { collectStructuredOutput, correctionOptions } from './cloud/structuredOutput';
+import type { StructuredOutputOptions } from './cloud/structuredOutput';
+import type { ClientTool } from './cloud/tools';
+import type { Attachment } from './cloud/attachments';
+import type { ApprovalHandler, ApprovalPolicy, ApprovalRecord } from './cloud/approvals';
+import type { ContextPolicy } from './cloud/contextPolicy';
+import type { Span, SpanAttributes, SpanContext, Tracer } from './cloud/tracing';
 import {
   ProjectsResource,
   EnvironmentsResource,
   ThreadsResource,
+  RunsResource,
   AgentsResource,
   ResourcesResource,
   WebAppsResource,
@@ -58,8 +77,24 @@ import type {
 } from './cloud/types';
 
 // Re-export types
-export { ApiClientError };
-export type { ApiClientConfig };
+export { ApiClientError, MessageStream };
+export type {
+  ApiClientConfig,
+  RequestOptions,
+  RetryOptions,
+  ApiRequest,
+  FetchLike,
+  Middleware,
+  MiddlewareNext,
+  Logger,
+  LogLevel,
+  LogFields,
+  Tracer,
+  Span,
+  SpanAttributes,
+  SpanContext,
+  ReconnectOptions,
+};
 
 /**
  * Configuration for ComputerAgentsClient
@@ -78,16 +113,101 @@ export interface ComputerAgentsClientConfig {
   baseUrl?: string;
 
   /**
-   * Enable debug logging
+   * Log every request, response and stream event to the console
    * @default false
    */
   debug?: boolean;
 
+  /**
+   * Structured logger for requests, responses, retries and stream events.
+   * The `Authorization` header and secret fields are redacted.
+   *
+   * @example
+   * ```typescript
+   * const client = new ComputerAgentsClient({
+   *   logger: pino(),
+   *   logLevel: 'debug'
+   * });
+   * ```
+   */
+  logger?: Logger;
+
+  /**
+   * Minimum level passed to the logger
+   * @default 'debug' when `debug` is set, otherwise 'info'
+   */
+  logLevel?: LogLevel;
+
+  /**
+   * Additional field names to redact from log entries
+   */
+  redactKeys?: string[];
+
+  /**
+   * Tracer for distributed tracing. The client opens a span per HTTP request
+   * (method, route template, status, retry count, bytes), a parent span for
+   * `run()`, and sends a W3C `traceparent` header with every request.
+   *
+   * @example
+   * ```typescript
+   * const client = new ComputerAgentsClient({
+   *   tracer: myOpenTelemetryAdapter
+   * });
+   * ```
+   * @default noopTracer
+   */
+  tracer?: Tracer;
+
   /**
    * Request timeout in milliseconds
    * @default 60000 (1 minute)
    */
   timeout?: number;
+
+  /**
+   * Retry policy for transient failures (network errors, 408/429/5xx),
+   * or `false` to disable retries.
+   *
+   * @example
+   * ```typescript
+   * const client = new ComputerAgentsClient({
+   *   retry: { maxRetries: 5, initialDelayMs: 1000 }
+   * });
+   * ```
+   */
+  retry?: RetryOptions | false;
+
+  /**
+   * Send an auto-generated `Idempotency-Key` with every POST request
+   * so that creates and deploys can be retried safely.
+   * @default true
+   */
+  idempotencyKeys?: boolean;
+
+  /**
+   * Custom `fetch` implementation used for every request
+   * (JSON calls, uploads, downloads, and SSE streams).
+   * @default globalThis.fetch
+   */
+  fetch?: FetchLike;
+
+  /**
+   * Ordered request/response middleware, e.g. for header injection,
+   * request signing, or test doubles.
+   *
+   * @example
+   * ```typescript
+   * const client = new ComputerAgentsClient({
+   *   middleware: [
+   *     async (request, next) => {
+   *       request.headers['X-Team'] = 'platform';
+   *       return next(request);
+   *     }
+   *   ]
+   * });
+   * ```
+   */
+  middleware?: Middleware[];
 }
 
 /**
@@ -119,22 +239,80 @@ export interface RunOptions {
     reasoningEffort?: 'minimal' | 'low' | 'medium' | 'high';
   };
 
+  /**
+   * Files, buffers, images or URLs to send with the task
+   */
+  attachments?: Attachment[];
+
   /**
    * Callback for streaming events
    */
   onEvent?: (event: MessageStreamEvent) => void;
 
+  /**
+   * Handlers keyed by event name, e.g. `{ tool_call: (e) => ... }`
+   */
+  on?: StreamEventHandlers;
+
   /**
    * Execution timeout in milliseconds
    * @default 600000 (10 minutes)
    */
   timeout?: number;
+
+  /**
+   * Abort signal. Aborting cancels the run on the server.
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Recovery when the connection drops mid-run, or `false` to disable
+   */
+  reconnect?: ReconnectOptions | false;
+
+  /**
+   * Reject with a `StreamError` if the stream ends without `stream.completed`
+   * @default false
+   */
+  strict?: boolean;
+
+  /**
+   * Ask for JSON of a given shape and validate it, re-prompting on the same
+   * thread when it does not match. The parsed value is returned as `data`.
+   */
+  output?: StructuredOutputOptions<unknown>;
+
+  /**
+   * Functions the agent can call that run in this process
+   */
+  tools?: ClientTool[];
+
+  /**
+   * Called when the agent pauses before a risky action
+   */
+  onApprovalRequired?: ApprovalHandler;
+
+  /**
+   * Which actions are approved, denied or sent to `onApprovalRequired`
+   */
+  approvalPolicy?: ApprovalPolicy;
+
+  /**
+   * Compact, fork or warn when the thread's context fills up, checked before
+   * the message is sent. After a fork, `threadId` in the result is the new thread.
+   */
+  contextPolicy?: ContextPolicy;
 }
 
+/**
+ * Options for the stream() convenience method
+ */
+export type StreamOptions = Omit<RunOptions, 'onEvent' | 'on' | 'output'>;
+
 /**
  * Result from the run() method
  */
-export interface RunResult {
+export interface RunResult<T = undefined> {
   /**
    * The final response content
    */
@@ -156,6 +334,16 @@ export interface RunResult {
       output: number;
     };
   };
+
+  /**
+   * Audit records for every approval decided during the run
+   */
+  approvals: ApprovalRecord[];
+
+  /**
+   * Validated structured output, when `output` was requested
+   */
+  data: T;
 }
 
 /**
@@ -165,6 +353,7 @@ export interface RunResult {
  * resources through typed methods:
  *
  * - `threads` - Conversation management with SSE streaming
+ * - `runs` - Individual runs with usage, logs and diffs
  * - `environments` / `computers` - Computer configuration and lifecycle
  * - `resources` - Deployable apps, functions, auth modules, and runtimes
  * - `webApps` / `functions` / `auth` / `runtimes` - Product-shaped resource managers
@@ -206,6 +395,20 @@ export class ComputerAgentsClient {
    */
   readonly threads: ThreadsResource;
 
+  /**
+   * Individual agent runs
+   *
+   * Look up runs by the `run.id` in `RunResult`, with token usage, cost,
+   * logs and per-run diffs.
+   *
+   * @example
+   * ```typescript
+   * const failed = await client.runs.list({ status: 'failed', since: '2026-01-01T00:00:00Z' });
+   * const diffs = await client.runs.getDiffs(failed[0].id);
+   * ```
+   */
+  readonly runs: RunsResource;
+
   /**
    * Environment management
    *
@@ -453,10 +656,19 @@ export class ComputerAgentsClient {
       baseUrl: config.baseUrl,
       timeout: config.timeout,
       debug: config.debug,
+      logger: config.logger,
+      logLevel: config.logLevel,
+      redactKeys: config.redactKeys,
+      tracer: config.tracer,
+      retry: config.retry,
+      idempotencyKeys: config.idempotencyKeys,
+      fetch: config.fetch,
+      middleware: config.middleware,
     });
 
     // Initialize all resource managers
     this.threads = new ThreadsResource(this.api);
+    this.runs = new RunsResource(this.api);
     this.environments = new EnvironmentsResource(this.api);
     this.computers = this.environments;
     this.agents = new AgentsResource(this.api);
@@ -519,46 +731,196 @@ export class ComputerAgentsClient {
    * const result = await client.run('Deploy', {
    *   computerId: 'env_xxx'
    * });
+   *
+   * // Structured output, typed by the validator
+   * const { data } = await client.run('Summarize package.json', {
+   *   output: { validator: z.object({ name: z.string(), deps: z.array(z.string()) }) }
+   * });
    * ```
    */
-  async run(task: string, options: RunOptions = {}): Promise<RunResult> {
-    // Auto-resolve environment if not provided
-    const environmentId = options.computerId || options.environmentId || await this._ensureDefaultEnvironment();
-
-    // Create or reuse thread
-    let threadId = options.threadId;
-    if (!threadId) {
-      const thread = await this.threads.create({
-        environmentId,
-      });
-      threadId = thread.id;
+  async run<T = unknown>(
+    task: string,
+    options: RunOptions & { output: StructuredOutputOptions<T> }
+  ): Promise<RunResult<T>>;
+  async run(task: string, options?: RunOptions): Promise<RunResult>;
+  async run(task: string, options: RunOptions = {}): Promise<RunResult<unknown>> {
+    const { output, ...rest } = options;
+    if (output) {
+      // Follow-up prompts go to the thread the first attempt created
+      return collectStructuredOutput<unknown, RunResult>(
+        task,
+        output,
+        (content, previous) => previous
+          ? this.run(content, { ...correctionOptions(rest), threadId: previous.threadId })
+          : this.run(content, rest),
+        (result) => result.threadId
+      );
     }
 
+    const { onEvent, on, ...streamOptions } = rest;
+    const stream = this.stream(task, streamOptions);
+
     // Send message and stream response
-    const result = await this.threads.sendMessage(threadId, {
-      content: task,
-      agentConfig: options.agentConfig,
-      onEvent: options.onEvent,
-      timeout: options.timeout,
-    });
+    for await (const event of stream) {
+      if (onEvent) {
+        onEvent(event);
+      }
+      if (on) {
+        dispatchStreamEvent(event, on);
+      }
+    }
 
+    const result = await stream.finalResult();
     return {
       content: result.content,
-      threadId,
+      threadId: stream.threadId!,
       run: result.run,
+      approvals: result.approvals,
+      data: undefined,
     };
   }
 
+  /**
+   * Execute a task and iterate over its events as they arrive
+   *
+   * Same thread and computer handling as `run()`, but returns an async
+   * iterable instead of a promise. Leaving the loop early cancels the run.
+   *
+   * @example
+   * ```typescript
+   * const stream = client.stream('Build a REST API');
+   *
+   * for await (const event of stream) {
+   *   if (event.type === 'response.item.completed') {
+   *     console.log(event.item);
+   *   }
+   * }
+   *
+   * const { content } = await stream.finalResult();
+   * console.log(stream.threadId, content);
+   * ```
+   */
+  stream(task: string, options: StreamOptions = {}): MessageStream {
+    const tracer = this.api.getTracer();
+    const { signal } = options;
+    let runSpan: Span | undefined;
+
+    return this.threads.createMessageStream(
+      async () => {
+        const span = tracer.startSpan('computer_agents.run', { parent: getActiveSpan() });
+        runSpan = span;
+
+        return runInSpanContext(span, async () => {
+          // Auto-resolve environment if not provided
+          const environmentId = options.computerId || options.environmentId || await this._ensureDefaultEnvironment(signal);
+          span.setAttribute('computer_agents.environment_id', environmentId);
+
+          // Create or reuse thread
+          let threadId = options.threadId;
+          if (!threadId) {
+            const thread = await withSpan(tracer, 'computer_agents.thread.create', {}, () =>
+              this.threads.create({
+                environmentId,
+              }, { signal })
+            );
+            threadId = thread.id;
+          }
+          span.setAttribute('computer_agents.thread_id', threadId);
+          return threadId;
+        });
+      },
+      {
+        content: task,
+        attachments: options.attachments,
+        agentConfig: options.agentConfig,
+        timeout: options.timeout,
+        signal,
+        reconnect: options.reconnect,
+        strict: options.strict,
+        tools: options.tools,
+        onApprovalRequired: options.onApprovalRequired,
+        approvalPolicy: options.approvalPolicy,
+        // Applied once the thread exists, whether it was passed in or created
+        contextPolicy: options.contextPolicy,
+      },
+      {
+        parentSpan: () => runSpan,
+        onSettled: (error, result) => {
+          if (!runSpan) {
+            return;
+          }
+          runSpan.setAttribute('computer_agents.run_id', result?.run?.id);
+          if (error !== undefined) {
+            runSpan.recordException(error);
+            runSpan.setStatus('error', error instanceof Error ? error.message : String(error));
+          } else if (result) {
+            runSpan.setStatus('ok');
+          }
+          runSpan.end();
+        },
+      }
+    );
+  }
+
+  /**
+   * Start a conversation that tracks its own thread, history and steps
+   *
+   * @example
+   * ```typescript
+   * const chat = client.conversation({ computerId: 'env_xxx' });
+   * await chat.send('Add a /health endpoint');
+   * await chat.send('Now write a test for it');
+   *
+   * const attempt = await chat.fork();
+   * await attempt.send('Try it with Fastify instead');
+   *
+   * await writeFile('chat.json', JSON.stringify(chat));
+   * ```
+   */
+  conversation(options: ConversationOptions = {}): Conversation {
+    return new Conversation(
+      this.threads,
+      (signal) => this._ensureDefaultEnvironment(signal),
+      toConversationState(options),
+      options.contextPolicy
+    );
+  }
+
+  /**
+   * Restore a conversation from `conversation.toJSON()`
+   *
+   * @param options.contextPolicy - Context policy for the restored
+   *   conversation; policies are not part of the saved state
+   */
+  restoreConversation(
+    state: ConversationState,
+    options: Pick<ConversationOptions, 'contextPolicy'> = {}
+  ): Conversation {
+    if (state?.version !== 1) {
+      throw new InvalidArgumentError(
+        `Unsupported conversation state version: ${String(state?.version)}`,
+        'INVALID_CONVERSATION_STATE',
+        [{ field: 'version', message: 'Expected 1' }]
+      );
+    }
+    return new Conversation(
+      this.threads,
+      (signal) => this._ensureDefaultEnvironment(signal),
+      state,
+      options.contextPolicy
+    );
+  }
+
   /**
    * Return the cached default environment ID, creating one if needed.
    * @internal
    */
-  private async _ensureDefaultEnvironment(): Promise<string> {
+  private async _ensureDefaultEnvironment(signal?: AbortSignal): Promise<string> {
     if (this._defaultEnvironmentId) {
       return this._defaultEnvironmentId;
     }
 
-    const environments = await this.environments.list();
+    const environments = await this.environments.list(undefined, { signal });
     let environment = environments.find(e => e.isDefault);
 
     if (!environment) {
@@ -566,7 +928,7 @@ export class ComputerAgentsClient {
         name: 'default',
         internetAccess: true,
         isDefault: true,
-      });
+      }, { signal });
     }
 
     this._defaultEnvironmentId = environment.id;
@@ -624,15 +986,15 @@ export class ComputerAgentsClient {
   /**
    * Check API health status
    */
-  async health(): Promise<HealthCheck> {
-    return this.api.get<HealthCheck>('/health');
+  async health(requestOptions?: RequestOptions): Promise<HealthCheck> {
+    return this.api.get<HealthCheck>('/health', undefined, requestOptions);
   }
 
   /**
    * Get API metrics
    */
-  async metrics(): Promise<Metrics> {
-    return this.api.get<Metrics>('/metrics');
+  async metrics(requestOptions?: RequestOptions): Promise<Metrics> {
+    return this.api.get<Metrics>('/metrics', undefined, requestOptions);
   }
 
   /**
@@ -5,7 +5,32 @@
  * Higher-level resource managers use this client.
  */
 
+import { randomUUID } from 'crypto';
 import type { ApiError } from './types';
+import {
+  computeBackoffDelay,
+  isRetryableMethod,
+  parseRetryAfter,
+  resolveRetryOptions,
+  sleep,
+} from './retry';
+import type { RetryOptions } from './retry';
+import { composeMiddleware } from './middleware';
+import type { FetchLike, Middleware } from './middleware';
+import {
+  ApiClientError,
+  ConnectionError,
+  RequestAbortedError,
+  TimeoutError,
+  createApiError,
+} from './errors';
+import type { ApiErrorContext } from './errors';
+import { createClientLogger, createConsoleLogger, noopLogger, redactBody } from './logger';
+import type { LogLevel, Logger } from './logger';
+import { formatTraceparent, noopTracer, routeTemplate, withSpan } from './tracing';
+import type { Span, Tracer } from './tracing';
+
+export { ApiClientError };
 
 export interface ApiClientConfig {
   /**
@@ -26,29 +51,149 @@ export interface ApiClientConfig {
   timeout?: number;
 
   /**
-   * Enable debug logging
+   * Log every request, response and stream event to the console.
+   * Shorthand for `logger: createConsoleLogger(), logLevel: 'debug'`.
    * @default false
    */
   debug?: boolean;
+
+  /**
+   * Structured logger. Secrets are redacted before entries reach it.
+   * @default no logging (console when `debug` is set)
+   */
+  logger?: Logger;
+
+  /**
+   * Minimum level passed to the logger
+   * @default 'debug' when `debug` is set, otherwise 'info'
+   */
+  logLevel?: LogLevel;
+
+  /**
+   * Additional field names to redact from log entries
+   */
+  redactKeys?: string[];
+
+  /**
+   * Tracer that receives a span per request
+   * @default noopTracer
+   */
+  tracer?: Tracer;
+
+  /**
+   * Retry policy for transient failures, or `false` to disable retries.
+   * Can be overridden per call.
+   * @default { maxRetries: 2, initialDelayMs: 500, maxDelayMs: 8000 }
+   */
+  retry?: RetryOptions | false;
+
+  /**
+   * Send an auto-generated `Idempotency-Key` header with every POST request
+   * so that it can be retried safely.
+   * @default true
+   */
+  idempotencyKeys?: boolean;
+
+  /**
+   * Custom `fetch` implementation (e.g. for a corporate proxy or test doubles)
+   * @default globalThis.fetch
+   */
+  fetch?: FetchLike;
+
+  /**
+   * Ordered request/response middleware applied to every request
+   */
+  middleware?: Middleware[];
 }
 
-export class ApiClientError extends Error {
-  constructor(
-    message: string,
-    public readonly status: number,
-    public readonly code?: string,
-    public readonly details?: Record<string, unknown>
-  ) {
-    super(message);
-    this.name = 'ApiClientError';
+/**
+ * Per-call options accepted by every request
+ */
+export interface RequestOptions {
+  /**
+   * Request timeout in milliseconds (overrides the client default)
+   */
+  timeout?: number;
+
+  /**
+   * Retry policy override for this call, or `false` to disable retries
+   */
+  retry?: RetryOptions | false;
+
+  /**
+   * Explicit idempotency key. Makes the request retryable regardless of method.
+   */
+  idempotencyKey?: string;
+
+  /**
+   * Additional headers to send with the request
+   */
+  headers?: Record<string, string>;
+
+  /**
+   * Abort signal to cancel the request (including pending retries
+   * and, for streaming calls, reading the response body)
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Throw a `RequestAbortedError` if the caller's signal has fired
+ * @internal
+ */
+export function throwIfAborted(signal?: AbortSignal, context?: ApiErrorContext): void {
+  if (signal?.aborted) {
+    throw new RequestAbortedError('Request was aborted', context);
   }
 }
 
+/**
+ * Wrap a streaming response so `release` runs once its body has been read
+ * to the end, has failed, or has been cancelled
+ */
+function releaseWhenConsumed(response: Response, release: () => void): Response {
+  if (!response.body) {
+    release();
+    return response;
+  }
+  const reader = response.body.getReader();
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await reader.read();
+        if (done) {
+          release();
+          controller.close();
+        } else {
+          controller.enqueue(value);
+        }
+      } catch (error) {
+        release();
+        controller.error(error);
+      }
+    },
+    cancel(reason) {
+      release();
+      return reader.cancel(reason);
+    },
+  });
+  return new Response(body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers,
+  });
+}
+
 export class ApiClient {
   private readonly baseUrl: string;
   private readonly apiKey: string;
   private readonly timeout: number;
-  private readonly debug: boolean;
+  private readonly logger: Logger;
+  private readonly tracer: Tracer;
+  private readonly retry: RetryOptions | false | undefined;
+  private readonly idempotencyKeys: boolean;
+  private readonly fetchImpl: FetchLike;
+  private readonly middleware: Middleware[];
 
   constructor(config: ApiClientConfig) {
     if (!config.apiKey) {
@@ -62,24 +207,67 @@ export class ApiClient {
     this.apiKey = config.apiKey;
     this.baseUrl = (config.baseUrl || 'https://api.computer-agents.com').replace(/\/$/, '');
     this.timeout = config.timeout ?? 60000;
-    this.debug = config.debug ?? false;
+    this.logger = createClientLogger(
+      config.logger ?? (config.debug ? createConsoleLogger() : noopLogger),
+      config.logLevel ?? (config.debug ? 'debug' : 'info'),
+      config.redactKeys
+    );
+    this.tracer = config.tracer ?? noopTracer;
+    this.retry = config.retry;
+    this.idempotencyKeys = config.idempotencyKeys ?? true;
+    this.fetchImpl = config.fetch ?? ((url, init) => fetch(url, init));
+    this.middleware = [...(config.middleware ?? [])];
+  }
+
+  /**
+   * Register a middleware at the end of the chain
+   */
+  use(middleware: Middleware): this {
+    this.middleware.push(middleware);
+    return this;
   }
 
   /**
    * Make an HTTP request to the API
+   *
+   * Transient failures (network errors, timeouts, and retryable status codes)
+   * are retried according to the retry policy. Non-idempotent methods are only
+   * retried when the request carries an `Idempotency-Key`.
    */
   async request<T>(
     method: string,
     path: string,
-    options: {
+    options: RequestOptions & {
       body?: unknown;
       query?: Record<string, string | number | boolean | undefined>;
-      headers?: Record<string, string>;
-      timeout?: number;
       stream?: boolean;
     } = {}
   ): Promise<T> {
     const url = new URL(path, this.baseUrl);
+    const route = routeTemplate(url.pathname);
+
+    return withSpan(
+      this.tracer,
+      `${method} ${route}`,
+      {
+        'http.request.method': method,
+        'http.route': route,
+        'url.full': `${url.origin}${url.pathname}`,
+      },
+      (span) => this.execute<T>(method, url, options, span)
+    );
+  }
+
+  private async execute<T>(
+    method: string,
+    url: URL,
+    options: RequestOptions & {
+      body?: unknown;
+      query?: Record<string, string | number | boolean | undefined>;
+      stream?: boolean;
+    },
+    span: Span
+  ): Promise<T> {
 
     // Add query parameters
     if (options.query) {
@@ -95,7 +283,13 @@ export class ApiClient {
       ...options.headers,
     };
 
-    if (options.body && !options.headers?.['Content-Type']) {
+    // FormData bodies are sent as-is so the transport can set the multipart boundary
+    const isFormData = typeof FormData !== 'undefined' && options.body instanceof FormData;
+    const body = isFormData
+      ? options.body as FormData
+      : options.body ? JSON.stringify(options.body) : undefined;
+
+    if (options.body && !isFormData && !options.headers?.['Content-Type']) {
       headers['Content-Type'] = 'application/json';
     }
 
@@ -103,72 +297,164 @@ export class ApiClient {
       headers['Accept'] = 'text/event-stream';
     }
 
-    if (this.debug) {
-      console.log(`[ApiClient] ${method} ${url.toString()}`);
+    const idempotencyKey = options.idempotencyKey
+      ?? (this.idempotencyKeys && method.toUpperCase() === 'POST' ? randomUUID() : undefined);
+    if (idempotencyKey) {
+      headers['Idempotency-Key'] = idempotencyKey;
     }
 
-    const controller = new AbortController();
-    const timeoutId = setTimeout(
-      () => controller.abort(),
-      options.timeout ?? this.timeout
+    const traceparent = formatTraceparent(span.spanContext());
+    if (traceparent) {
+      headers['traceparent'] = traceparent;
+    }
+
+    span.setAttribute(
+      'http.request.body.size',
+      typeof body === 'string' ? Buffer.byteLength(body) : undefined
     );
 
-    try {
-      const response = await fetch(url.toString(), {
-        method,
+    const retry = resolveRetryOptions(this.retry, options.retry);
+    const canRetry = isRetryableMethod(method, retry) || !!idempotencyKey;
+    const timeout = options.timeout ?? this.timeout;
+    const send = composeMiddleware(this.middleware, this.fetchImpl);
+
+    const signal = options.signal;
+    const context: ApiErrorContext = { method, path: url.pathname };
+
+    for (let attempt = 0; ; attempt++) {
+      throwIfAborted(signal, context);
+      const retriesLeft = canRetry && attempt < retry.maxRetries;
+      span.setAttribute('http.request.resend_count', attempt);
+
+      const logFields = { method, url: url.toString(), attempt };
+      this.logger.debug('request', {
+        ...logFields,
         headers,
-        body: options.body ? JSON.stringify(options.body) : undefined,
-        signal: controller.signal,
+        body: isFormData ? '[FormData]' : redactBody(url.pathname, options.body),
       });
+      const startedAt = Date.now();
+
+      // One controller per attempt, aborted by either the timeout or the caller's signal
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), timeout);
+      const onAbort = () => controller.abort();
+      signal?.addEventListener('abort', onAbort, { once: true });
+      const cleanup = () => signal?.removeEventListener('abort', onAbort);
+
+      let response: Response;
+      try {
+        response = await send({
+          url: url.toString(),
+          method,
+          headers: { ...headers },
+          body,
+          signal: controller.signal,
+        });
+      } catch (error) {
+        clearTimeout(timeoutId);
+        cleanup();
+        throwIfAborted(signal, context);
+
+        const networkError = error instanceof Error && error.name === 'AbortError'
+          ? new TimeoutError(`Request timeout after ${timeout}ms`, context)
+          : new ConnectionError(error instanceof Error ? error.message : 'Unknown error', context);
+
+        if (retriesLeft) {
+          const delayMs = computeBackoffDelay(attempt, retry);
+          this.logger.warn('retrying request', { ...logFields, reason: networkError.code, delayMs });
+          await sleep(delayMs, signal);
+          continue;
+        }
+        this.logger.debug('request failed', {
+          ...logFields,
+          code: networkError.code,
+          error: networkError.message,
+          durationMs: Date.now() - startedAt,
+        });
+        throw networkError;
+      }
 
       clearTimeout(timeoutId);
+      const responseFields = {
+        ...logFields,
+        status: response.status,
+        durationMs: Date.now() - startedAt,
+        requestId: response.headers.get('x-request-id') ?? undefined,
+      };
+      const contentLength = Number(response.headers.get('content-length') ?? NaN);
+      span.setAttributes({
+        'http.response.status_code': response.status,
+        'http.response.body.size': Number.isFinite(contentLength) ? contentLength : undefined,
+        'computer_agents.request_id': responseFields.requestId,
+      });
 
-      // For streaming responses, return the response directly
-      if (options.stream) {
+      try {
         if (!response.ok) {
-          const error = await this.parseError(response);
-          throw error;
+          if (retriesLeft && retry.retryOnStatus.includes(response.status)) {
+            const retryAfter = response.status === 429 || response.status === 503
+              ? parseRetryAfter(response.headers.get('retry-after'))
+              : undefined;
+            await response.body?.cancel().catch(() => undefined);
+            cleanup();
+            const delayMs = retryAfter !== undefined
+              ? Math.min(retryAfter, retry.maxRetryAfterMs)
+              : computeBackoffDelay(attempt, retry);
+            this.logger.warn('retrying request', { ...responseFields, delayMs });
+            await sleep(delayMs, signal);
+            continue;
+          }
+
+          const apiError = await this.parseError(response, context);
+          this.logger.debug('request failed', {
+            ...responseFields,
+            code: apiError.code,
+            error: apiError.message,
+            details: apiError.details,
+          });
+          throw apiError;
         }
-        return response as unknown as T;
-      }
-
-      // Parse JSON response
-      if (!response.ok) {
-        const error = await this.parseError(response);
-        throw error;
-      }
 
-      // Handle 204 No Content
-      if (response.status === 204) {
-        return undefined as T;
-      }
+        // For streaming responses, return the response directly.
+        // The abort listener stays attached so the caller's signal can cancel
+        // the body, and is removed once the body ends or is cancelled.
+        if (options.stream) {
+          this.logger.debug('response', { ...responseFields, stream: true });
+          return releaseWhenConsumed(response, cleanup) as unknown as T;
+        }
 
-      const data = await response.json();
-      return data as T;
-    } catch (error) {
-      clearTimeout(timeoutId);
+        // Handle 204 No Content
+        if (response.status === 204) {
+          this.logger.debug('response', responseFields);
+          return undefined as T;
+        }
 
-      if (error instanceof ApiClientError) {
+        let data: unknown;
+        try {
+          data = await response.json();
+        } catch (error) {
+          throw new ApiClientError(
+            `Invalid JSON in HTTP ${response.status} response: ${error instanceof Error ? error.message : String(error)}`,
+            0,
+            'INVALID_RESPONSE',
+            undefined,
+            { ...context, requestId: responseFields.requestId }
+          );
+        }
+        this.logger.debug('response', { ...responseFields, body: redactBody(url.pathname, data) });
+        return data as T;
+      } catch (error) {
+        cleanup();
+        throwIfAborted(signal, context);
         throw error;
+      } finally {
+        if (!options.stream) {
+          cleanup();
+        }
       }
-
-      if (error instanceof Error && error.name === 'AbortError') {
-        throw new ApiClientError(
-          `Request timeout after ${options.timeout ?? this.timeout}ms`,
-          408,
-          'TIMEOUT'
-        );
-      }
-
-      throw new ApiClientError(
-        error instanceof Error ? error.message : 'Unknown error',
-        500,
-        'NETWORK_ERROR'
-      );
     }
   }
 
-  private async parseError(response: Response): Promise<ApiClientError> {
+  private async parseError(response: Response, context: ApiErrorContext): Promise<ApiClientError> {
     let errorData: ApiError;
 
     try {
@@ -180,33 +466,42 @@ export class ApiClient {
       };
     }
 
-    return new ApiClientError(
-      errorData.message || errorData.error,
+    return createApiError(
       response.status,
+      errorData.message || errorData.error,
       errorData.code,
-      errorData.details
+      errorData.details,
+      {
+        ...context,
+        requestId: response.headers.get('x-request-id') ?? errorData.requestId,
+        retryAfterMs: parseRetryAfter(response.headers.get('retry-after')),
+      }
     );
   }
 
   // Convenience methods
-  async get<T>(path: string, query?: Record<string, string | number | boolean | undefined>): Promise<T> {
-    return this.request<T>('GET', path, { query });
+  async get<T>(
+    path: string,
+    query?: Record<string, string | number | boolean | undefined>,
+    options?: RequestOptions
+  ): Promise<T> {
+    return this.request<T>('GET', path, { ...options, query });
   }
 
-  async post<T>(path: string, body?: unknown, options?: { stream?: boolean }): Promise<T> {
-    return this.request<T>('POST', path, { body, ...options });
+  async post<T>(path: string, body?: unknown, options?: RequestOptions): Promise<T> {
+    return this.request<T>('POST', path, { ...options, body });
   }
 
-  async patch<T>(path: string, body?: unknown): Promise<T> {
-    return this.request<T>('PATCH', path, { body });
+  async patch<T>(path: string, body?: unknown, options?: RequestOptions): Promise<T> {
+    return this.request<T>('PATCH', path, { ...options, body });
   }
 
-  async put<T>(path: string, body?: unknown): Promise<T> {
-    return this.request<T>('PUT', path, { body });
+  async put<T>(path: string, body?: unknown, options?: RequestOptions): Promise<T> {
+    return this.request<T>('PUT', path, { ...options, body });
   }
 
-  async delete<T>(path: string): Promise<T> {
-    return this.request<T>('DELETE', path);
+  async delete<T>(path: string, options?: RequestOptions): Promise<T> {
+    return this.request<T>('DELETE', path, options);
   }
 
   /**
@@ -217,7 +512,23 @@ export class ApiClient {
   }
 
   /**
-   * Get the API key (for special requests like FormData)
+   * Get the client's logger (filtered and redacting)
+   * @internal
+   */
+  getLogger(): Logger {
+    return this.logger;
+  }
+
+  /**
+   * Get the client's tracer
+   * @internal
+   */
+  getTracer(): Tracer {
+    return this.tracer;
+  }
+
+  /**
+   * Get the API key
    * @internal
    */
   getApiKey(): string {
@@ -0,0 +1,336 @@
+/**
+ * Stateful conversation
+ *
+ * Wraps a thread so callers do not have to carry `threadId` between calls.
+ * The thread is created on the first message. After every turn the message
+ * history and timeline steps are re-read from the server and cached locally,
+ * so `history`, `fork()` and `undo()` work from the same view of the thread.
+ * `toJSON()` captures that state; `client.restoreConversation()` brings it back.
+ */
+
+import type { RequestOptions } from './ApiClient';
+import { forkedThreadId } from './contextPolicy';
+import type { ContextPolicy } from './contextPolicy';
+import { InvalidArgumentError, RequestAbortedError } from './errors';
+import type { MessageStream } from './MessageStream';
+import type {
+  SendMessageOptions,
+  SendMessageResult,
+  StreamMessageOptions,
+  ThreadStep,
+  ThreadsResource,
+} from './resources/ThreadsResource';
+import type { StructuredOutputOptions } from './structuredOutput';
+import type { AgentConfig, ThreadMessage } from './types';
+
+export interface ConversationOptions {
+  /** Computer to run in; the default computer is used when omitted */
+  computerId?: string;
+  /** Raw API name for `computerId` */
+  environmentId?: string;
+  agentId?: string;
+  /** Title for the thread created by the first message */
+  title?: string;
+  /** Continue an existing thread instead of creating one */
+  threadId?: string;
+  /** Agent configuration sent with every message unless overridden */
+  agentConfig?: AgentConfig;
+  /**
+   * Context policy applied before every message unless overridden. Not part
+   * of `toJSON()`; pass it again to `client.restoreConversation()`.
+   */
+  contextPolicy?: ContextPolicy;
+}
+
+/**
+ * Serializable snapshot of a conversation
+ */
+export interface ConversationState {
+  version: 1;
+  threadId?: string;
+  environmentId?: string;
+  agentId?: string;
+  title?: string;
+  agentConfig?: AgentConfig;
+  messages: ThreadMessage[];
+  steps: ThreadStep[];
+}
+
+export type ConversationSendOptions = Omit<SendMessageOptions, 'content'>;
+
+export type ConversationStreamOptions = Omit<StreamMessageOptions, 'content'>;
+
+export class Conversation {
+  private state: ConversationState;
+  private creating?: Promise<string>;
+  /** Background refresh started when a streamed turn settles */
+  private syncing?: Promise<void>;
+
+  /**
+   * Use `client.conversation()` or `client.restoreConversation()`
+   * @internal
+   */
+  constructor(
+    private readonly threads: ThreadsResource,
+    private readonly resolveEnvironment: (signal?: AbortSignal) => Promise<string>,
+    state: ConversationState,
+    private readonly contextPolicy?: ContextPolicy
+  ) {
+    this.state = { ...state, messages: [...state.messages], steps: [...state.steps] };
+  }
+
+  /**
+   * Thread ID, once the first message has created the thread
+   */
+  get threadId(): string | undefined {
+    return this.state.threadId;
+  }
+
+  /**
+   * Cached message history, oldest first
+   */
+  get history(): readonly ThreadMessage[] {
+    return this.state.messages;
+  }
+
+  /**
+   * Cached timeline steps, in sequence order
+   */
+  get steps(): readonly ThreadStep[] {
+    return this.state.steps;
+  }
+
+  /**
+   * Send a message and wait for the response. The exchange is added to
+   * `history` and the cache is refreshed before the promise resolves; a
+   * failed refresh does not fail the send.
+   */
+  async send<T = unknown>(
+    content: string,
+    options: ConversationSendOptions & { output: StructuredOutputOptions<T> }
+  ): Promise<SendMessageResult<T>>;
+  async send(content: string, options?: ConversationSendOptions): Promise<SendMessageResult>;
+  async send(content: string, options: ConversationSendOptions = {}): Promise<SendMessageResult<unknown>> {
+    const threadId = await this.ensureThread(options.signal);
+    const result = await this.threads.sendMessage(threadId, {
+      agentConfig: this.state.agentConfig,
+      ...options,
+      contextPolicy: this.followForks(options.contextPolicy ?? this.contextPolicy),
+      content,
+    });
+    this.state.messages.push({ role: 'user', content }, { role: 'assistant', content: result.content });
+    await this.refresh({ signal: options.signal }).catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Send a message and iterate over the run's events. When the run completes
+   * the exchange is added to `history` right away; steps follow once the
+   * background refresh finishes (`sync()` waits for it).
+   */
+  stream(content: string, options: ConversationStreamOptions = {}): MessageStream {
+    return this.threads.createMessageStream(
+      () => this.ensureThread(options.signal),
+      {
+        agentConfig: this.state.agentConfig,
+        ...options,
+        contextPolicy: this.followForks(options.contextPolicy ?? this.contextPolicy),
+        content,
+      },
+      {
+        onSettled: (error, result) => {
+          if (error !== undefined || !result) {
+            return;
+          }
+          this.state.messages.push(
+            { role: 'user', content },
+            { role: 'assistant', content: result.content }
+          );
+          this.syncing = this.refresh().catch(() => undefined);
+        },
+      }
+    );
+  }
+
+  /**
+   * Wait for any background refresh started by `stream()`
+   */
+  async sync(): Promise<void> {
+    await this.syncing;
+  }
+
+  /**
+   * Re-read the message history and steps from the server
+   */
+  async refresh(requestOptions?: RequestOptions): Promise<void> {
+    const threadId = this.state.threadId;
+    if (!threadId) {
+      return;
+    }
+    const [messages, steps] = await Promise.all([
+      this.threads.listAllMessages(threadId, {}, requestOptions).toArray(),
+      this.threads.listAllSteps(threadId, undefined, requestOptions).toArray(),
+    ]);
+    this.state.messages = messages;
+    this.state.steps = [...steps].sort((a, b) => (a.sequence ?? 0) - (b.sequence ?? 0));
+  }
+
+  /**
+   * Branch into a new conversation on a copy of the thread
+   *
+   * @param options.messageIndex - Index into `history` of the last message
+   *   to keep; the whole history is kept when omitted
+   */
+  async fork(
+    options: { messageIndex?: number; title?: string } = {},
+    requestOptions?: RequestOptions
+  ): Promise<Conversation> {
+    const threadId = this.requireThread('fork');
+    await this.sync();
+
+    const { messageIndex, title } = options;
+    if (messageIndex !== undefined && !(messageIndex >= 0 && messageIndex < this.state.messages.length)) {
+      throw new InvalidArgumentError(
+        `messageIndex ${messageIndex} is outside the conversation history`,
+        'INVALID_MESSAGE_INDEX',
+        [{ field: 'messageIndex', message: `Must be between 0 and ${this.state.messages.length - 1}` }]
+      );
+    }
+
+    const response = messageIndex === undefined
+      ? await this.threads.runContextAction(threadId, { action: 'fork', title }, requestOptions)
+      : await this.threads.forkFromMessage(threadId, { messageIndex, title }, requestOptions);
+
+    const fork = new Conversation(this.threads, this.resolveEnvironment, {
+      ...this.state,
+      threadId: forkedThreadId(response),
+      title: title ?? this.state.title,
+      messages: [],
+      steps: [],
+    }, this.contextPolicy);
+    await fork.refresh(requestOptions);
+    return fork;
+  }
+
+  /**
+   * Revert the computer's files to the step before the latest one
+   */
+  async undo(requestOptions?: RequestOptions): Promise<void> {
+    const threadId = this.requireThread('undo');
+    await this.sync();
+
+    const previous = this.state.steps[this.state.steps.length - 2];
+    if (!previous) {
+      throw new InvalidArgumentError('There is no earlier step to revert to', 'NOTHING_TO_UNDO');
+    }
+    await this.threads.revertToStep(threadId, previous.id, { historyActionType: 'revert' }, requestOptions);
+    await this.refresh(requestOptions);
+  }
+
+  /**
+   * Summarize earlier messages on the server to free up context
+   *
+   * @param prompt - Optional guidance for what the summary should keep
+   */
+  async compact(prompt?: string, requestOptions?: RequestOptions): Promise<void> {
+    const threadId = this.requireThread('compact');
+    await this.threads.runContextAction(threadId, { action: 'compact', prompt }, requestOptions);
+    await this.refresh(requestOptions);
+  }
+
+  /**
+   * Cancel the run in progress, if any
+   */
+  async cancel(requestOptions?: RequestOptions): Promise<void> {
+    if (this.state.threadId) {
+      await this.threads.cancel(this.state.threadId, requestOptions);
+    }
+  }
+
+  /**
+   * Snapshot for `client.restoreConversation()`
+   */
+  toJSON(): ConversationState {
+    return { ...this.state, messages: [...this.state.messages], steps: [...this.state.steps] };
+  }
+
+  private ensureThread(signal?: AbortSignal): Promise<string> {
+    if (this.state.threadId) {
+      return Promise.resolve(this.state.threadId);
+    }
+    if (signal?.aborted) {
+      return Promise.reject(new RequestAbortedError());
+    }
+    // Concurrent first messages share one thread. Creating it is not tied to
+    // any one caller's signal; each caller stops waiting when its own fires.
+    this.creating ??= (async () => {
+      const environmentId = this.state.environmentId ?? await this.resolveEnvironment();
+      const thread = await this.threads.create({ environmentId, agentId: this.state.agentId, title: this.state.title });
+      this.state.environmentId = environmentId;
+      this.state.threadId = thread.id;
+      return thread.id;
+    })().finally(() => {
+      this.creating = undefined;
+    });
+    return untilAborted(this.creating, signal);
+  }
+
+  /**
+   * Move the conversation to the new thread when a context policy forks
+   */
+  private followForks(policy: ContextPolicy | undefined): ContextPolicy | undefined {
+    return policy && {
+      ...policy,
+      onAction: (event) => {
+        if (event.forkedThreadId) {
+          this.state.threadId = event.forkedThreadId;
+        }
+        policy.onAction?.(event);
+      },
+    };
+  }
+
+  private requireThread(operation: string): string {
+    if (!this.state.threadId) {
+      throw new InvalidArgumentError(`Cannot ${operation} before the first message`, 'NO_THREAD');
+    }
+    return this.state.threadId;
+  }
+}
+
+/**
+ * Settle with `promise`, or reject with `RequestAbortedError` once `signal`
+ * fires, whichever comes first
+ */
+function untilAborted<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(new RequestAbortedError());
+    if (signal.aborted) {
+      onAbort();
+      return;
+    }
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+/**
+ * @internal
+ */
+export function toConversationState(options: ConversationOptions): ConversationState {
+  return {
+    version: 1,
+    threadId: options.threadId,
+    environmentId: options.computerId ?? options.environmentId,
+    agentId: options.agentId,
+    title: options.title,
+    agentConfig: options.agentConfig,
+    messages: [],
+    steps: [],
+  };
+}
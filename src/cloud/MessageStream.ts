@@ -0,0 +1,555 @@
+/**
+ * Async-iterable stream of run events
+ *
+ * Returned by `threads.stream()` and `client.stream()`. Events are yielded as
+ * they arrive and are not retained, so memory stays flat on long runs.
+ * Leaving the loop early (`break`, `return`, or an exception in the loop body)
+ * cancels the run on the server.
+ *
+ * If the connection drops before the run finishes and the server sent event
+ * IDs, the stream reconnects with the last event ID and skips events it has
+ * already delivered. Otherwise, or when resuming fails, it polls the thread
+ * status and message history instead and emits the final events itself, so
+ * callers see the same result either way.
+ */
+
+import { throwIfAborted } from './ApiClient';
+import { decideApproval, toApprovalSubmission } from './approvals';
+import type { ApprovalHandler, ApprovalPolicy, ApprovalRecord, ApprovalSubmission } from './approvals';
+import { ApiClientError, StreamError } from './errors';
+import type { Logger } from './logger';
+import { computeBackoffDelay, resolveRetryOptions, sleep } from './retry';
+import { readSSE } from './sse';
+import type { SSEMessage } from './sse';
+import { executeClientTool } from './tools';
+import type { ClientTool, ToolOutputSubmission } from './tools';
+import { getActiveSpan, runInSpanContext, withSpan } from './tracing';
+import type { Span, Tracer } from './tracing';
+import type { ApprovalRequestedEvent, MessageStreamEvent, ToolCallStartedEvent } from './types';
+import type { SendMessageResult } from './resources/ThreadsResource';
+
+/**
+ * How an interrupted stream recovers
+ */
+export interface ReconnectOptions {
+  /**
+   * Reconnection attempts before falling back to polling. Reconnecting needs
+   * event IDs from the server; streams without them are always polled.
+   * @default 3
+   */
+  maxAttempts?: number;
+
+  /**
+   * Delay before the first reconnection, doubled on each attempt.
+   * A `retry:` value sent by the server takes precedence.
+   * @default 1000
+   */
+  initialDelayMs?: number;
+
+  /**
+   * Interval between status checks when polling
+   * @default 2000
+   */
+  pollIntervalMs?: number;
+
+  /**
+   * Stop polling and fail after this long
+   * @default 600000 (10 minutes)
+   */
+  pollTimeoutMs?: number;
+}
+
+/**
+ * Outcome of a run recovered by polling
+ * @internal
+ */
+export interface PolledRunResult {
+  status: string;
+  content: string;
+}
+
+/**
+ * @internal
+ */
+export interface MessageStreamInit {
+  /** Resolve the thread to stream into (may create it) */
+  resolveThreadId: () => Promise<string>;
+  /** Start the run and return the SSE response */
+  open: (threadId: string) => Promise<Response>;
+  /** Re-attach to a run in progress after the connection dropped */
+  resume: (threadId: string, resumeFrom: { lastEventId?: string; runId?: string }) => Promise<Response>;
+  /** Wait for the run to finish without a stream */
+  poll: (threadId: string, options: Required<ReconnectOptions>) => Promise<PolledRunResult>;
+  /** Best-effort server-side cancel */
+  cancel: (threadId: string) => Promise<void>;
+  /** Send a client-side tool result back to the run */
+  submitToolOutput: (threadId: string, submission: ToolOutputSubmission) => Promise<void>;
+  /** Tools executed in this process when the agent calls them */
+  tools?: ClientTool[];
+  /** Post an approval decision to the paused run */
+  submitApproval: (threadId: string, approvalId: string, submission: ApprovalSubmission) => Promise<void>;
+  /** Decides approval requests; unset when approvals are not enabled */
+  approvals?: { policy: ApprovalPolicy; handler?: ApprovalHandler };
+  signal?: AbortSignal;
+  logger: Logger;
+  tracer: Tracer;
+  /** Run ID supplied by the caller, if any */
+  runId?: string;
+  /** `false` disables reconnection */
+  reconnect?: ReconnectOptions | false;
+  /** Reject when the stream ends without `stream.completed` */
+  strict?: boolean;
+  /** Parent for the stream span, resolved after `resolveThreadId` */
+  parentSpan?: () => Span | undefined;
+  /** Keep every event for `SendMessageResult.events` */
+  collectEvents?: boolean;
+  /** Called once when the stream completes, fails or is abandoned */
+  onSettled?: (error?: unknown, result?: SendMessageResult) => void;
+}
+
+/** Events kept for `StreamError.events` when the stream does not collect every event */
+const RECENT_EVENT_LIMIT = 50;
+
+const DEFAULT_RECONNECT_OPTIONS: Required<ReconnectOptions> = {
+  maxAttempts: 3,
+  initialDelayMs: 1000,
+  pollIntervalMs: 2000,
+  pollTimeoutMs: 600000,
+};
+
+export class MessageStream implements AsyncIterable<MessageStreamEvent> {
+  private started = false;
+  private result?: SendMessageResult;
+  private currentThreadId?: string;
+
+  constructor(private readonly init: MessageStreamInit) {}
+
+  /**
+   * Thread the run belongs to. Available once iteration has started.
+   */
+  get threadId(): string | undefined {
+    return this.currentThreadId;
+  }
+
+  async *[Symbol.asyncIterator](): AsyncIterator<MessageStreamEvent> {
+    if (this.started) {
+      throw new Error('MessageStream can only be iterated once');
+    }
+    this.started = true;
+
+    const { signal, logger } = this.init;
+    const reconnect = this.init.reconnect === false
+      ? undefined
+      : { ...DEFAULT_RECONNECT_OPTIONS, ...this.init.reconnect };
+    const backoff = resolveRetryOptions(undefined, {
+      initialDelayMs: reconnect?.initialDelayMs,
+      maxDelayMs: 30000,
+      jitter: false,
+    });
+
+    const events: MessageStreamEvent[] = [];
+    const keepEvent = (event: MessageStreamEvent) => {
+      events.push(event);
+      if (!this.init.collectEvents && events.length > RECENT_EVENT_LIMIT) {
+        events.shift();
+      }
+    };
+    const tools = new Map((this.init.tools ?? []).map((tool) => [tool.name, tool]));
+    const executedCalls = new Set<string>();
+    const approvalRecords: ApprovalRecord[] = [];
+    let lastEventId: string | undefined;
+    let serverRetryMs: number | undefined;
+    let runId = this.init.runId;
+    let content = '';
+    let run: SendMessageResult['run'];
+    let completed = false;
+    let failure: unknown;
+    let span: Span | undefined;
+
+    try {
+      const threadId = await this.init.resolveThreadId();
+      this.currentThreadId = threadId;
+
+      span = this.init.tracer.startSpan('computer_agents.thread.stream', {
+        attributes: { 'computer_agents.thread_id': threadId },
+        parent: this.init.parentSpan?.() ?? getActiveSpan(),
+      });
+      const streamSpan = span;
+
+      let response: Response | undefined;
+      try {
+        response = await runInSpanContext(streamSpan, () => this.init.open(threadId));
+      } catch (error) {
+        // The run may already have started server-side
+        if (signal?.aborted) {
+          await this.init.cancel(threadId);
+        }
+        throw error;
+      }
+
+      let eventCount = 0;
+      const finish = () => {
+        completed = true;
+        this.result = {
+          content,
+          threadId,
+          run,
+          events: this.init.collectEvents ? events : [],
+          approvals: approvalRecords,
+          data: undefined,
+        };
+        streamSpan.setAttributes({
+          'computer_agents.run_id': run?.id,
+          'computer_agents.run_status': run?.status,
+          'computer_agents.event_count': eventCount,
+        });
+      };
+      let reconnects = 0;
+      let terminal = false;
+      let interruption: unknown;
+
+      while (!terminal) {
+        if (response) {
+          interruption = undefined;
+          if (!response.body) {
+            throw new Error('No response body');
+          }
+
+          let streamError: StreamError | undefined;
+          const messages = readSSE(response.body)[Symbol.asyncIterator]();
+          try {
+            while (true) {
+              // Only reading the response counts as an interruption. Tool and
+              // approval failures below are not transport errors and must not
+              // trigger a reconnect.
+              let next: IteratorResult<SSEMessage>;
+              try {
+                next = await messages.next();
+              } catch (error) {
+                if (signal?.aborted) {
+                  await this.init.cancel(threadId);
+                  throwIfAborted(signal);
+                }
+                interruption = error;
+                break;
+              }
+              if (next.done) {
+                break;
+              }
+              const message = next.value;
+
+              serverRetryMs = message.retry ?? serverRetryMs;
+              if (message.id !== undefined && message.id !== '') {
+                if (alreadyDelivered(message.id, lastEventId)) {
+                  continue;
+                }
+                lastEventId = message.id;
+              }
+
+              let data: MessageStreamEvent;
+              try {
+                data = JSON.parse(message.data) as MessageStreamEvent;
+              } catch {
+                logger.debug('ignoring non-JSON stream event', { threadId, event: message.event, data: message.data });
+                continue;
+              }
+
+              eventCount++;
+              keepEvent(data);
+              logger.debug('stream event', { threadId, id: message.id, event: data });
+
+              if (typeof data.runId === 'string') {
+                runId = data.runId;
+              }
+
+              // Extract final content and run details
+              if (data.type === 'response.completed') {
+                content = data.response?.content || '';
+              } else if (data.type === 'stream.completed') {
+                run = data.run;
+                runId = run?.id ?? runId;
+                terminal = true;
+                // Settle before yielding so a consumer that breaks here
+                // does not cancel a finished run
+                finish();
+              } else if (data.type === 'stream.error') {
+                streamError = new StreamError(data.message || data.error, data.code, {
+                  threadId,
+                  runId,
+                  events: [...events],
+                });
+                break;
+              }
+
+              yield data;
+
+              if (data.type === 'response.tool_call.started' && !executedCalls.has(data.callId)) {
+                const tool = tools.get(data.name);
+                if (tool) {
+                  executedCalls.add(data.callId);
+                  await runInSpanContext(streamSpan, () => this.runClientTool(tool, data, threadId, runId, events));
+                }
+              } else if (
+                data.type === 'response.approval.requested' &&
+                this.init.approvals &&
+                !approvalRecords.some((record) => record.approvalId === data.approvalId)
+              ) {
+                const approvals = this.init.approvals;
+                approvalRecords.push(
+                  await runInSpanContext(streamSpan, () => this.resolveApproval(approvals, data, threadId, runId))
+                );
+              }
+            }
+          } finally {
+            await messages.return?.(undefined);
+          }
+
+          if (streamError) {
+            throw streamError;
+          }
+          if (terminal) {
+            break;
+          }
+        }
+
+        if (!reconnect) {
+          if (interruption instanceof ApiClientError) {
+            throw interruption;
+          }
+          if (interruption !== undefined) {
+            const message = interruption instanceof Error ? interruption.message : String(interruption);
+            throw new StreamError(`Stream interrupted: ${message}`, 'STREAM_INTERRUPTED', {
+              threadId,
+              runId,
+              events: [...events],
+            });
+          }
+          if (this.init.strict) {
+            throw new StreamError('Stream closed before the run completed', 'STREAM_CLOSED', {
+              threadId,
+              runId,
+              events: [...events],
+            });
+          }
+          // Lenient mode: a premature close resolves with what arrived
+          break;
+        }
+        interruption ??= new Error('Stream closed before the run completed');
+
+        // Resume from the last event, or fall back to polling. Only a server
+        // that numbers its events supports Last-Event-ID; re-sending the
+        // message to any other server could start a second run.
+        const canResume = lastEventId !== undefined && reconnects < reconnect.maxAttempts;
+        if (!canResume) {
+          logger.warn('stream interrupted, polling for the run result', {
+            threadId,
+            reconnects,
+            error: interruption instanceof Error ? interruption.message : String(interruption),
+          });
+          const polled = await this.init.poll(threadId, reconnect);
+          for (const event of this.recoveredEvents(polled, runId)) {
+            eventCount++;
+            keepEvent(event);
+            if (event.type === 'response.completed') {
+              content = polled.content;
+            } else if (event.type === 'stream.completed') {
+              run = event.run;
+              finish();
+            }
+            yield event;
+          }
+          streamSpan.setAttribute('computer_agents.recovered', 'poll');
+          break;
+        }
+
+        const delayMs = serverRetryMs ?? computeBackoffDelay(reconnects, backoff);
+        reconnects++;
+        logger.warn('stream interrupted, reconnecting', {
+          threadId,
+          attempt: reconnects,
+          lastEventId,
+          delayMs,
+          error: interruption instanceof Error ? interruption.message : String(interruption),
+        });
+        await sleep(delayMs, signal);
+        throwIfAborted(signal);
+
+        try {
+          response = await runInSpanContext(streamSpan, () => this.init.resume(threadId, { lastEventId, runId }));
+        } catch (error) {
+          if (signal?.aborted) {
+            await this.init.cancel(threadId);
+            throwIfAborted(signal);
+          }
+          // The server refused to resume: poll on the next pass
+          if (error instanceof ApiClientError && error.status >= 400 && error.status < 500) {
+            reconnects = reconnect.maxAttempts;
+          }
+          interruption = error;
+          response = undefined;
+        }
+        streamSpan.setAttribute('computer_agents.reconnects', reconnects);
+      }
+
+      finish();
+    } catch (error) {
+      failure = error;
+      throw error;
+    } finally {
+      // The consumer left the loop early: stop the agent
+      if (!completed && failure === undefined && this.currentThreadId) {
+        await this.init.cancel(this.currentThreadId);
+      }
+
+      if (span) {
+        if (failure !== undefined) {
+          span.recordException(failure);
+          span.setStatus('error', failure instanceof Error ? failure.message : String(failure));
+        } else {
+          span.setStatus(completed ? 'ok' : 'unset', completed ? undefined : 'cancelled by consumer');
+        }
+        span.end();
+      }
+      this.init.onSettled?.(failure, this.result);
+    }
+  }
+
+  /**
+   * Consume the stream (if it has not been iterated yet) and return the
+   * final result. `events` is only populated by `sendMessage()`.
+   */
+  async finalResult(): Promise<SendMessageResult> {
+    if (!this.started) {
+      for await (const event of this) {
+        void event;
+      }
+    }
+    if (!this.result) {
+      throw new Error('Stream ended before the run completed');
+    }
+    return this.result;
+  }
+
+  /**
+   * Execute a client-side tool call and post its result to the run.
+   * The run cannot continue without the output, so when posting it fails
+   * (after the client's own retries) the run is cancelled and the stream
+   * fails with `TOOL_OUTPUT_FAILED`.
+   */
+  private async runClientTool(
+    tool: ClientTool,
+    event: ToolCallStartedEvent,
+    threadId: string,
+    runId: string | undefined,
+    events: MessageStreamEvent[]
+  ): Promise<void> {
+    const { logger, tracer, signal } = this.init;
+    const attributes = {
+      'computer_agents.tool.name': tool.name,
+      'computer_agents.tool.call_id': event.callId,
+    };
+
+    await withSpan(tracer, 'computer_agents.tool_call', attributes, async (span) => {
+      const submission = await executeClientTool(tool, event, { threadId, runId, callId: event.callId, signal });
+      span.setAttribute('computer_agents.tool.is_error', submission.isError);
+      if (submission.isError) {
+        logger.warn('client tool failed', { threadId, tool: tool.name, callId: event.callId, error: submission.output });
+      } else {
+        logger.debug('client tool completed', { threadId, tool: tool.name, callId: event.callId });
+      }
+      try {
+        await this.init.submitToolOutput(threadId, submission);
+      } catch (error) {
+        await this.init.cancel(threadId);
+        throwIfAborted(signal);
+        const message = error instanceof Error ? error.message : String(error);
+        throw new StreamError(`Could not submit the output of ${tool.name}: ${message}`, 'TOOL_OUTPUT_FAILED', {
+          threadId,
+          runId,
+          events: [...events],
+        });
+      }
+    });
+  }
+
+  /**
+   * Decide an approval request, record it and post the decision to the run
+   */
+  private async resolveApproval(
+    approvals: NonNullable<MessageStreamInit['approvals']>,
+    event: ApprovalRequestedEvent,
+    threadId: string,
+    runId?: string
+  ): Promise<ApprovalRecord> {
+    const { logger, tracer, signal } = this.init;
+    const attributes = {
+      'computer_agents.approval.id': event.approvalId,
+      'computer_agents.approval.kind': event.action.kind,
+    };
+
+    return withSpan(tracer, 'computer_agents.approval', attributes, async (span) => {
+      const record = await decideApproval(
+        { approvalId: event.approvalId, threadId, runId, action: event.action },
+        approvals.policy,
+        approvals.handler,
+        signal
+      );
+      throwIfAborted(signal);
+
+      span.setAttributes({
+        'computer_agents.approval.decision': record.decision.type,
+        'computer_agents.approval.decided_by': record.decidedBy,
+      });
+      logger.info('approval decided', {
+        threadId,
+        approvalId: record.approvalId,
+        action: record.action,
+        decision: record.decision,
+        decidedBy: record.decidedBy,
+      });
+      try {
+        approvals.policy.onDecision?.(record);
+      } catch (error) {
+        logger.warn('approval audit callback failed', {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+
+      await this.init.submitApproval(threadId, event.approvalId, toApprovalSubmission(record.decision));
+      return record;
+    });
+  }
+
+  /**
+   * Events standing in for the end of a stream recovered by polling
+   */
+  private recoveredEvents(polled: PolledRunResult, runId?: string): MessageStreamEvent[] {
+    return [
+      {
+        type: 'response.completed',
+        response: { content: polled.content },
+        recovered: true,
+      },
+      {
+        type: 'stream.completed',
+        run: { id: runId ?? '', status: polled.status },
+        recovered: true,
+      },
+    ];
+  }
+}
+
+/**
+ * Whether an event ID was already delivered before a reconnect. Only the
+ * last ID is kept: numeric IDs are compared as a sequence, others must match
+ * the last ID exactly.
+ */
+function alreadyDelivered(id: string, lastEventId: string | undefined): boolean {
+  if (lastEventId === undefined) {
+    return false;
+  }
+  if (/^\d+$/.test(id) && /^\d+$/.test(lastEventId)) {
+    return Number(id) <= Number(lastEventId);
+  }
+  return id === lastEventId;
+}
@@ -0,0 +1,256 @@
+/**
+ * Human-in-the-loop approvals
+ *
+ * With `onApprovalRequired` or `approvalPolicy` set, the agent pauses before
+ * each tool call, file change and shell command and the stream emits
+ * `response.approval.requested`. The policy decides first: its rules can
+ * approve or deny outright, or ask the hook. The hook has `timeoutMs` to
+ * answer before `timeoutDecision` applies; the same fallback is used when
+ * the hook throws. Every decision produces an
+ * `ApprovalRecord`, returned on the result and passed to `onDecision`.
+ */
+
+import type { ApprovalAction, FileChangeOperation } from './types';
+
+export type ApprovalRuleDecision = 'approve' | 'deny' | 'ask';
+
+/**
+ * Match criteria for an approval rule. Every criterion that is set must match.
+ */
+export interface ApprovalRule {
+  /** Glob on the tool name, e.g. `git_*` */
+  tool?: string;
+  /**
+   * Glob on the file path (`*` stays within a segment, `**` crosses them).
+   * Matches file changes, and tool calls with a string `path` argument.
+   */
+  path?: string;
+  /** File change operations the rule applies to */
+  operations?: FileChangeOperation[];
+  /**
+   * Pattern for shell commands, and tool calls with a string `command`
+   * argument. Strings match as substrings.
+   */
+  command?: string | RegExp;
+  decision: ApprovalRuleDecision;
+}
+
+export interface ApprovalPolicy {
+  /** Checked in order; the first matching rule decides */
+  rules?: ApprovalRule[];
+  /**
+   * Decision when no rule matches
+   * @default 'ask'
+   */
+  default?: ApprovalRuleDecision;
+  /**
+   * How long the hook has to answer
+   * @default 300000 (5 minutes)
+   */
+  timeoutMs?: number;
+  /**
+   * Decision applied when the hook times out or throws, or when a rule asks
+   * and no hook is registered
+   * @default 'deny'
+   */
+  timeoutDecision?: 'approve' | 'deny';
+  /** Audit sink, called once per decision */
+  onDecision?: (record: ApprovalRecord) => void;
+}
+
+export interface ApprovalRequest {
+  approvalId: string;
+  threadId: string;
+  runId?: string;
+  action: ApprovalAction;
+  /** Aborted when the request times out or the run is cancelled */
+  signal: AbortSignal;
+}
+
+export type ApprovalDecision =
+  | { type: 'approve' }
+  | { type: 'deny'; reason?: string }
+  /** Approve with modified tool arguments or command */
+  | { type: 'edit'; arguments?: Record<string, unknown>; command?: string };
+
+export type ApprovalHandler = (request: ApprovalRequest) => ApprovalDecision | Promise<ApprovalDecision>;
+
+/**
+ * Audit entry for one approval decision
+ */
+export interface ApprovalRecord {
+  approvalId: string;
+  threadId: string;
+  runId?: string;
+  action: ApprovalAction;
+  decision: ApprovalDecision;
+  /** What made the decision; `error` means the hook threw */
+  decidedBy: 'rule' | 'hook' | 'timeout' | 'default' | 'error';
+  /** Index of the matching rule when `decidedBy` is `rule` */
+  ruleIndex?: number;
+  /** Message of the error thrown by the hook when `decidedBy` is `error` */
+  error?: string;
+  requestedAt: string;
+  decidedAt: string;
+}
+
+/**
+ * Decision posted to the server
+ */
+export interface ApprovalSubmission {
+  decision: 'approve' | 'deny';
+  reason?: string;
+  arguments?: Record<string, unknown>;
+  command?: string;
+}
+
+const DEFAULT_APPROVAL_TIMEOUT_MS = 300000;
+
+/**
+ * Decide an approval request using the policy and hook
+ * @internal
+ */
+export async function decideApproval(
+  request: Omit<ApprovalRequest, 'signal'>,
+  policy: ApprovalPolicy,
+  handler: ApprovalHandler | undefined,
+  signal?: AbortSignal
+): Promise<ApprovalRecord> {
+  const requestedAt = new Date().toISOString();
+  const record = (
+    decision: ApprovalDecision,
+    decidedBy: ApprovalRecord['decidedBy'],
+    ruleIndex?: number
+  ): ApprovalRecord => ({
+    ...request,
+    decision,
+    decidedBy,
+    ruleIndex,
+    requestedAt,
+    decidedAt: new Date().toISOString(),
+  });
+
+  const timeoutDecision = toDecision(policy.timeoutDecision ?? 'deny', 'No decision before the approval timeout');
+
+  const ruleIndex = (policy.rules ?? []).findIndex((rule) => matchesRule(rule, request.action));
+  const ruleDecision = ruleIndex === -1 ? policy.default ?? 'ask' : policy.rules![ruleIndex].decision;
+  if (ruleDecision !== 'ask') {
+    return ruleIndex === -1
+      ? record(toDecision(ruleDecision, 'Denied by default policy'), 'default')
+      : record(toDecision(ruleDecision, `Denied by approval rule ${ruleIndex}`), 'rule', ruleIndex);
+  }
+
+  if (!handler) {
+    return record(timeoutDecision, 'default');
+  }
+
+  // Aborted on timeout or when the caller cancels the run
+  const controller = new AbortController();
+  const stopped = new Promise<undefined>((resolve) => {
+    controller.signal.addEventListener('abort', () => resolve(undefined), { once: true });
+  });
+  const onAbort = () => controller.abort();
+  signal?.addEventListener('abort', onAbort, { once: true });
+  if (signal?.aborted) {
+    controller.abort();
+  }
+  const timer = setTimeout(() => controller.abort(), policy.timeoutMs ?? DEFAULT_APPROVAL_TIMEOUT_MS);
+
+  try {
+    const decision = await Promise.race([
+      Promise.resolve().then(() => handler({ ...request, signal: controller.signal })),
+      stopped,
+    ]);
+    return decision ? record(decision, 'hook') : record(timeoutDecision, 'timeout');
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const fallback = toDecision(policy.timeoutDecision ?? 'deny', `Approval hook failed: ${message}`);
+    return { ...record(fallback, 'error'), error: message };
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+}
+
+/**
+ * @internal
+ */
+export function toApprovalSubmission(decision: ApprovalDecision): ApprovalSubmission {
+  switch (decision.type) {
+    case 'approve':
+      return { decision: 'approve' };
+    case 'deny':
+      return { decision: 'deny', reason: decision.reason };
+    case 'edit':
+      return { decision: 'approve', arguments: decision.arguments, command: decision.command };
+  }
+}
+
+function toDecision(decision: 'approve' | 'deny', reason: string): ApprovalDecision {
+  return decision === 'approve' ? { type: 'approve' } : { type: 'deny', reason };
+}
+
+function matchesRule(rule: ApprovalRule, action: ApprovalAction): boolean {
+  const args = action.kind === 'tool_call' ? action.arguments : {};
+
+  if (rule.tool !== undefined && !(action.kind === 'tool_call' && globToRegExp(rule.tool).test(action.name))) {
+    return false;
+  }
+
+  if (rule.path !== undefined) {
+    const path = action.kind === 'file_change' ? action.path : args.path;
+    if (typeof path !== 'string' || !globToRegExp(rule.path).test(path)) {
+      return false;
+    }
+  }
+
+  if (rule.operations !== undefined) {
+    if (action.kind !== 'file_change' || !rule.operations.includes(action.operation)) {
+      return false;
+    }
+  }
+
+  if (rule.command !== undefined) {
+    const command = action.kind === 'command' ? action.command : args.command;
+    if (typeof command !== 'string') {
+      return false;
+    }
+    const matches = typeof rule.command === 'string'
+      ? command.includes(rule.command)
+      // A copy without `g`/`y`, whose `test()` would keep state in `lastIndex`
+      : new RegExp(rule.command.source, rule.command.flags.replace(/[gy]/g, '')).test(command);
+    if (!matches) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Convert a glob to an anchored RegExp: `**` matches across `/`,
+ * `*` within a segment, `?` one character.
+ */
+function globToRegExp(glob: string): RegExp {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      // `**/` also matches zero directories
+      if (glob[i + 2] === '/') {
+        source += '(?:.*/)?';
+        i += 2;
+      } else {
+        source += '.*';
+        i++;
+      }
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
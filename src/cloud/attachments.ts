@@ -0,0 +1,208 @@
+/**
+ * Message attachments
+ *
+ * Callers describe attachments by source: a local file path, a buffer with a
+ * MIME type, an image (for example from `environments.captureScreenshot()`)
+ * or a remote URL. Before the message is sent, small payloads are inlined as
+ * base64 and larger ones are uploaded to the thread; URLs are passed through
+ * for the server to fetch.
+ */
+
+import { readFile, stat } from 'fs/promises';
+import { basename, extname } from 'path';
+import { InvalidArgumentError } from './errors';
+import type { MessageAttachment } from './types';
+
+export type ImageMimeType = 'image/png' | 'image/jpeg' | 'image/gif' | 'image/webp';
+
+export type Attachment =
+  | {
+      type: 'file';
+      /** Local path, read when the message is sent */
+      path: string;
+      /** Guessed from the extension when omitted */
+      mimeType?: string;
+      /** Defaults to the file's base name */
+      name?: string;
+    }
+  | {
+      type: 'buffer';
+      data: Uint8Array;
+      mimeType: string;
+      name?: string;
+    }
+  | {
+      type: 'image';
+      data: Uint8Array;
+      /** Detected from the image header when omitted */
+      mimeType?: ImageMimeType;
+      name?: string;
+    }
+  | {
+      type: 'url';
+      /** `http:` or `https:` URL the server downloads */
+      url: string;
+      mimeType?: string;
+      name?: string;
+    };
+
+/**
+ * Largest attachment accepted, in bytes (25 MB)
+ */
+export const MAX_ATTACHMENT_BYTES = 25 * 1024 * 1024;
+
+/**
+ * Attachments up to this size are sent inline as base64 (1 MB)
+ */
+export const INLINE_ATTACHMENT_BYTES = 1024 * 1024;
+
+/**
+ * Attachment content ready to upload
+ */
+export interface AttachmentUpload {
+  name: string;
+  mimeType: string;
+  data: Uint8Array;
+}
+
+const MIME_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.pdf': 'application/pdf',
+  '.txt': 'text/plain',
+  '.md': 'text/markdown',
+  '.csv': 'text/csv',
+  '.json': 'application/json',
+  '.html': 'text/html',
+  '.zip': 'application/zip',
+};
+
+/**
+ * Convert attachments to their wire form, uploading large ones
+ * @internal
+ */
+export async function prepareAttachments(
+  attachments: Attachment[],
+  upload: (file: AttachmentUpload) => Promise<MessageAttachment>
+): Promise<MessageAttachment[]> {
+  const prepared: MessageAttachment[] = [];
+
+  for (const [index, attachment] of attachments.entries()) {
+    const field = `attachments[${index}]`;
+
+    if (attachment.type === 'url') {
+      prepared.push(toUrlAttachment(attachment, field));
+      continue;
+    }
+
+    const file = await loadAttachment(attachment, field);
+    if (file.data.byteLength > MAX_ATTACHMENT_BYTES) {
+      throw invalidAttachment(
+        field,
+        `${file.name} is ${file.data.byteLength} bytes; attachments are limited to ${MAX_ATTACHMENT_BYTES} bytes`,
+        'ATTACHMENT_TOO_LARGE'
+      );
+    }
+
+    prepared.push(
+      file.data.byteLength <= INLINE_ATTACHMENT_BYTES
+        ? {
+            type: 'inline',
+            name: file.name,
+            mimeType: file.mimeType,
+            size: file.data.byteLength,
+            data: Buffer.from(file.data).toString('base64'),
+          }
+        : await upload(file)
+    );
+  }
+
+  return prepared;
+}
+
+async function loadAttachment(
+  attachment: Exclude<Attachment, { type: 'url' }>,
+  field: string
+): Promise<AttachmentUpload> {
+  switch (attachment.type) {
+    case 'file': {
+      // Check the size before reading so oversized files are never loaded
+      const { size } = await stat(attachment.path);
+      if (size > MAX_ATTACHMENT_BYTES) {
+        throw invalidAttachment(
+          field,
+          `${attachment.path} is ${size} bytes; attachments are limited to ${MAX_ATTACHMENT_BYTES} bytes`,
+          'ATTACHMENT_TOO_LARGE'
+        );
+      }
+      return {
+        name: attachment.name ?? basename(attachment.path),
+        mimeType: attachment.mimeType ?? MIME_TYPES[extname(attachment.path).toLowerCase()] ?? 'application/octet-stream',
+        data: await readFile(attachment.path),
+      };
+    }
+    case 'buffer':
+      return {
+        name: attachment.name ?? 'attachment',
+        mimeType: attachment.mimeType,
+        data: attachment.data,
+      };
+    case 'image': {
+      const mimeType = attachment.mimeType ?? detectImageType(attachment.data);
+      if (!mimeType) {
+        throw invalidAttachment(field, 'Image data is not PNG, JPEG, GIF or WebP', 'UNSUPPORTED_ATTACHMENT');
+      }
+      return {
+        name: attachment.name ?? `image${extensionFor(mimeType)}`,
+        mimeType,
+        data: attachment.data,
+      };
+    }
+  }
+}
+
+function toUrlAttachment(attachment: Extract<Attachment, { type: 'url' }>, field: string): MessageAttachment {
+  let url: URL;
+  try {
+    url = new URL(attachment.url);
+  } catch {
+    throw invalidAttachment(field, `Invalid attachment URL: ${attachment.url}`, 'UNSUPPORTED_ATTACHMENT');
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw invalidAttachment(field, `Attachment URLs must use http or https: ${attachment.url}`, 'UNSUPPORTED_ATTACHMENT');
+  }
+  return { type: 'url', url: url.toString(), name: attachment.name, mimeType: attachment.mimeType };
+}
+
+function detectImageType(data: Uint8Array): ImageMimeType | undefined {
+  const startsWith = (...bytes: number[]) => bytes.every((byte, i) => data[i] === byte);
+  if (startsWith(0x89, 0x50, 0x4e, 0x47)) {
+    return 'image/png';
+  }
+  if (startsWith(0xff, 0xd8, 0xff)) {
+    return 'image/jpeg';
+  }
+  if (startsWith(0x47, 0x49, 0x46, 0x38)) {
+    return 'image/gif';
+  }
+  // RIFF....WEBP
+  if (startsWith(0x52, 0x49, 0x46, 0x46) && data[8] === 0x57 && data[9] === 0x45 && data[10] === 0x42 && data[11] === 0x50) {
+    return 'image/webp';
+  }
+  return undefined;
+}
+
+function extensionFor(mimeType: ImageMimeType): string {
+  return mimeType === 'image/jpeg' ? '.jpg' : `.${mimeType.slice('image/'.length)}`;
+}
+
+/**
+ * Attachment problems are reported before any request is made, as an
+ * `InvalidArgumentError` with the offending `attachments[i]` in `fieldErrors`
+ */
+function invalidAttachment(field: string, message: string, code: string): InvalidArgumentError {
+  return new InvalidArgumentError(message, code, [{ field, message }]);
+}
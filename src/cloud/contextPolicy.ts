@@ -0,0 +1,117 @@
+/**
+ * Context-window management
+ *
+ * Long threads eventually fill the model's context window. With a
+ * `contextPolicy` on `run()`, `sendMessage()`, `stream()` or a conversation,
+ * the thread's context estimate is read before the message is sent. Once usage reaches a
+ * threshold the policy compacts the thread, forks it into a new thread that
+ * starts from a summary, or only warns. Each action is reported to
+ * `onAction` with the token counts before and after.
+ */
+
+import { ApiClientError, InvalidArgumentError } from './errors';
+import type { ThreadContextEstimate } from './types';
+
+export type ContextPolicyAction = 'compact' | 'fork' | 'warn';
+
+export interface ContextThreshold {
+  /** Fraction of the context window in use, greater than 0 and at most 1 */
+  usage: number;
+  action: ContextPolicyAction;
+}
+
+export interface ContextPolicy {
+  /**
+   * The highest threshold reached decides, e.g.
+   * `[{ usage: 0.7, action: 'warn' }, { usage: 0.85, action: 'compact' }]`
+   */
+  thresholds: ContextThreshold[];
+  /** Context window size in tokens, for estimates that do not include it */
+  contextWindow?: number;
+  /** Instructions for the summary written when compacting or forking */
+  summaryPrompt?: string;
+  /** Title for threads created by a fork */
+  forkTitle?: string;
+  /** Called after every action */
+  onAction?: (event: ContextPolicyEvent) => void;
+}
+
+/**
+ * What a context policy did before a message was sent
+ */
+export interface ContextPolicyEvent {
+  action: ContextPolicyAction;
+  threadId: string;
+  /** Thread created by a fork; the message is sent there instead */
+  forkedThreadId?: string;
+  /** The threshold that was reached */
+  threshold: number;
+  /** Fraction of the context window in use before the action */
+  usage: number;
+  contextWindow: number;
+  tokensBefore: number;
+  /** Tokens in use after compacting, or in the forked thread */
+  tokensAfter?: number;
+  /** `tokensBefore - tokensAfter` */
+  tokensSaved?: number;
+}
+
+/**
+ * @internal
+ */
+export interface ContextUsage {
+  tokens: number;
+  contextWindow: number;
+}
+
+/**
+ * Read token usage from a `getContextEstimate()` response. Returns
+ * `undefined` when the context window is unknown.
+ *
+ * @internal
+ */
+export function readContextUsage(estimate: ThreadContextEstimate, contextWindow?: number): ContextUsage | undefined {
+  const window = contextWindow ?? estimate.contextWindow;
+  if (!Number.isFinite(estimate.estimatedTokens) || window === undefined || !(window > 0)) {
+    return undefined;
+  }
+  return { tokens: estimate.estimatedTokens, contextWindow: window };
+}
+
+/**
+ * Pick the highest threshold the usage has reached
+ *
+ * @internal
+ */
+export function selectThreshold(policy: ContextPolicy, usage: ContextUsage): ContextThreshold | undefined {
+  validateContextPolicy(policy);
+  const ratio = usage.tokens / usage.contextWindow;
+  return policy.thresholds
+    .filter((threshold) => ratio >= threshold.usage)
+    .reduce<ContextThreshold | undefined>((best, threshold) => (!best || threshold.usage > best.usage ? threshold : best), undefined);
+}
+
+/**
+ * Pull the new thread ID out of a fork response
+ *
+ * @internal
+ */
+export function forkedThreadId(response: Record<string, unknown>): string {
+  const thread = response.thread as { id?: unknown } | undefined;
+  const id = thread?.id ?? response.threadId ?? response.id;
+  if (typeof id !== 'string') {
+    throw new ApiClientError('Fork response did not include a thread ID', 0, 'INVALID_RESPONSE', response);
+  }
+  return id;
+}
+
+function validateContextPolicy(policy: ContextPolicy): void {
+  policy.thresholds.forEach((threshold, index) => {
+    if (!(threshold.usage > 0 && threshold.usage <= 1)) {
+      const message = `Threshold usage must be greater than 0 and at most 1, got ${threshold.usage}`;
+      throw new InvalidArgumentError(message, 'INVALID_CONTEXT_POLICY', [
+        { field: `thresholds[${index}].usage`, message },
+      ]);
+    }
+  });
+}
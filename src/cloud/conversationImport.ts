@@ -0,0 +1,298 @@
+/**
+ * Conversation import
+ *
+ * Converts chat histories in OpenAI Chat Completions or Anthropic Messages
+ * format, including tool calls and tool results, into thread messages that
+ * `threads.import()` loads without running the agent.
+ */
+
+import { InvalidArgumentError } from './errors';
+import type { ImportedThreadMessage, MessageAttachment } from './types';
+
+// ============================================================================
+// OpenAI Chat Completions
+// ============================================================================
+
+export type OpenAIContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string; detail?: string } };
+
+export interface OpenAIToolCall {
+  id: string;
+  type: 'function';
+  function: { name: string; arguments: string };
+}
+
+export type OpenAIChatMessage =
+  | { role: 'system' | 'developer'; content: string | OpenAIContentPart[]; name?: string }
+  | { role: 'user'; content: string | OpenAIContentPart[]; name?: string }
+  | { role: 'assistant'; content?: string | OpenAIContentPart[] | null; tool_calls?: OpenAIToolCall[]; name?: string }
+  | { role: 'tool'; tool_call_id: string; content: string | OpenAIContentPart[] }
+  /** Legacy function-calling result */
+  | { role: 'function'; name: string; content: string | null };
+
+// ============================================================================
+// Anthropic Messages
+// ============================================================================
+
+export interface AnthropicImageBlock {
+  type: 'image';
+  source:
+    | { type: 'base64'; media_type: string; data: string }
+    | { type: 'url'; url: string };
+}
+
+export interface AnthropicDocumentBlock {
+  type: 'document';
+  source:
+    | { type: 'base64'; media_type: string; data: string }
+    | { type: 'text'; media_type: string; data: string }
+    | { type: 'url'; url: string };
+  title?: string;
+}
+
+export type AnthropicContentBlock =
+  | { type: 'text'; text: string }
+  | AnthropicImageBlock
+  | AnthropicDocumentBlock
+  | { type: 'tool_use'; id: string; name: string; input: unknown }
+  | {
+      type: 'tool_result';
+      tool_use_id: string;
+      content?: string | Array<{ type: 'text'; text: string } | AnthropicImageBlock | AnthropicDocumentBlock>;
+      is_error?: boolean;
+    }
+  | { type: 'thinking'; thinking: string }
+  | { type: 'redacted_thinking'; data: string };
+
+export interface AnthropicMessage {
+  role: 'user' | 'assistant';
+  content: string | AnthropicContentBlock[];
+}
+
+// ============================================================================
+// Conversion
+// ============================================================================
+
+export type ConversationFormat = 'openai' | 'anthropic';
+
+/**
+ * Convert OpenAI Chat Completions messages to thread messages
+ */
+export function fromOpenAIMessages(messages: OpenAIChatMessage[]): ImportedThreadMessage[] {
+  return messages.map((message, index) => {
+    const field = `messages[${index}]`;
+    switch (message.role) {
+      case 'system':
+      case 'developer':
+        return { role: 'system', content: openAIText(message.content) };
+      case 'user':
+        return withAttachments({ role: 'user', content: openAIText(message.content) }, openAIImages(message.content));
+      case 'assistant':
+        return {
+          role: 'assistant',
+          content: openAIText(message.content ?? ''),
+          ...(message.tool_calls?.length
+            ? {
+                toolCalls: message.tool_calls.map((call) => ({
+                  id: call.id,
+                  name: call.function.name,
+                  arguments: parseToolArguments(call.function.arguments, field),
+                })),
+              }
+            : {}),
+        };
+      case 'tool':
+        return { role: 'tool', toolCallId: message.tool_call_id, content: openAIText(message.content) };
+      case 'function':
+        return { role: 'tool', name: message.name, content: message.content ?? '' };
+      default:
+        throw invalidMessage(field, `Unsupported OpenAI message role: ${(message as { role?: unknown }).role}`);
+    }
+  });
+}
+
+/**
+ * Convert Anthropic Messages to thread messages. The top-level `system`
+ * prompt, if any, becomes the first message. Tool results sent in a user
+ * turn become separate `tool` messages; images and documents, including
+ * those inside tool results, become attachments. Thinking blocks are
+ * dropped, and any other block type is rejected.
+ */
+export function fromAnthropicMessages(
+  messages: AnthropicMessage[],
+  system?: string | Array<{ type: 'text'; text: string }>
+): ImportedThreadMessage[] {
+  const result: ImportedThreadMessage[] = [];
+  if (system !== undefined) {
+    const content = typeof system === 'string' ? system : system.map((block) => block.text).join('\n\n');
+    if (content) {
+      result.push({ role: 'system', content });
+    }
+  }
+
+  messages.forEach((message, index) => {
+    const field = `messages[${index}]`;
+    if (message.role !== 'user' && message.role !== 'assistant') {
+      throw invalidMessage(field, `Unsupported Anthropic message role: ${String((message as { role?: unknown }).role)}`);
+    }
+
+    const blocks: AnthropicContentBlock[] = typeof message.content === 'string'
+      ? [{ type: 'text', text: message.content }]
+      : message.content;
+
+    const text: string[] = [];
+    const attachments: MessageAttachment[] = [];
+    const toolCalls: NonNullable<ImportedThreadMessage['toolCalls']> = [];
+    const toolResults: ImportedThreadMessage[] = [];
+
+    for (const block of blocks) {
+      switch (block.type) {
+        case 'text':
+          text.push(block.text);
+          break;
+        case 'image':
+        case 'document':
+          attachments.push(anthropicAttachment(block));
+          break;
+        case 'tool_use':
+          toolCalls.push({ id: block.id, name: block.name, arguments: toArguments(block.input) });
+          break;
+        case 'tool_result': {
+          const parts = typeof block.content === 'string'
+            ? [{ type: 'text' as const, text: block.content }]
+            : block.content ?? [];
+          const resultText: string[] = [];
+          const resultAttachments: MessageAttachment[] = [];
+          for (const part of parts) {
+            if (part.type === 'text') {
+              resultText.push(part.text);
+            } else if (part.type === 'image' || part.type === 'document') {
+              resultAttachments.push(anthropicAttachment(part));
+            } else {
+              throw unsupportedBlock(field, (part as { type?: unknown }).type);
+            }
+          }
+          toolResults.push(withAttachments({
+            role: 'tool',
+            toolCallId: block.tool_use_id,
+            content: resultText.join(''),
+            ...(block.is_error ? { isError: true } : {}),
+          }, resultAttachments));
+          break;
+        }
+        case 'thinking':
+        case 'redacted_thinking':
+          // Thinking blocks are model-internal and not part of the history
+          break;
+        default:
+          throw unsupportedBlock(field, (block as { type?: unknown }).type);
+      }
+    }
+
+    // Tool results answer the previous assistant turn, so they come first
+    result.push(...toolResults);
+    if (text.length > 0 || attachments.length > 0 || toolCalls.length > 0) {
+      result.push(withAttachments({
+        role: message.role,
+        content: text.join('\n\n'),
+        ...(toolCalls.length > 0 ? { toolCalls } : {}),
+      }, attachments));
+    }
+  });
+
+  return result;
+}
+
+/**
+ * Guess the format of a message array from format-specific fields
+ */
+export function detectConversationFormat(messages: unknown[]): ConversationFormat {
+  for (const message of messages) {
+    if (!message || typeof message !== 'object') {
+      continue;
+    }
+    const { role, content } = message as { role?: unknown; content?: unknown };
+    if (role === 'system' || role === 'developer' || role === 'tool' || role === 'function' || 'tool_calls' in message) {
+      return 'openai';
+    }
+    if (Array.isArray(content)) {
+      for (const part of content) {
+        const type = (part as { type?: unknown })?.type;
+        if (type === 'tool_use' || type === 'tool_result' || type === 'image' || type === 'document' || type === 'thinking') {
+          return 'anthropic';
+        }
+        if (type === 'image_url') {
+          return 'openai';
+        }
+      }
+    }
+  }
+  // Plain user/assistant text is read the same way by both converters
+  return 'openai';
+}
+
+function openAIText(content: string | OpenAIContentPart[]): string {
+  if (typeof content === 'string') {
+    return content;
+  }
+  return content
+    .filter((part): part is Extract<OpenAIContentPart, { type: 'text' }> => part.type === 'text')
+    .map((part) => part.text)
+    .join('\n\n');
+}
+
+function openAIImages(content: string | OpenAIContentPart[]): MessageAttachment[] {
+  if (typeof content === 'string') {
+    return [];
+  }
+  return content
+    .filter((part): part is Extract<OpenAIContentPart, { type: 'image_url' }> => part.type === 'image_url')
+    .map((part) => {
+      // Data URLs carry the image inline
+      const match = /^data:([^;,]+);base64,([\s\S]*)$/.exec(part.image_url.url);
+      return match
+        ? { type: 'inline', name: 'image', mimeType: match[1], size: Buffer.byteLength(match[2], 'base64'), data: match[2] }
+        : { type: 'url', url: part.image_url.url };
+    });
+}
+
+function anthropicAttachment(block: AnthropicImageBlock | AnthropicDocumentBlock): MessageAttachment {
+  const { source } = block;
+  const title = block.type === 'document' ? block.title : undefined;
+  if (source.type === 'url') {
+    return title ? { type: 'url', url: source.url, name: title } : { type: 'url', url: source.url };
+  }
+  const name = block.type === 'document' ? title ?? 'document' : 'image';
+  const data = source.type === 'text' ? Buffer.from(source.data, 'utf8').toString('base64') : source.data;
+  return { type: 'inline', name, mimeType: source.media_type, size: Buffer.byteLength(data, 'base64'), data };
+}
+
+function withAttachments(message: ImportedThreadMessage, attachments: MessageAttachment[]): ImportedThreadMessage {
+  return attachments.length > 0 ? { ...message, attachments } : message;
+}
+
+function parseToolArguments(value: string, field: string): Record<string, unknown> {
+  if (!value) {
+    return {};
+  }
+  try {
+    return toArguments(JSON.parse(value));
+  } catch {
+    throw invalidMessage(field, 'Tool call arguments are not valid JSON');
+  }
+}
+
+function toArguments(value: unknown): Record<string, unknown> {
+  return value && typeof value === 'object' && !Array.isArray(value)
+    ? value as Record<string, unknown>
+    : { value };
+}
+
+function unsupportedBlock(field: string, type: unknown): InvalidArgumentError {
+  return invalidMessage(field, `Unsupported Anthropic content block: ${String(type)}`);
+}
+
+function invalidMessage(field: string, message: string): InvalidArgumentError {
+  return new InvalidArgumentError(message, 'INVALID_CONVERSATION', [{ field, message }]);
+}
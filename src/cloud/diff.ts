@@ -0,0 +1,483 @@
+/**
+ * Unified diffs
+ *
+ * `environments.getSnapshotDiff()`, `getChangeDiff()`, `threads.getStepDiff()`
+ * and `runs.getDiffs()` return diffs as text. `parseUnifiedDiff()` turns that
+ * text (git-style or plain unified format) into files, hunks and lines, and
+ * `applyPatch()` writes the changes to a local directory so agent work can be
+ * reviewed and pulled locally.
+ */
+
+import { mkdir, readFile, rm, stat, writeFile } from 'fs/promises';
+import { dirname, isAbsolute, relative, resolve } from 'path';
+import { InvalidArgumentError } from './errors';
+
+export type DiffLineType = 'context' | 'add' | 'delete';
+
+export interface DiffLine {
+  type: DiffLineType;
+  content: string;
+  /** Line number in the old file, for context and deleted lines */
+  oldNumber?: number;
+  /** Line number in the new file, for context and added lines */
+  newNumber?: number;
+  /** Followed by `\ No newline at end of file` */
+  noNewlineAtEnd?: boolean;
+}
+
+export interface DiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  /** Text after the closing `@@`, usually the enclosing function */
+  section?: string;
+  lines: DiffLine[];
+}
+
+export type DiffFileStatus = 'added' | 'deleted' | 'modified' | 'renamed' | 'copied';
+
+export interface DiffFile {
+  /** `null` for added files */
+  oldPath: string | null;
+  /** `null` for deleted files */
+  newPath: string | null;
+  status: DiffFileStatus;
+  /** Binary files have no hunks and cannot be applied */
+  binary: boolean;
+  /** Rename or copy similarity, 0-100 */
+  similarity?: number;
+  oldMode?: string;
+  newMode?: string;
+  hunks: DiffHunk[];
+  additions: number;
+  deletions: number;
+}
+
+export interface ApplyPatchOptions {
+  /** Undo the patch instead of applying it */
+  reverse?: boolean;
+  /** Check that the patch applies without writing anything */
+  dryRun?: boolean;
+}
+
+export interface PatchConflict {
+  path: string;
+  /** Index of the hunk that did not apply, if the conflict is hunk-specific */
+  hunk?: number;
+  message: string;
+}
+
+export interface ApplyPatchResult {
+  /** Paths written, created or removed (relative to the directory) */
+  applied: string[];
+  /** Files left untouched because part of their patch did not apply */
+  conflicts: PatchConflict[];
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@ ?(.*)$/;
+
+/**
+ * Parse a unified diff into files, hunks and lines
+ *
+ * @example
+ * ```typescript
+ * const { diff } = await client.environments.getSnapshotDiff('env_xxx', 'snap_xxx');
+ * for (const file of parseUnifiedDiff(diff)) {
+ *   console.log(file.status, file.newPath ?? file.oldPath, `+${file.additions} -${file.deletions}`);
+ * }
+ * ```
+ */
+export function parseUnifiedDiff(diff: string): DiffFile[] {
+  const lines = diff.split('\n');
+  if (lines[lines.length - 1] === '') {
+    lines.pop();
+  }
+
+  const files: DiffFile[] = [];
+  let file: DiffFile | undefined;
+  // Set between `---` and `+++`, and after `diff --git` until the first hunk
+  let inHeader = false;
+
+  const startFile = (oldPath: string | null, newPath: string | null) => {
+    file = { oldPath, newPath, status: 'modified', binary: false, hunks: [], additions: 0, deletions: 0 };
+    files.push(file);
+    inHeader = true;
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].replace(/\r$/, '');
+
+    if (line.startsWith('diff --git ')) {
+      const [oldPath, newPath] = parseGitPaths(line.slice('diff --git '.length));
+      startFile(oldPath, newPath);
+      continue;
+    }
+
+    if (line.startsWith('--- ') && lines[i + 1]?.startsWith('+++ ')) {
+      const oldPath = parseHeaderPath(line.slice(4));
+      const newPath = parseHeaderPath(lines[i + 1].replace(/\r$/, '').slice(4));
+      if (!file || !inHeader) {
+        startFile(oldPath, newPath);
+      }
+      file!.oldPath = oldPath;
+      file!.newPath = newPath;
+      i++;
+      continue;
+    }
+
+    if (file && line.startsWith('@@')) {
+      i = parseHunk(lines, i, file);
+      inHeader = false;
+      continue;
+    }
+
+    if (!file || !inHeader) {
+      continue;
+    }
+
+    // Extended git headers
+    if (line.startsWith('new file mode ')) {
+      file.newMode = line.slice('new file mode '.length);
+      file.oldPath = null;
+    } else if (line.startsWith('deleted file mode ')) {
+      file.oldMode = line.slice('deleted file mode '.length);
+      file.newPath = null;
+    } else if (line.startsWith('old mode ')) {
+      file.oldMode = line.slice('old mode '.length);
+    } else if (line.startsWith('new mode ')) {
+      file.newMode = line.slice('new mode '.length);
+    } else if (line.startsWith('rename from ')) {
+      file.oldPath = unquote(line.slice('rename from '.length));
+      file.status = 'renamed';
+    } else if (line.startsWith('rename to ')) {
+      file.newPath = unquote(line.slice('rename to '.length));
+      file.status = 'renamed';
+    } else if (line.startsWith('copy from ')) {
+      file.oldPath = unquote(line.slice('copy from '.length));
+      file.status = 'copied';
+    } else if (line.startsWith('copy to ')) {
+      file.newPath = unquote(line.slice('copy to '.length));
+      file.status = 'copied';
+    } else if (/^(?:dis)?similarity index \d+%$/.test(line)) {
+      file.similarity = Number(/(\d+)%/.exec(line)![1]);
+    } else if (line.startsWith('Binary files ') || line === 'GIT binary patch') {
+      file.binary = true;
+    }
+  }
+
+  for (const parsed of files) {
+    if (parsed.oldPath === null) {
+      parsed.status = 'added';
+    } else if (parsed.newPath === null) {
+      parsed.status = 'deleted';
+    } else if (parsed.status === 'modified' && parsed.oldPath !== parsed.newPath) {
+      parsed.status = 'renamed';
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Apply a unified diff to files under `directory`
+ *
+ * Each file is patched all-or-nothing: if any hunk fails to match, the file
+ * is left untouched and reported in `conflicts`, and the other files are
+ * still written. Hunks that moved are found by searching for their context.
+ *
+ * @example
+ * ```typescript
+ * const { diff } = await client.environments.getChangeDiff('env_xxx', 'change_xxx');
+ * const { applied, conflicts } = await applyPatch('./my-repo', diff);
+ *
+ * // Undo it again
+ * await applyPatch('./my-repo', diff, { reverse: true });
+ * ```
+ */
+export async function applyPatch(
+  directory: string,
+  patch: string | DiffFile[],
+  options: ApplyPatchOptions = {}
+): Promise<ApplyPatchResult> {
+  const files = typeof patch === 'string' ? parseUnifiedDiff(patch) : patch;
+  const result: ApplyPatchResult = { applied: [], conflicts: [] };
+
+  for (const original of files) {
+    const file = options.reverse ? reverseFile(original) : original;
+    const path = file.newPath ?? file.oldPath!;
+    const conflict = (message: string, hunk?: number) => {
+      result.conflicts.push({ path, hunk, message });
+    };
+
+    if (file.binary) {
+      conflict('Binary changes cannot be applied from a text diff');
+      continue;
+    }
+
+    const source = file.oldPath === null ? undefined : resolveInside(directory, file.oldPath);
+    const target = file.newPath === null ? undefined : resolveInside(directory, file.newPath);
+    if (source === null || target === null) {
+      conflict('Path is outside the target directory');
+      continue;
+    }
+
+    let before: string | undefined;
+    if (source !== undefined) {
+      const kind = await pathKind(source);
+      if (kind !== 'file') {
+        conflict(kind === 'missing' ? `${file.oldPath} does not exist` : `${file.oldPath} is not a file`);
+        continue;
+      }
+      before = await readFile(source, 'utf8');
+    }
+    // Added, renamed and copied files must not overwrite an existing path
+    if (target !== undefined && target !== source && await pathKind(target) !== 'missing') {
+      conflict(`${file.newPath} already exists`);
+      continue;
+    }
+
+    const patched = applyHunks(before ?? '', file.hunks);
+    if (typeof patched === 'number') {
+      conflict(`Hunk ${patched + 1} does not match the current file`, patched);
+      continue;
+    }
+
+    if (!options.dryRun) {
+      if (target !== undefined) {
+        await mkdir(dirname(target), { recursive: true });
+        await writeFile(target, patched);
+      }
+      if (source !== undefined && (target === undefined || (file.status === 'renamed' && source !== target))) {
+        await rm(source);
+      }
+    }
+    result.applied.push(path);
+  }
+
+  return result;
+}
+
+/**
+ * Whether `path` is a regular file, something else, or missing
+ */
+async function pathKind(path: string): Promise<'file' | 'other' | 'missing'> {
+  try {
+    return (await stat(path)).isFile() ? 'file' : 'other';
+  } catch (error) {
+    const code = (error as NodeJS.ErrnoException).code;
+    if (code === 'ENOENT' || code === 'ENOTDIR') {
+      return 'missing';
+    }
+    throw error;
+  }
+}
+
+/**
+ * Apply hunks to file content. Returns the new content, or the index of
+ * the first hunk that does not match. Lines are compared without their line
+ * ending, and the result uses the file's first line ending throughout.
+ */
+function applyHunks(content: string, hunks: DiffHunk[]): string | number {
+  const eol = /\r?\n/.exec(content)?.[0] ?? '\n';
+  const lines = content === '' ? [] : content.split(/\r?\n/);
+  let endsWithNewline = content === '' || content.endsWith('\n');
+  if (content.endsWith('\n')) {
+    lines.pop();
+  }
+
+  // Shift caused by earlier hunks and by hunks found away from their position
+  let offset = 0;
+  for (const [index, hunk] of hunks.entries()) {
+    const oldSide = hunk.lines.filter((line) => line.type !== 'add');
+    const newSide = hunk.lines.filter((line) => line.type !== 'delete');
+    const expected = Math.max(0, (hunk.oldLines === 0 ? hunk.oldStart : hunk.oldStart - 1) + offset);
+
+    const at = findLines(lines, oldSide.map((line) => line.content), expected);
+    if (at === -1) {
+      return index;
+    }
+    lines.splice(at, oldSide.length, ...newSide.map((line) => line.content));
+    offset = at - (hunk.oldLines === 0 ? hunk.oldStart : hunk.oldStart - 1) + newSide.length - oldSide.length;
+
+    // Only a hunk that ends at end-of-file carries the newline marker
+    const oldNoNewline = oldSide[oldSide.length - 1]?.noNewlineAtEnd ?? false;
+    const newNoNewline = newSide[newSide.length - 1]?.noNewlineAtEnd ?? false;
+    if (oldNoNewline !== newNoNewline) {
+      endsWithNewline = !newNoNewline;
+    }
+  }
+
+  if (lines.length === 0) {
+    return '';
+  }
+  return lines.join(eol) + (endsWithNewline ? eol : '');
+}
+
+/**
+ * Find `needle` in `lines`, preferring the position closest to `expected`
+ */
+function findLines(lines: string[], needle: string[], expected: number): number {
+  const matches = (at: number) =>
+    at >= 0 && at + needle.length <= lines.length && needle.every((line, i) => lines[at + i] === line);
+
+  for (let distance = 0; distance <= lines.length; distance++) {
+    if (matches(expected - distance)) {
+      return expected - distance;
+    }
+    if (distance > 0 && matches(expected + distance)) {
+      return expected + distance;
+    }
+  }
+  return -1;
+}
+
+function reverseFile(file: DiffFile): DiffFile {
+  const status: Record<DiffFileStatus, DiffFileStatus> = {
+    added: 'deleted',
+    deleted: 'added',
+    modified: 'modified',
+    renamed: 'renamed',
+    // Undoing a copy removes the copy
+    copied: 'deleted',
+  };
+  return {
+    ...file,
+    oldPath: file.newPath,
+    newPath: file.status === 'copied' ? null : file.oldPath,
+    status: status[file.status],
+    oldMode: file.newMode,
+    newMode: file.oldMode,
+    additions: file.deletions,
+    deletions: file.additions,
+    hunks: file.hunks.map((hunk) => ({
+      oldStart: hunk.newStart,
+      oldLines: hunk.newLines,
+      newStart: hunk.oldStart,
+      newLines: hunk.oldLines,
+      section: hunk.section,
+      lines: hunk.lines.map((line) => ({
+        ...line,
+        type: line.type === 'add' ? 'delete' : line.type === 'delete' ? 'add' : 'context',
+        oldNumber: line.newNumber,
+        newNumber: line.oldNumber,
+      })),
+    })),
+  };
+}
+
+/**
+ * Parse the hunk starting at `lines[start]` into `file`, returning the
+ * index of its last line
+ */
+function parseHunk(lines: string[], start: number, file: DiffFile): number {
+  const match = HUNK_HEADER.exec(lines[start].replace(/\r$/, ''));
+  if (!match) {
+    throw invalidDiff(start, `Malformed hunk header: ${lines[start]}`);
+  }
+
+  const hunk: DiffHunk = {
+    oldStart: Number(match[1]),
+    oldLines: match[2] === undefined ? 1 : Number(match[2]),
+    newStart: Number(match[3]),
+    newLines: match[4] === undefined ? 1 : Number(match[4]),
+    section: match[5] || undefined,
+    lines: [],
+  };
+  file.hunks.push(hunk);
+
+  let oldRemaining = hunk.oldLines;
+  let newRemaining = hunk.newLines;
+  let oldNumber = hunk.oldStart;
+  let newNumber = hunk.newStart;
+  let i = start;
+
+  // Count lines instead of looking for the next header, so content that
+  // starts with `---` or `@@` is read correctly
+  while (oldRemaining > 0 || newRemaining > 0 || lines[i + 1]?.startsWith('\\')) {
+    i++;
+    if (i >= lines.length) {
+      throw invalidDiff(start, 'Hunk ends before its line counts are reached');
+    }
+    const raw = lines[i].replace(/\r$/, '');
+    const marker = raw[0];
+    const content = raw.slice(1);
+
+    if (marker === '\\') {
+      const previous = hunk.lines[hunk.lines.length - 1];
+      if (previous) {
+        previous.noNewlineAtEnd = true;
+      }
+    } else if (marker === '+') {
+      hunk.lines.push({ type: 'add', content, newNumber: newNumber++ });
+      file.additions++;
+      newRemaining--;
+    } else if (marker === '-') {
+      hunk.lines.push({ type: 'delete', content, oldNumber: oldNumber++ });
+      file.deletions++;
+      oldRemaining--;
+    } else if (marker === ' ' || raw === '') {
+      // Some tools strip the space from empty context lines
+      hunk.lines.push({ type: 'context', content, oldNumber: oldNumber++, newNumber: newNumber++ });
+      oldRemaining--;
+      newRemaining--;
+    } else {
+      throw invalidDiff(i, `Unexpected line in hunk: ${raw}`);
+    }
+  }
+
+  return i;
+}
+
+/**
+ * Split the `a/old b/new` part of a `diff --git` line
+ */
+function parseGitPaths(paths: string): [string | null, string | null] {
+  const quoted = /^"((?:[^"\\]|\\.)*)" "((?:[^"\\]|\\.)*)"$/.exec(paths);
+  if (quoted) {
+    return [stripPrefix(unquote(`"${quoted[1]}"`)), stripPrefix(unquote(`"${quoted[2]}"`))];
+  }
+  // Unquoted paths may contain spaces. `---`/`+++` and rename headers,
+  // when present, replace these guesses.
+  const separator = paths.indexOf(' b/');
+  if (separator !== -1) {
+    return [stripPrefix(paths.slice(0, separator)), stripPrefix(paths.slice(separator + 1))];
+  }
+  // Without a/ b/ prefixes, an unrenamed file appears twice
+  const half = (paths.length - 1) / 2;
+  if (paths[half] === ' ' && paths.slice(0, half) === paths.slice(half + 1)) {
+    return [paths.slice(0, half), paths.slice(half + 1)];
+  }
+  return [null, null];
+}
+
+function parseHeaderPath(value: string): string | null {
+  // Drop the timestamp some tools append after a tab
+  const path = unquote(value.split('\t')[0].trim());
+  return path === '/dev/null' ? null : stripPrefix(path);
+}
+
+function stripPrefix(path: string): string {
+  return /^[ab]\//.test(path) ? path.slice(2) : path;
+}
+
+function unquote(path: string): string {
+  if (!path.startsWith('"') || !path.endsWith('"')) {
+    return path;
+  }
+  return path.slice(1, -1).replace(/\\(["\\tn])/g, (_, char: string) => (char === 't' ? '\t' : char === 'n' ? '\n' : char));
+}
+
+/**
+ * Resolve `path` under `directory`, or `null` if it escapes it
+ */
+function resolveInside(directory: string, path: string): string | null {
+  const root = resolve(directory);
+  const target = resolve(root, path);
+  const fromRoot = relative(root, target);
+  return fromRoot === '' || fromRoot.startsWith('..') || isAbsolute(fromRoot) ? null : target;
+}
+
+function invalidDiff(line: number, message: string): InvalidArgumentError {
+  return new InvalidArgumentError(message, 'INVALID_DIFF', [{ field: `line ${line + 1}`, message }]);
+}
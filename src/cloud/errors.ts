@@ -0,0 +1,348 @@
+/**
+ * Error classes for the Computer Agents Cloud API
+ *
+ * Every failure raised by the SDK is an `ApiClientError`. Specific failure
+ * modes use subclasses so handlers can use `instanceof` instead of matching
+ * on `status` or `code`:
+ *
+ * - `AuthenticationError` (401)
+ * - `PermissionDeniedError` (403)
+ * - `NotFoundError` (404)
+ * - `ConflictError` (409)
+ * - `ValidationError` (400 / 422)
+ * - `InvalidArgumentError` (rejected by the SDK before any request)
+ * - `RateLimitError` (429)
+ * - `ServerError` (5xx)
+ * - `TimeoutError` (request timed out)
+ * - `ConnectionError` (network failure, no HTTP response)
+ * - `RequestAbortedError` (cancelled via AbortSignal)
+ * - `StreamError` (a run stream reported an error or ended early)
+ * - `StructuredOutputError` (agent output never matched the requested shape)
+ * - `TerminalStateError` (a waited-on build, deployment or run failed)
+ * - `GitError` (a local git command failed while pulling changes)
+ */
+
+import type { MessageStreamEvent } from './types';
+
+/**
+ * Request context attached to every error
+ */
+export interface ApiErrorContext {
+  /** Server-assigned request ID (from the `X-Request-Id` header or error body) */
+  requestId?: string;
+  /** HTTP method of the failed request */
+  method?: string;
+  /** Path of the failed request */
+  path?: string;
+}
+
+export class ApiClientError extends Error {
+  /** Server-assigned request ID, useful when contacting support */
+  readonly requestId?: string;
+  /** HTTP method of the failed request */
+  readonly method?: string;
+  /** Path of the failed request */
+  readonly path?: string;
+
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly code?: string,
+    public readonly details?: Record<string, unknown>,
+    context: ApiErrorContext = {}
+  ) {
+    super(message);
+    this.name = 'ApiClientError';
+    this.requestId = context.requestId;
+    this.method = context.method;
+    this.path = context.path;
+  }
+}
+
+export class AuthenticationError extends ApiClientError {
+  constructor(message: string, code?: string, details?: Record<string, unknown>, context?: ApiErrorContext) {
+    super(message, 401, code, details, context);
+    this.name = 'AuthenticationError';
+  }
+}
+
+export class PermissionDeniedError extends ApiClientError {
+  constructor(message: string, code?: string, details?: Record<string, unknown>, context?: ApiErrorContext) {
+    super(message, 403, code, details, context);
+    this.name = 'PermissionDeniedError';
+  }
+}
+
+export class NotFoundError extends ApiClientError {
+  constructor(message: string, code?: string, details?: Record<string, unknown>, context?: ApiErrorContext) {
+    super(message, 404, code, details, context);
+    this.name = 'NotFoundError';
+  }
+}
+
+export class ConflictError extends ApiClientError {
+  constructor(message: string, code?: string, details?: Record<string, unknown>, context?: ApiErrorContext) {
+    super(message, 409, code, details, context);
+    this.name = 'ConflictError';
+  }
+}
+
+/**
+ * A single field-level validation failure
+ */
+export interface ValidationFieldError {
+  field: string;
+  message: string;
+}
+
+export class ValidationError extends ApiClientError {
+  /** Field-level validation failures reported by the server */
+  readonly fieldErrors: ValidationFieldError[];
+
+  constructor(
+    message: string,
+    status: number = 400,
+    code?: string,
+    details?: Record<string, unknown>,
+    context?: ApiErrorContext
+  ) {
+    super(message, status, code, details, context);
+    this.name = 'ValidationError';
+    this.fieldErrors = extractFieldErrors(details);
+  }
+}
+
+/**
+ * A method was called with arguments the SDK rejects before sending any
+ * request. `status` is 0; `fieldErrors` names the offending arguments. Not a
+ * `ValidationError`, which is reserved for the server's 400 / 422 responses.
+ */
+export class InvalidArgumentError extends ApiClientError {
+  readonly fieldErrors: ValidationFieldError[];
+
+  constructor(message: string, code: string, fields?: ValidationFieldError[]) {
+    super(message, 0, code, fields && { fields });
+    this.name = 'InvalidArgumentError';
+    this.fieldErrors = fields ?? [];
+  }
+}
+
+export class RateLimitError extends ApiClientError {
+  /** Delay suggested by the server's `Retry-After` header, in milliseconds */
+  readonly retryAfterMs?: number;
+
+  constructor(
+    message: string,
+    retryAfterMs?: number,
+    code?: string,
+    details?: Record<string, unknown>,
+    context?: ApiErrorContext
+  ) {
+    super(message, 429, code, details, context);
+    this.name = 'RateLimitError';
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+export class ServerError extends ApiClientError {
+  constructor(
+    message: string,
+    status: number = 500,
+    code?: string,
+    details?: Record<string, unknown>,
+    context?: ApiErrorContext
+  ) {
+    super(message, status, code, details, context);
+    this.name = 'ServerError';
+  }
+}
+
+/**
+ * The request timed out, either locally or with a server 408. `code` and
+ * `details` are the server's when it sent them.
+ */
+export class TimeoutError extends ApiClientError {
+  constructor(
+    message: string,
+    context?: ApiErrorContext,
+    code: string = 'TIMEOUT',
+    details?: Record<string, unknown>
+  ) {
+    super(message, 408, code, details, context);
+    this.name = 'TimeoutError';
+  }
+}
+
+/**
+ * The request never received an HTTP response (DNS failure, connection
+ * reset, TLS error, ...). `status` is 0.
+ */
+export class ConnectionError extends ApiClientError {
+  constructor(message: string, context?: ApiErrorContext) {
+    super(message, 0, 'NETWORK_ERROR', undefined, context);
+    this.name = 'ConnectionError';
+  }
+}
+
+export class RequestAbortedError extends ApiClientError {
+  constructor(message: string = 'Request was aborted', context?: ApiErrorContext) {
+    super(message, 499, 'ABORTED', undefined, context);
+    this.name = 'RequestAbortedError';
+  }
+}
+
+/**
+ * Run context attached to a `StreamError`
+ */
+export interface StreamErrorContext extends ApiErrorContext {
+  threadId?: string;
+  runId?: string;
+  /** Events received before the failure */
+  events?: MessageStreamEvent[];
+}
+
+/**
+ * A run stream failed after the HTTP request succeeded: the server sent a
+ * `stream.error` event, or (in strict mode) the stream closed before
+ * `stream.completed`. `status` is 0 and `code` is the server's error code,
+ * or `STREAM_CLOSED` / `STREAM_INTERRUPTED` for transport failures.
+ */
+export class StreamError extends ApiClientError {
+  readonly threadId?: string;
+  readonly runId?: string;
+  /**
+   * Events received before the failure: every event for `sendMessage()`
+   * and `run()`, the most recent 50 for `stream()`.
+   */
+  readonly events: MessageStreamEvent[];
+
+  constructor(
+    message: string,
+    code: string = 'STREAM_ERROR',
+    context: StreamErrorContext = {}
+  ) {
+    super(message, 0, code, undefined, context);
+    this.name = 'StreamError';
+    this.threadId = context.threadId;
+    this.runId = context.runId;
+    this.events = context.events ?? [];
+  }
+}
+
+/**
+ * The agent's response still failed validation after every re-prompt.
+ * `status` is 0 and `code` is `INVALID_OUTPUT`.
+ */
+export class StructuredOutputError extends ApiClientError {
+  readonly threadId?: string;
+  /** Number of responses that were checked */
+  readonly attempts: number;
+
+  constructor(
+    message: string,
+    /** Validation failures for the last response */
+    public readonly issues: string[],
+    /** The last response, as returned by the agent */
+    public readonly content: string,
+    context: { threadId?: string; attempts: number }
+  ) {
+    super(message, 0, 'INVALID_OUTPUT');
+    this.name = 'StructuredOutputError';
+    this.threadId = context.threadId;
+    this.attempts = context.attempts;
+  }
+}
+
+/**
+ * Something being waited on reached a failed terminal state: a build that
+ * failed, a deployment that errored, a run that was cancelled. `status` is 0,
+ * `code` names the failure (e.g. `BUILD_FAILED`) and `state` is the last
+ * state polled.
+ */
+export class TerminalStateError<T = unknown> extends ApiClientError {
+  constructor(
+    message: string,
+    code: string,
+    /** The last state returned by the server */
+    public readonly state: T
+  ) {
+    super(message, 0, code);
+    this.name = 'TerminalStateError';
+  }
+}
+
+/**
+ * A local git command run by `pullChanges()` exited with an error. `status`
+ * is 0, `code` is `GIT_FAILED`, and `stderr` holds git's own message.
+ */
+export class GitError extends ApiClientError {
+  constructor(
+    message: string,
+    /** Arguments passed to git */
+    public readonly args: string[],
+    public readonly stderr: string
+  ) {
+    super(message, 0, 'GIT_FAILED');
+    this.name = 'GitError';
+  }
+}
+
+/**
+ * Build the most specific error class for an HTTP error response
+ */
+export function createApiError(
+  status: number,
+  message: string,
+  code?: string,
+  details?: Record<string, unknown>,
+  context?: ApiErrorContext & { retryAfterMs?: number }
+): ApiClientError {
+  switch (status) {
+    case 400:
+    case 422:
+      return new ValidationError(message, status, code, details, context);
+    case 401:
+      return new AuthenticationError(message, code, details, context);
+    case 403:
+      return new PermissionDeniedError(message, code, details, context);
+    case 404:
+      return new NotFoundError(message, code, details, context);
+    case 408:
+      return new TimeoutError(message, context, code, details);
+    case 409:
+      return new ConflictError(message, code, details, context);
+    case 429:
+      return new RateLimitError(message, context?.retryAfterMs, code, details, context);
+    default:
+      if (status >= 500) {
+        return new ServerError(message, status, code, details, context);
+      }
+      return new ApiClientError(message, status, code, details, context);
+  }
+}
+
+function extractFieldErrors(details?: Record<string, unknown>): ValidationFieldError[] {
+  if (!details) {
+    return [];
+  }
+
+  // [{ field, message }] under `fields` or `errors`
+  const list = details.fields ?? details.errors;
+  if (Array.isArray(list)) {
+    return list
+      .filter((entry): entry is Record<string, unknown> => !!entry && typeof entry === 'object')
+      .map((entry) => ({
+        field: String(entry.field ?? entry.path ?? ''),
+        message: String(entry.message ?? ''),
+      }));
+  }
+
+  // { fieldName: 'message' | ['message', ...] }
+  if (list && typeof list === 'object') {
+    return Object.entries(list as Record<string, unknown>).flatMap(([field, value]) =>
+      (Array.isArray(value) ? value : [value]).map((message) => ({ field, message: String(message) }))
+    );
+  }
+
+  return [];
+}
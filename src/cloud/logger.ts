@@ -0,0 +1,164 @@
+/**
+ * Structured logging for the Computer Agents Cloud API client
+ *
+ * The client never writes to the console on its own. Pass a `Logger` to
+ * receive structured entries for requests, responses, retries and stream
+ * events, or set `debug: true` to log everything to the console.
+ *
+ * Secrets are redacted before an entry reaches the logger: the
+ * `Authorization` header, `secrets`, `bearerToken` and `token` fields,
+ * and the `value` of environment secret payloads.
+ */
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+}
+
+export const LOG_LEVELS: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+};
+
+export const REDACTED = '[REDACTED]';
+
+/**
+ * Field names whose values are always redacted (compared case-insensitively)
+ */
+export const DEFAULT_REDACT_KEYS: readonly string[] = [
+  'authorization',
+  'x-api-key',
+  'apiKey',
+  'secrets',
+  'bearerToken',
+  'token',
+  'password',
+];
+
+/**
+ * Routes whose request and response bodies carry secrets in `value` fields
+ * (`environments.createSecret` / `updateSecret`)
+ */
+const SECRET_VALUE_PATH = /\/secrets(\/|$)/;
+
+const SECRET_VALUE_KEYS = new Set(['value']);
+
+/**
+ * Logger that discards every entry
+ */
+export const noopLogger: Logger = {
+  debug: () => undefined,
+  info: () => undefined,
+  warn: () => undefined,
+  error: () => undefined,
+};
+
+/**
+ * Logger that writes entries to the console, used when `debug: true`
+ */
+export function createConsoleLogger(prefix: string = '[computer-agents]'): Logger {
+  const write = (level: LogLevel) => (message: string, fields?: LogFields) => {
+    const method = level === 'debug' ? 'log' : level;
+    if (fields && Object.keys(fields).length > 0) {
+      console[method](`${prefix} ${message}`, fields);
+    } else {
+      console[method](`${prefix} ${message}`);
+    }
+  };
+
+  return {
+    debug: write('debug'),
+    info: write('info'),
+    warn: write('warn'),
+    error: write('error'),
+  };
+}
+
+/**
+ * Wrap a logger so entries below `level` are dropped and fields are redacted
+ * @internal
+ */
+export function createClientLogger(
+  logger: Logger,
+  level: LogLevel,
+  redactKeys: readonly string[] = []
+): Logger {
+  const threshold = LOG_LEVELS[level];
+  const keys = new Set([...DEFAULT_REDACT_KEYS, ...redactKeys].map((key) => key.toLowerCase()));
+
+  const write = (entryLevel: LogLevel) => (message: string, fields?: LogFields) => {
+    if (LOG_LEVELS[entryLevel] < threshold) {
+      return;
+    }
+    try {
+      logger[entryLevel](message, fields ? redactWithKeys(fields, keys) as LogFields : undefined);
+    } catch {
+      // A failing logger must never break a request
+    }
+  };
+
+  return {
+    debug: write('debug'),
+    info: write('info'),
+    warn: write('warn'),
+    error: write('error'),
+  };
+}
+
+/**
+ * Return a copy of `value` with secret fields replaced by `[REDACTED]`
+ */
+export function redact(value: unknown, extraKeys: readonly string[] = []): unknown {
+  const keys = new Set([...DEFAULT_REDACT_KEYS, ...extraKeys].map((key) => key.toLowerCase()));
+  return redactWithKeys(value, keys);
+}
+
+/**
+ * Redact a request or response body, including route-specific secret fields
+ * @internal
+ */
+export function redactBody(path: string, body: unknown): unknown {
+  return SECRET_VALUE_PATH.test(path) ? redactWithKeys(body, SECRET_VALUE_KEYS) : body;
+}
+
+/**
+ * `ancestors` holds the objects on the path from the root, so only true
+ * cycles are replaced and an object referenced twice is copied twice.
+ */
+function redactWithKeys(value: unknown, keys: Set<string>, ancestors = new WeakSet<object>()): unknown {
+  if (!value || typeof value !== 'object') {
+    return value;
+  }
+  if (ancestors.has(value)) {
+    return '[Circular]';
+  }
+
+  if (typeof FormData !== 'undefined' && value instanceof FormData) {
+    return '[FormData]';
+  }
+
+  ancestors.add(value);
+  try {
+    if (Array.isArray(value)) {
+      return value.map((item) => redactWithKeys(item, keys, ancestors));
+    }
+
+    const result: Record<string, unknown> = {};
+    for (const [key, entry] of Object.entries(value)) {
+      result[key] = keys.has(key.toLowerCase()) && entry !== undefined && entry !== null
+        ? REDACTED
+        : redactWithKeys(entry, keys, ancestors);
+    }
+    return result;
+  } finally {
+    ancestors.delete(value);
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * Transport and middleware for the Computer Agents Cloud API client
+ *
+ * Every request made by the SDK (JSON calls, multipart uploads, downloads,
+ * and SSE streams) flows through the same pipeline:
+ *
+ *   middleware[0] -> middleware[1] -> ... -> fetch
+ *
+ * Middleware can rewrite the outgoing request (headers, URL, body) and
+ * observe or replace the response.
+ *
+ * @example
+ * ```typescript
+ * const client = new ComputerAgentsClient({
+ *   middleware: [
+ *     async (request, next) => {
+ *       request.headers['X-Request-Source'] = 'nightly-batch';
+ *       const response = await next(request);
+ *       console.log(request.method, request.url, response.status);
+ *       return response;
+ *     },
+ *   ],
+ * });
+ * ```
+ */
+
+/**
+ * Outgoing request as seen by middleware
+ */
+export interface ApiRequest {
+  /** Fully-qualified request URL */
+  url: string;
+  /** HTTP method */
+  method: string;
+  /** Mutable request headers */
+  headers: Record<string, string>;
+  /** Serialized request body (JSON string or FormData) */
+  body?: string | FormData;
+  /** Abort signal for the request */
+  signal?: AbortSignal;
+}
+
+/**
+ * A `fetch`-compatible transport function
+ */
+export type FetchLike = (url: string, init: RequestInit) => Promise<Response>;
+
+/**
+ * Hand the request to the next middleware (or the transport)
+ */
+export type MiddlewareNext = (request: ApiRequest) => Promise<Response>;
+
+/**
+ * Request/response middleware
+ */
+export type Middleware = (request: ApiRequest, next: MiddlewareNext) => Promise<Response>;
+
+/**
+ * Build a single handler that runs `middleware` in order and finally
+ * calls `transport`.
+ */
+export function composeMiddleware(middleware: Middleware[], transport: FetchLike): MiddlewareNext {
+  const dispatch = (index: number, request: ApiRequest): Promise<Response> => {
+    const current = middleware[index];
+    if (!current) {
+      return transport(request.url, {
+        method: request.method,
+        headers: request.headers,
+        body: request.body,
+        signal: request.signal,
+      });
+    }
+    return current(request, (nextRequest) => dispatch(index + 1, nextRequest));
+  };
+
+  return (request) => dispatch(0, request);
+}
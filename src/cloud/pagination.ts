@@ -0,0 +1,145 @@
+/**
+ * Pagination helpers for list endpoints
+ *
+ * List endpoints return `{ data, has_more, total_count }` and accept
+ * `limit`/`offset`. `Page<T>` is the normalized shape returned by the
+ * SDK's `listPage()` methods, and `PageIterator<T>` walks every page
+ * lazily with `for await`.
+ */
+
+import type { RequestOptions } from './ApiClient';
+
+/**
+ * A single page of results
+ */
+export interface Page<T> {
+  data: T[];
+  /** Whether more results exist after this page */
+  hasMore: boolean;
+  /** Total number of results across all pages, when the API reports it */
+  total?: number;
+}
+
+/**
+ * Options for iterating over every page of a list endpoint
+ */
+export interface PageIteratorOptions {
+  /**
+   * Page size requested from the API
+   * @default 50
+   */
+  pageSize?: number;
+
+  /**
+   * Offset of the first result
+   * @default 0
+   */
+  offset?: number;
+
+  /**
+   * Stop after yielding this many items
+   */
+  maxItems?: number;
+}
+
+/**
+ * Page size used by `PageIterator` when none is given. Sent explicitly so
+ * that endpoints without `has_more` can be paged by checking for a short page.
+ */
+const DEFAULT_PAGE_SIZE = 50;
+
+/**
+ * Raw list envelope returned by the API
+ * @internal
+ */
+export interface ListResponse<T> {
+  data?: T[];
+  has_more?: boolean;
+  total_count?: number;
+}
+
+/**
+ * Normalize a raw list envelope into a `Page<T>`.
+ * Endpoints that omit `has_more` are assumed to have more results
+ * when the page is full.
+ * @internal
+ */
+export function toPage<T>(data: T[], response: ListResponse<T>, limit?: number): Page<T> {
+  return {
+    data,
+    hasMore: response.has_more ?? (limit !== undefined && data.length >= limit),
+    total: response.total_count,
+  };
+}
+
+export type PageFetcher<T> = (
+  page: { limit: number; offset: number },
+  requestOptions?: RequestOptions
+) => Promise<Page<T>>;
+
+/**
+ * Lazily fetches pages from a list endpoint
+ *
+ * @example
+ * ```typescript
+ * for await (const thread of client.threads.listAll({ status: 'completed' })) {
+ *   console.log(thread.id);
+ * }
+ *
+ * // Page by page
+ * for await (const page of client.schedules.listAll().pages()) {
+ *   console.log(page.data.length, page.total);
+ * }
+ * ```
+ */
+export class PageIterator<T> implements AsyncIterable<T> {
+  constructor(
+    private readonly fetchPage: PageFetcher<T>,
+    private readonly options: PageIteratorOptions = {},
+    private readonly requestOptions?: RequestOptions
+  ) {}
+
+  async *[Symbol.asyncIterator](): AsyncIterator<T> {
+    let remaining = this.options.maxItems ?? Infinity;
+    for await (const page of this.pages()) {
+      for (const item of page.data) {
+        if (remaining-- <= 0) {
+          return;
+        }
+        yield item;
+      }
+    }
+  }
+
+  /**
+   * Iterate page by page instead of item by item
+   */
+  async *pages(): AsyncGenerator<Page<T>> {
+    let offset = this.options.offset ?? 0;
+    let fetched = 0;
+    const maxItems = this.options.maxItems ?? Infinity;
+
+    while (fetched < maxItems) {
+      const limit = this.options.pageSize ?? DEFAULT_PAGE_SIZE;
+      const page = await this.fetchPage({ limit, offset }, this.requestOptions);
+      yield page;
+
+      fetched += page.data.length;
+      offset += page.data.length;
+      if (!page.hasMore || page.data.length === 0) {
+        return;
+      }
+    }
+  }
+
+  /**
+   * Collect every item into an array
+   */
+  async toArray(): Promise<T[]> {
+    const items: T[] = [];
+    for await (const item of this) {
+      items.push(item);
+    }
+    return items;
+  }
+}
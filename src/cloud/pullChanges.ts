@@ -0,0 +1,182 @@
+/**
+ * Pulling agent changes into a local git repository
+ *
+ * `threads.pullChanges()` and `environments.pullChanges()` collect the diffs
+ * for a thread's steps or a range of computer changes, then replay them as
+ * commits on a new local branch so the agent's work can be reviewed with the
+ * usual git tools.
+ */
+
+import { execFile } from 'child_process';
+import { mkdir, mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { parseUnifiedDiff, applyPatch } from './diff';
+import type { DiffFile, PatchConflict } from './diff';
+import { GitError } from './errors';
+
+export interface PullChangesOptions {
+  /** Path to the local git repository */
+  repoDir: string;
+  /** Branch to create. It must not exist yet. */
+  branch: string;
+  /** Commit or branch to start from. Defaults to `HEAD`. */
+  base?: string;
+}
+
+export interface PulledCommit {
+  /** Step or change the commit was made from */
+  sourceId: string;
+  sha: string;
+  message: string;
+  /** Paths written by the commit */
+  files: string[];
+}
+
+export interface PullConflict extends PatchConflict {
+  /** Step or change whose patch did not apply to this path */
+  sourceId: string;
+}
+
+export interface PullChangesResult {
+  branch: string;
+  /** One commit per step or change that applied at least one file */
+  commits: PulledCommit[];
+  /** Files left out of the commits, because of local edits or mismatched hunks */
+  conflicts: PullConflict[];
+}
+
+/**
+ * A diff to replay as one commit
+ *
+ * @internal
+ */
+export interface PullPatch {
+  sourceId: string;
+  diff: string;
+  /** First line of the commit message */
+  subject: string;
+  body?: string;
+}
+
+/**
+ * Create `options.branch` and commit each patch on it, in order
+ *
+ * Every patch is parsed before git is touched. The commits are made in a
+ * temporary worktree, so the repository's checkout only changes once they
+ * all succeed; on failure the branch is deleted and the checkout is left as
+ * it was. Files with uncommitted local changes are never touched; they are
+ * reported as conflicts along with hunks that do not match the branch. A
+ * patch whose files all conflict produces no commit. Patch paths are relative
+ * to `repoDir`, which may be a subdirectory of the repository, and pulled
+ * files are committed even if they match `.gitignore`.
+ *
+ * @internal
+ */
+export async function pullPatches(patches: PullPatch[], options: PullChangesOptions): Promise<PullChangesResult> {
+  const parsed = patches.map((patch) => ({ ...patch, files: parseUnifiedDiff(patch.diff) }));
+
+  const git = (...args: string[]) => runGit(options.repoDir, args);
+  // Status paths are relative to the repository root, patch paths to repoDir
+  const prefix = (await git('rev-parse', '--show-prefix')).trim();
+  const dirty = parseStatus(await git('status', '--porcelain', '-z', '--untracked-files=all'));
+
+  const worktree = await mkdtemp(join(tmpdir(), 'computer-agents-pull-'));
+  try {
+    await git('branch', options.branch, options.base ?? 'HEAD');
+    try {
+      await git('worktree', 'add', '-q', worktree, options.branch);
+      const result = await commitPatches(parsed, dirty, options.branch, worktree, prefix);
+      await git('worktree', 'remove', '--force', worktree);
+      await git('checkout', '-q', options.branch);
+      return result;
+    } catch (error) {
+      await git('worktree', 'remove', '--force', worktree).catch(() => undefined);
+      await git('branch', '-D', options.branch).catch(() => undefined);
+      throw error;
+    }
+  } finally {
+    await rm(worktree, { recursive: true, force: true });
+  }
+}
+
+async function commitPatches(
+  patches: Array<PullPatch & { files: DiffFile[] }>,
+  dirty: Set<string>,
+  branch: string,
+  worktree: string,
+  prefix: string
+): Promise<PullChangesResult> {
+  const directory = join(worktree, prefix);
+  await mkdir(directory, { recursive: true });
+  const git = (...args: string[]) => runGit(directory, args);
+  const result: PullChangesResult = { branch, commits: [], conflicts: [] };
+
+  for (const patch of patches) {
+    const conflict = (entry: PatchConflict) => {
+      result.conflicts.push({ ...entry, sourceId: patch.sourceId });
+    };
+
+    const files = patch.files.filter((file) => {
+      const local = [file.oldPath, file.newPath].find((path) => path !== null && dirty.has(prefix + path));
+      if (local) {
+        conflict({ path: local, message: `${local} has uncommitted local changes` });
+      }
+      return !local;
+    });
+
+    const { applied, conflicts } = await applyPatch(directory, files);
+    conflicts.forEach(conflict);
+    if (applied.length === 0) {
+      continue;
+    }
+
+    // Renames and deletions also need the old path staged
+    const paths = new Set<string>();
+    for (const file of files) {
+      if (applied.includes(file.newPath ?? file.oldPath!)) {
+        if (file.oldPath !== null) paths.add(file.oldPath);
+        if (file.newPath !== null) paths.add(file.newPath);
+      }
+    }
+
+    const message = patch.body ? `${patch.subject}\n\n${patch.body}` : patch.subject;
+    // Forced so pulled files that match .gitignore are still committed
+    await git('add', '-A', '--force', '--', ...paths);
+    await git('commit', '-q', '-m', message, '--', ...paths);
+    const sha = (await git('rev-parse', 'HEAD')).trim();
+    result.commits.push({ sourceId: patch.sourceId, sha, message, files: applied });
+  }
+
+  return result;
+}
+
+function runGit(cwd: string, args: string[]): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execFile('git', args, { cwd, maxBuffer: 64 * 1024 * 1024 }, (error, stdout, stderr) => {
+      if (error) {
+        const detail = stderr.trim() || error.message;
+        reject(new GitError(`git ${args[0]} failed: ${detail}`, args, stderr));
+      } else {
+        resolve(stdout);
+      }
+    });
+  });
+}
+
+/**
+ * Paths from `git status --porcelain -z`, including both sides of renames
+ */
+function parseStatus(output: string): Set<string> {
+  const paths = new Set<string>();
+  const entries = output.split('\0');
+  for (let i = 0; i < entries.length; i++) {
+    const entry = entries[i];
+    if (entry.length < 4) continue;
+    paths.add(entry.slice(3));
+    if (entry[0] === 'R' || entry[0] === 'C') {
+      paths.add(entries[++i]);
+    }
+  }
+  return paths;
+}
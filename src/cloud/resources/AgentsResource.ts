@@ -8,7 +8,7 @@
  * simplified paths without /projects/:projectId prefix.
  */
 
-import type { ApiClient } from '../ApiClient';
+import type { ApiClient, RequestOptions } from '../ApiClient';
 import type {
   AgentAnalyticsResponse,
   AgentModelCatalogEntry,
@@ -25,10 +25,11 @@ export class AgentsResource {
    *
    * Project is determined automatically from the API key.
    */
-  async create(params: CreateAgentParams): Promise<CloudAgent> {
+  async create(params: CreateAgentParams, requestOptions?: RequestOptions): Promise<CloudAgent> {
     const response = await this.client.post<{ agent: CloudAgent }>(
       `/agents`,
-      params
+      params,
+      requestOptions
     );
     return response.agent;
   }
@@ -38,9 +39,11 @@ export class AgentsResource {
    *
    * Project is determined automatically from the API key.
    */
-  async list(): Promise<CloudAgent[]> {
+  async list(requestOptions?: RequestOptions): Promise<CloudAgent[]> {
     const response = await this.client.get<{ data: CloudAgent[]; object: string }>(
-      `/agents`
+      `/agents`,
+      undefined,
+      requestOptions
     );
     return response.data;
   }
@@ -48,11 +51,11 @@ export class AgentsResource {
   /**
    * List managed and external model entries available in the current workspace.
    */
-  async listModels(): Promise<{
+  async listModels(requestOptions?: RequestOptions): Promise<{
     tier?: string;
     models: AgentModelCatalogEntry[];
   }> {
-    const response = await this.client.get<{ tier?: string; models: AgentModelCatalogEntry[] }>(`/agents/models`);
+    const response = await this.client.get<{ tier?: string; models: AgentModelCatalogEntry[] }>(`/agents/models`, undefined, requestOptions);
     return {
       tier: response.tier,
       models: response.models,
@@ -62,9 +65,11 @@ export class AgentsResource {
   /**
    * Get an agent by ID
    */
-  async get(agentId: string): Promise<CloudAgent> {
+  async get(agentId: string, requestOptions?: RequestOptions): Promise<CloudAgent> {
     const response = await this.client.get<{ agent: CloudAgent }>(
-      `/agents/${agentId}`
+      `/agents/${agentId}`,
+      undefined,
+      requestOptions
     );
     return response.agent;
   }
@@ -74,11 +79,13 @@ export class AgentsResource {
    */
   async update(
     agentId: string,
-    params: UpdateAgentParams
+    params: UpdateAgentParams,
+    requestOptions?: RequestOptions
   ): Promise<CloudAgent> {
     const response = await this.client.patch<{ agent: CloudAgent }>(
       `/agents/${agentId}`,
-      params
+      params,
+      requestOptions
     );
     return response.agent;
   }
@@ -86,16 +93,17 @@ export class AgentsResource {
   /**
    * Summarize recent activity for an agent or team.
    */
-  async getAnalytics(agentId: string): Promise<AgentAnalyticsResponse> {
-    return this.client.get(`/agents/${agentId}/analytics`);
+  async getAnalytics(agentId: string, requestOptions?: RequestOptions): Promise<AgentAnalyticsResponse> {
+    return this.client.get(`/agents/${agentId}/analytics`, undefined, requestOptions);
   }
 
   /**
    * Delete an agent
    */
-  async delete(agentId: string, hard: boolean = false): Promise<void> {
+  async delete(agentId: string, hard: boolean = false, requestOptions?: RequestOptions): Promise<void> {
     await this.client.delete(
-      `/agents/${agentId}${hard ? '?hard=true' : ''}`
+      `/agents/${agentId}${hard ? '?hard=true' : ''}`,
+      requestOptions
     );
   }
 }
@@ -7,7 +7,9 @@
  * simplified paths without /projects/:projectId prefix.
  */
 
-import type { ApiClient } from '../ApiClient';
+import type { ApiClient, RequestOptions } from '../ApiClient';
+import { PageIterator, toPage } from '../pagination';
+import type { Page, PageIteratorOptions } from '../pagination';
 import type {
   BudgetStatus,
   CanExecuteResult,
@@ -32,7 +34,7 @@ export class BudgetResource {
    *
    * Project is determined automatically from the API key.
    */
-  async getStatus(): Promise<BudgetStatus> {
+  async getStatus(requestOptions?: RequestOptions): Promise<BudgetStatus> {
     // Use costs/summary endpoint since /budget doesn't exist
     const response = await this.client.get<{
       period: string;
@@ -42,7 +44,7 @@ export class BudgetResource {
         environmentCost: number;
         totalThreads: number;
       };
-    }>(`/costs/summary`);
+    }>(`/costs/summary`, undefined, requestOptions);
 
     // Map to BudgetStatus format
     return {
@@ -73,11 +75,13 @@ export class BudgetResource {
    * Project is determined automatically from the API key.
    */
   async increase(
-    params: IncreaseBudgetParams
+    params: IncreaseBudgetParams,
+    requestOptions?: RequestOptions
   ): Promise<IncreaseBudgetResult> {
     const response = await this.client.post<IncreaseBudgetResult>(
       `/budget/increase`,
-      params
+      params,
+      requestOptions
     );
     return response;
   }
@@ -92,11 +96,31 @@ export class BudgetResource {
    * Project is determined automatically from the API key.
    */
   async getRecords(
-    params: ListBillingRecordsParams = {}
+    params: ListBillingRecordsParams = {},
+    requestOptions?: RequestOptions
   ): Promise<{
     records: BillingRecord[];
-    pagination: { total: number; limit: number; offset: number };
+    pagination: { total: number; limit: number; offset: number; hasMore: boolean };
   }> {
+    const page = await this.listRecordsPage(params, requestOptions);
+    return {
+      records: page.data,
+      pagination: {
+        total: page.total ?? 0,
+        limit: params.limit || 50,
+        offset: params.offset || 0,
+        hasMore: page.hasMore,
+      },
+    };
+  }
+
+  /**
+   * Get a page of billing records
+   */
+  async listRecordsPage(
+    params: ListBillingRecordsParams = {},
+    requestOptions?: RequestOptions
+  ): Promise<Page<BillingRecord>> {
     const response = await this.client.get<{
       data: BillingRecord[];
       object: string;
@@ -108,15 +132,23 @@ export class BudgetResource {
       since: params.since,
       until: params.until,
       type: params.type,
-    });
-    return {
-      records: response.data,
-      pagination: {
-        total: response.total_count,
-        limit: params.limit || 50,
-        offset: params.offset || 0,
-      },
-    };
+    }, requestOptions);
+    return toPage(response.data, response);
+  }
+
+  /**
+   * Iterate over every billing record, fetching pages lazily
+   */
+  listAllRecords(
+    params: Omit<ListBillingRecordsParams, 'limit' | 'offset'> = {},
+    options?: PageIteratorOptions,
+    requestOptions?: RequestOptions
+  ): PageIterator<BillingRecord> {
+    return new PageIterator(
+      (page, pageRequestOptions) => this.listRecordsPage({ ...params, ...page }, pageRequestOptions),
+      options,
+      requestOptions
+    );
   }
 
   /**
@@ -124,7 +156,7 @@ export class BudgetResource {
    *
    * Project is determined automatically from the API key.
    */
-  async getSummary(): Promise<{
+  async getSummary(requestOptions?: RequestOptions): Promise<{
     totalSpent: number;
     periodStart: string;
     periodEnd: string;
@@ -137,7 +169,7 @@ export class BudgetResource {
       periodEnd: string;
       runCount: number;
       tokenCount: number;
-    }>(`/billing/summary`);
+    }>(`/billing/summary`, undefined, requestOptions);
     return response;
   }
 
@@ -146,7 +178,7 @@ export class BudgetResource {
    *
    * Project is determined automatically from the API key.
    */
-  async getDailySpending(): Promise<{
+  async getDailySpending(requestOptions?: RequestOptions): Promise<{
     days: Array<{
       date: string;
       cost: number;
@@ -161,7 +193,7 @@ export class BudgetResource {
         runs: number;
         tokens: number;
       }>;
-    }>(`/billing/daily`);
+    }>(`/billing/daily`, undefined, requestOptions);
     return response;
   }
 
@@ -175,9 +207,10 @@ export class BudgetResource {
       serverType: 'deep_research' | 'nano_banana';
       referenceId?: string;
       metadata?: Record<string, unknown>;
-    }
+    },
+    requestOptions?: RequestOptions
   ): Promise<void> {
-    await this.client.post(`/billing/mcp-usage`, params);
+    await this.client.post(`/billing/mcp-usage`, params, requestOptions);
   }
 
   // =========================================================================
@@ -189,7 +222,7 @@ export class BudgetResource {
    *
    * Project is determined automatically from the API key.
    */
-  async getTopUpOptions(): Promise<{
+  async getTopUpOptions(requestOptions?: RequestOptions): Promise<{
     options: Array<{
       amount: number;
       variantId: string;
@@ -202,7 +235,7 @@ export class BudgetResource {
         variantId: string;
         label: string;
       }>;
-    }>(`/budget/topup-options`);
+    }>(`/budget/topup-options`, undefined, requestOptions);
     return response;
   }
 
@@ -217,11 +250,13 @@ export class BudgetResource {
       userEmail?: string;
       userName?: string;
       redirectUrl?: string;
-    }
+    },
+    requestOptions?: RequestOptions
   ): Promise<{ checkoutUrl: string }> {
     const response = await this.client.post<{ checkoutUrl: string }>(
       `/budget/checkout`,
-      params
+      params,
+      requestOptions
     );
     return response;
   }
@@ -231,7 +266,7 @@ export class BudgetResource {
    *
    * Project is determined automatically from the API key.
    */
-  async getPaymentStatus(): Promise<{
+  async getPaymentStatus(requestOptions?: RequestOptions): Promise<{
     configured: boolean;
     provider?: string;
     pendingPayments: number;
@@ -240,7 +275,7 @@ export class BudgetResource {
       configured: boolean;
       provider?: string;
       pendingPayments: number;
-    }>(`/budget/payment-status`);
+    }>(`/budget/payment-status`, undefined, requestOptions);
     return response;
   }
 }
@@ -251,9 +286,11 @@ export class BillingResource {
   /**
    * Get billing account information
    */
-  async getAccount(): Promise<BillingAccount> {
+  async getAccount(requestOptions?: RequestOptions): Promise<BillingAccount> {
     const response = await this.client.get<{ account: BillingAccount }>(
-      '/billing/account'
+      '/billing/account',
+      undefined,
+      requestOptions
     );
     return response.account;
   }
@@ -261,13 +298,14 @@ export class BillingResource {
   /**
    * Get usage statistics
    */
-  async getStats(params: UsageStatsParams = {}): Promise<UsageStats> {
+  async getStats(params: UsageStatsParams = {}, requestOptions?: RequestOptions): Promise<UsageStats> {
     const response = await this.client.get<{ stats: UsageStats }>(
       '/billing/stats',
       {
         period: params.period,
         breakdown: params.breakdown,
-      }
+      },
+      requestOptions
     );
     return response.stats;
   }
@@ -275,7 +313,7 @@ export class BillingResource {
   /**
    * Get workspace usage breakdown
    */
-  async getWorkspaceUsage(): Promise<{
+  async getWorkspaceUsage(requestOptions?: RequestOptions): Promise<{
     workspaces: Array<{
       projectId: string;
       projectName: string;
@@ -300,7 +338,7 @@ export class BillingResource {
         storageBytes: number;
         projectCount: number;
       };
-    }>('/billing/usage/workspace');
+    }>('/billing/usage/workspace', undefined, requestOptions);
     return response;
   }
 
@@ -313,7 +351,7 @@ export class BillingResource {
     type?: string;
     limit?: number;
     offset?: number;
-  }): Promise<{
+  }, requestOptions?: RequestOptions): Promise<{
     transactions: Array<{
       id: string;
       type: string;
@@ -332,7 +370,7 @@ export class BillingResource {
         createdAt: string;
       }>;
       pagination: { total: number; limit: number; offset: number };
-    }>('/billing/transactions', params);
+    }>('/billing/transactions', params, requestOptions);
     return response;
   }
 }
@@ -1,4 +1,6 @@
-import type { ApiClient } from '../ApiClient';
+import type { ApiClient, RequestOptions } from '../ApiClient';
+import { PageIterator, toPage } from '../pagination';
+import type { Page, PageIteratorOptions } from '../pagination';
 import type {
   CreateDatabaseParams,
   Database,
@@ -28,56 +30,59 @@ export interface UpdateDatabaseDocumentParams {
 export class DatabasesResource {
   constructor(private readonly client: ApiClient) {}
 
-  async create(params: CreateDatabaseParams): Promise<Database> {
-    const response = await this.client.post<{ database: Database }>(`/databases`, params);
+  async create(params: CreateDatabaseParams, requestOptions?: RequestOptions): Promise<Database> {
+    const response = await this.client.post<{ database: Database }>(`/databases`, params, requestOptions);
     return response.database;
   }
 
-  async list(params: ListDatabasesParams = {}): Promise<Database[]> {
+  async list(params: ListDatabasesParams = {}, requestOptions?: RequestOptions): Promise<Database[]> {
     const response = await this.client.get<{ databases: Database[] }>(`/databases`, {
       projectId: params.projectId,
-    });
+    }, requestOptions);
     return response.databases;
   }
 
-  async get(databaseId: string): Promise<Database> {
-    const response = await this.client.get<{ database: Database }>(`/databases/${databaseId}`);
+  async get(databaseId: string, requestOptions?: RequestOptions): Promise<Database> {
+    const response = await this.client.get<{ database: Database }>(`/databases/${databaseId}`, undefined, requestOptions);
     return response.database;
   }
 
-  async update(databaseId: string, params: UpdateDatabaseParams): Promise<Database> {
-    const response = await this.client.patch<{ database: Database }>(`/databases/${databaseId}`, params);
+  async update(databaseId: string, params: UpdateDatabaseParams, requestOptions?: RequestOptions): Promise<Database> {
+    const response = await this.client.patch<{ database: Database }>(`/databases/${databaseId}`, params, requestOptions);
     return response.database;
   }
 
-  async delete(databaseId: string): Promise<boolean> {
-    const response = await this.client.delete<{ success?: boolean; deleted?: boolean }>(`/databases/${databaseId}`);
+  async delete(databaseId: string, requestOptions?: RequestOptions): Promise<boolean> {
+    const response = await this.client.delete<{ success?: boolean; deleted?: boolean }>(`/databases/${databaseId}`, requestOptions);
     return !!(response.success ?? response.deleted);
   }
 
-  async getAnalytics(databaseId: string): Promise<Record<string, unknown>> {
-    return this.client.get(`/databases/${databaseId}/analytics`);
+  async getAnalytics(databaseId: string, requestOptions?: RequestOptions): Promise<Record<string, unknown>> {
+    return this.client.get(`/databases/${databaseId}/analytics`, undefined, requestOptions);
   }
 
-  async listCollections(databaseId: string): Promise<DatabaseCollection[]> {
-    const response = await this.client.get<{ collections: DatabaseCollection[] }>(`/databases/${databaseId}/collections`);
+  async listCollections(databaseId: string, requestOptions?: RequestOptions): Promise<DatabaseCollection[]> {
+    const response = await this.client.get<{ collections: DatabaseCollection[] }>(`/databases/${databaseId}/collections`, undefined, requestOptions);
     return response.collections;
   }
 
   async createCollection(
     databaseId: string,
     params: CreateDatabaseCollectionParams,
+    requestOptions?: RequestOptions,
   ): Promise<DatabaseCollection> {
     const response = await this.client.post<{ collection: DatabaseCollection }>(
       `/databases/${databaseId}/collections`,
       params,
+      requestOptions,
     );
     return response.collection;
   }
 
-  async deleteCollection(databaseId: string, collectionId: string): Promise<boolean> {
+  async deleteCollection(databaseId: string, collectionId: string, requestOptions?: RequestOptions): Promise<boolean> {
     const response = await this.client.delete<{ success?: boolean; deleted?: boolean }>(
       `/databases/${databaseId}/collections/${collectionId}`,
+      requestOptions,
     );
     return !!(response.success ?? response.deleted);
   }
@@ -85,23 +90,54 @@ export class DatabasesResource {
   async listDocuments(
     databaseId: string,
     collectionId: string,
-    params: { limit?: number } = {},
+    params: { limit?: number; offset?: number } = {},
+    requestOptions?: RequestOptions,
   ): Promise<DatabaseDocument[]> {
-    const response = await this.client.get<{ documents: DatabaseDocument[] }>(
+    const page = await this.listDocumentsPage(databaseId, collectionId, params, requestOptions);
+    return page.data;
+  }
+
+  async listDocumentsPage(
+    databaseId: string,
+    collectionId: string,
+    params: { limit?: number; offset?: number } = {},
+    requestOptions?: RequestOptions,
+  ): Promise<Page<DatabaseDocument>> {
+    const response = await this.client.get<{
+      documents: DatabaseDocument[];
+      has_more?: boolean;
+      total_count?: number;
+    }>(
       `/databases/${databaseId}/collections/${collectionId}/documents`,
       params,
+      requestOptions,
+    );
+    return toPage(response.documents, response, params.limit);
+  }
+
+  listAllDocuments(
+    databaseId: string,
+    collectionId: string,
+    options?: PageIteratorOptions,
+    requestOptions?: RequestOptions,
+  ): PageIterator<DatabaseDocument> {
+    return new PageIterator(
+      (page, pageRequestOptions) => this.listDocumentsPage(databaseId, collectionId, page, pageRequestOptions),
+      options,
+      requestOptions,
     );
-    return response.documents;
   }
 
   async createDocument(
     databaseId: string,
     collectionId: string,
     params: CreateDatabaseDocumentParams,
+    requestOptions?: RequestOptions,
   ): Promise<DatabaseDocument> {
     const response = await this.client.post<{ document: DatabaseDocument }>(
       `/databases/${databaseId}/collections/${collectionId}/documents`,
       params,
+      requestOptions,
     );
     return response.document;
   }
@@ -110,9 +146,12 @@ export class DatabasesResource {
     databaseId: string,
     collectionId: string,
     documentId: string,
+    requestOptions?: RequestOptions,
   ): Promise<DatabaseDocument> {
     const response = await this.client.get<{ document: DatabaseDocument }>(
       `/databases/${databaseId}/collections/${collectionId}/documents/${documentId}`,
+      undefined,
+      requestOptions,
     );
     return response.document;
   }
@@ -122,10 +161,12 @@ export class DatabasesResource {
     collectionId: string,
     documentId: string,
     params: UpdateDatabaseDocumentParams,
+    requestOptions?: RequestOptions,
   ): Promise<DatabaseDocument> {
     const response = await this.client.put<{ document: DatabaseDocument }>(
       `/databases/${databaseId}/collections/${collectionId}/documents/${documentId}`,
       params,
+      requestOptions,
     );
     return response.document;
   }
@@ -134,9 +175,11 @@ export class DatabasesResource {
     databaseId: string,
     collectionId: string,
     documentId: string,
+    requestOptions?: RequestOptions,
   ): Promise<boolean> {
     const response = await this.client.delete<{ success?: boolean; deleted?: boolean }>(
       `/databases/${databaseId}/collections/${collectionId}/documents/${documentId}`,
+      requestOptions,
     );
     return !!(response.success ?? response.deleted);
   }
@@ -8,7 +8,14 @@
  * simplified paths without /projects/:projectId prefix.
  */
 
-import type { ApiClient } from '../ApiClient';
+import type { ApiClient, RequestOptions } from '../ApiClient';
+import { PageIterator } from '../pagination';
+import type { PageIteratorOptions } from '../pagination';
+import { InvalidArgumentError } from '../errors';
+import { pullPatches } from '../pullChanges';
+import type { PullChangesOptions, PullChangesResult, PullPatch } from '../pullChanges';
+import { waitFor } from '../waiters';
+import type { WaitOptions } from '../waiters';
 import type {
   Environment,
   CreateEnvironmentParams,
@@ -28,6 +35,7 @@ import type {
   DockerfileResult,
   ValidateDockerfileResult,
   EnvironmentSnapshot,
+  EnvironmentChangeEntry,
   EnvironmentChangeListResponse,
   EnvironmentChangeOperation,
   EnvironmentSnapshotDiffResponse,
@@ -85,10 +93,11 @@ export class EnvironmentsResource {
    * Use `computeProfile` for first-class sizing presets such as
    * `lite`, `standard`, `power`, and `desktop`.
    */
-  async create(params: CreateEnvironmentParams): Promise<Environment> {
+  async create(params: CreateEnvironmentParams, requestOptions?: RequestOptions): Promise<Environment> {
     const response = await this.client.post<{ environment: Environment }>(
       `/environments`,
-      params
+      params,
+      requestOptions
     );
     return response.environment;
   }
@@ -98,7 +107,7 @@ export class EnvironmentsResource {
    *
    * User is determined automatically from the API key.
    */
-  async list(params?: ListEnvironmentsParams): Promise<Environment[]> {
+  async list(params?: ListEnvironmentsParams, requestOptions?: RequestOptions): Promise<Environment[]> {
     const queryParams = new URLSearchParams();
     if (params?.isActive !== undefined) queryParams.set('isActive', String(params.isActive));
     if (params?.isDefault !== undefined) queryParams.set('isDefault', String(params.isDefault));
@@ -107,7 +116,9 @@ export class EnvironmentsResource {
 
     const queryString = queryParams.toString();
     const response = await this.client.get<{ data: Environment[]; object: string }>(
-      `/environments${queryString ? `?${queryString}` : ''}`
+      `/environments${queryString ? `?${queryString}` : ''}`,
+      undefined,
+      requestOptions
     );
     return response.data;
   }
@@ -115,9 +126,11 @@ export class EnvironmentsResource {
   /**
    * Get an environment by ID
    */
-  async get(environmentId: string): Promise<Environment> {
+  async get(environmentId: string, requestOptions?: RequestOptions): Promise<Environment> {
     const response = await this.client.get<{ environment: Environment }>(
-      `/environments/${environmentId}`
+      `/environments/${environmentId}`,
+      undefined,
+      requestOptions
     );
     return response.environment;
   }
@@ -126,9 +139,11 @@ export class EnvironmentsResource {
    * Get the user's default environment
    * Creates one if it doesn't exist.
    */
-  async getDefault(): Promise<Environment> {
+  async getDefault(requestOptions?: RequestOptions): Promise<Environment> {
     const response = await this.client.get<Environment>(
-      `/environments/default`
+      `/environments/default`,
+      undefined,
+      requestOptions
     );
     return response;
   }
@@ -136,10 +151,11 @@ export class EnvironmentsResource {
   /**
    * Mark an environment as the default computer for the current user.
    */
-  async setDefault(environmentId: string): Promise<Environment> {
+  async setDefault(environmentId: string, requestOptions?: RequestOptions): Promise<Environment> {
     const response = await this.client.post<{ environment: Environment }>(
       `/environments/${environmentId}/set-default`,
       {},
+      requestOptions,
     );
     return response.environment;
   }
@@ -151,11 +167,13 @@ export class EnvironmentsResource {
    */
   async update(
     environmentId: string,
-    params: UpdateEnvironmentParams
+    params: UpdateEnvironmentParams,
+    requestOptions?: RequestOptions
   ): Promise<Environment> {
     const response = await this.client.patch<{ environment: Environment }>(
       `/environments/${environmentId}`,
-      params
+      params,
+      requestOptions
     );
     return response.environment;
   }
@@ -163,8 +181,8 @@ export class EnvironmentsResource {
   /**
    * Delete an environment (soft delete)
    */
-  async delete(environmentId: string): Promise<void> {
-    await this.client.delete(`/environments/${environmentId}`);
+  async delete(environmentId: string, requestOptions?: RequestOptions): Promise<void> {
+    await this.client.delete(`/environments/${environmentId}`, requestOptions);
   }
 
   // =========================================================================
@@ -175,9 +193,11 @@ export class EnvironmentsResource {
    * Get all available runtime versions
    * Returns supported versions for Python, Node.js, Go, PHP, Java, Ruby, Rust
    */
-  async listAvailableRuntimes(): Promise<AvailableRuntimes> {
+  async listAvailableRuntimes(requestOptions?: RequestOptions): Promise<AvailableRuntimes> {
     const response = await this.client.get<{ runtimes: AvailableRuntimes }>(
-      `/environments/runtimes/available`
+      `/environments/runtimes/available`,
+      undefined,
+      requestOptions
     );
     return response.runtimes;
   }
@@ -185,9 +205,11 @@ export class EnvironmentsResource {
   /**
    * Get current runtime versions for an environment
    */
-  async getRuntimes(environmentId: string): Promise<RuntimeConfig> {
+  async getRuntimes(environmentId: string, requestOptions?: RequestOptions): Promise<RuntimeConfig> {
     const response = await this.client.get<{ runtimes: RuntimeConfig }>(
-      `/environments/${environmentId}/runtimes`
+      `/environments/${environmentId}/runtimes`,
+      undefined,
+      requestOptions
     );
     return response.runtimes;
   }
@@ -205,11 +227,13 @@ export class EnvironmentsResource {
    */
   async setRuntimes(
     environmentId: string,
-    runtimes: RuntimeConfig
+    runtimes: RuntimeConfig,
+    requestOptions?: RequestOptions
   ): Promise<Environment> {
     const response = await this.client.put<{ environment: Environment }>(
       `/environments/${environmentId}/runtimes`,
-      { runtimes }
+      { runtimes },
+      requestOptions
     );
     return response.environment;
   }
@@ -221,9 +245,11 @@ export class EnvironmentsResource {
   /**
    * List installed packages for an environment
    */
-  async listPackages(environmentId: string): Promise<PackagesConfig> {
+  async listPackages(environmentId: string, requestOptions?: RequestOptions): Promise<PackagesConfig> {
     const response = await this.client.get<{ packages: PackagesConfig }>(
-      `/environments/${environmentId}/packages`
+      `/environments/${environmentId}/packages`,
+      undefined,
+      requestOptions
     );
     return response.packages;
   }
@@ -240,11 +266,13 @@ export class EnvironmentsResource {
   async installPackages(
     environmentId: string,
     type: PackageType,
-    packages: string[]
+    packages: string[],
+    requestOptions?: RequestOptions
   ): Promise<InstallPackagesResult> {
     const response = await this.client.post<InstallPackagesResult>(
       `/environments/${environmentId}/packages`,
-      { type, packages }
+      { type, packages },
+      requestOptions
     );
     return response;
   }
@@ -259,10 +287,12 @@ export class EnvironmentsResource {
   async uninstallPackage(
     environmentId: string,
     type: PackageType,
-    packageName: string
+    packageName: string,
+    requestOptions?: RequestOptions
   ): Promise<Environment> {
     const response = await this.client.delete<{ environment: Environment }>(
-      `/environments/${environmentId}/packages/${type}/${packageName}`
+      `/environments/${environmentId}/packages/${type}/${packageName}`,
+      requestOptions
     );
     return response.environment;
   }
@@ -275,9 +305,11 @@ export class EnvironmentsResource {
    * Get the Dockerfile configuration for an environment
    * Returns the base image, custom extensions, and effective Dockerfile
    */
-  async getDockerfile(environmentId: string): Promise<DockerfileResult> {
+  async getDockerfile(environmentId: string, requestOptions?: RequestOptions): Promise<DockerfileResult> {
     const response = await this.client.get<DockerfileResult>(
-      `/environments/${environmentId}/dockerfile`
+      `/environments/${environmentId}/dockerfile`,
+      undefined,
+      requestOptions
     );
     return response;
   }
@@ -294,11 +326,13 @@ export class EnvironmentsResource {
    */
   async setDockerfileExtensions(
     environmentId: string,
-    dockerfileExtensions: string
+    dockerfileExtensions: string,
+    requestOptions?: RequestOptions
   ): Promise<Environment> {
     const response = await this.client.put<{ environment: Environment }>(
       `/environments/${environmentId}/dockerfile`,
-      { dockerfileExtensions }
+      { dockerfileExtensions },
+      requestOptions
     );
     return response.environment;
   }
@@ -308,11 +342,13 @@ export class EnvironmentsResource {
    */
   async validateDockerfile(
     environmentId: string,
-    dockerfileExtensions: string
+    dockerfileExtensions: string,
+    requestOptions?: RequestOptions
   ): Promise<ValidateDockerfileResult> {
     const response = await this.client.post<ValidateDockerfileResult>(
       `/environments/${environmentId}/dockerfile/validate`,
-      { dockerfileExtensions }
+      { dockerfileExtensions },
+      requestOptions
     );
     return response;
   }
@@ -329,11 +365,13 @@ export class EnvironmentsResource {
    */
   async triggerBuild(
     environmentId: string,
-    force: boolean = false
+    force: boolean = false,
+    requestOptions?: RequestOptions
   ): Promise<{ buildId: string; status: string; message: string }> {
     const response = await this.client.post<{ buildId: string; status: string; message: string }>(
       `/environments/${environmentId}/build${force ? '?force=true' : ''}`,
-      {}
+      {},
+      requestOptions
     );
     return response;
   }
@@ -341,19 +379,45 @@ export class EnvironmentsResource {
   /**
    * Get build status for an environment
    */
-  async getBuildStatus(environmentId: string): Promise<BuildStatusResult> {
+  async getBuildStatus(environmentId: string, requestOptions?: RequestOptions): Promise<BuildStatusResult> {
     const response = await this.client.get<BuildStatusResult>(
-      `/environments/${environmentId}/build/status`
+      `/environments/${environmentId}/build/status`,
+      undefined,
+      requestOptions
     );
     return response;
   }
 
+  /**
+   * Wait for the environment image build to finish
+   *
+   * Throws `TerminalStateError` (`BUILD_FAILED`) with the build error if the
+   * build fails.
+   *
+   * @example
+   * ```typescript
+   * await client.environments.triggerBuild('env_xyz');
+   * const { imageTag } = await client.environments.waitForBuild('env_xyz', { timeoutMs: 900000 });
+   * ```
+   */
+  async waitForBuild(environmentId: string, options: WaitOptions<BuildStatusResult> = {}): Promise<BuildStatusResult> {
+    return waitFor({
+      description: `build of environment ${environmentId}`,
+      failureCode: 'BUILD_FAILED',
+      failureReason: (status) => status.buildError,
+      poll: (requestOptions) => this.getBuildStatus(environmentId, requestOptions),
+      check: ({ buildStatus }) => buildStatus === 'ready' ? 'done' : buildStatus === 'failed' ? 'failed' : 'pending',
+    }, options);
+  }
+
   /**
    * Get build logs for an environment
    */
-  async getBuildLogs(environmentId: string): Promise<BuildLogsResult> {
+  async getBuildLogs(environmentId: string, requestOptions?: RequestOptions): Promise<BuildLogsResult> {
     const response = await this.client.get<BuildLogsResult>(
-      `/environments/${environmentId}/build/logs`
+      `/environments/${environmentId}/build/logs`,
+      undefined,
+      requestOptions
     );
     return response;
   }
@@ -361,10 +425,11 @@ export class EnvironmentsResource {
   /**
    * Perform a test build to validate configuration without caching
    */
-  async testBuild(environmentId: string): Promise<TestBuildResult> {
+  async testBuild(environmentId: string, requestOptions?: RequestOptions): Promise<TestBuildResult> {
     const response = await this.client.post<TestBuildResult>(
       `/environments/${environmentId}/build/test`,
-      {}
+      {},
+      requestOptions
     );
     return response;
   }
@@ -374,11 +439,13 @@ export class EnvironmentsResource {
    */
   async build(
     environmentId: string,
-    force: boolean = false
+    force: boolean = false,
+    requestOptions?: RequestOptions
   ): Promise<BuildResult> {
     const response = await this.client.post<BuildResult>(
       `/environments/${environmentId}/build`,
-      { force }
+      { force },
+      requestOptions
     );
     return response;
   }
@@ -392,11 +459,13 @@ export class EnvironmentsResource {
    */
   async start(
     environmentId: string,
-    params: StartContainerParams = {}
+    params: StartContainerParams = {},
+    requestOptions?: RequestOptions
   ): Promise<StartContainerResult> {
     const response = await this.client.post<StartContainerResult>(
       `/environments/${environmentId}/start`,
-      params
+      params,
+      requestOptions
     );
     return response;
   }
@@ -406,7 +475,8 @@ export class EnvironmentsResource {
    */
   async stop(
     environmentId: string,
-    options?: { containerId?: string; all?: boolean }
+    options?: { containerId?: string; all?: boolean },
+    requestOptions?: RequestOptions
   ): Promise<{ success: boolean; stopped: number; containers: string[] }> {
     const response = await this.client.post<{
       success: boolean;
@@ -414,7 +484,8 @@ export class EnvironmentsResource {
       containers: string[];
     }>(
       `/environments/${environmentId}/stop`,
-      options
+      options,
+      requestOptions
     );
     return response;
   }
@@ -422,9 +493,11 @@ export class EnvironmentsResource {
   /**
    * Get container status for an environment
    */
-  async getStatus(environmentId: string): Promise<ContainerStatus> {
+  async getStatus(environmentId: string, requestOptions?: RequestOptions): Promise<ContainerStatus> {
     const response = await this.client.get<ContainerStatus>(
-      `/environments/${environmentId}/status`
+      `/environments/${environmentId}/status`,
+      undefined,
+      requestOptions
     );
     return response;
   }
@@ -432,18 +505,18 @@ export class EnvironmentsResource {
   /**
    * Get runtime analytics for the computer.
    */
-  async getAnalytics(environmentId: string): Promise<EnvironmentAnalyticsResponse> {
-    return this.client.get(`/environments/${environmentId}/analytics`);
+  async getAnalytics(environmentId: string, requestOptions?: RequestOptions): Promise<EnvironmentAnalyticsResponse> {
+    return this.client.get(`/environments/${environmentId}/analytics`, undefined, requestOptions);
   }
 
   /**
    * Capture a desktop screenshot from the computer.
    */
-  async captureScreenshot(environmentId: string): Promise<Buffer> {
+  async captureScreenshot(environmentId: string, requestOptions?: RequestOptions): Promise<Buffer> {
     const response = await this.client.request<Response>(
       'GET',
       `/environments/${environmentId}/gui/screenshot`,
-      { stream: true },
+      { ...requestOptions, stream: true },
     );
     const arrayBuffer = await response.arrayBuffer();
     return Buffer.from(arrayBuffer);
@@ -452,12 +525,12 @@ export class EnvironmentsResource {
   /**
    * Create a browser/desktop session token for GUI streaming.
    */
-  async createGuiSession(environmentId: string): Promise<{
+  async createGuiSession(environmentId: string, requestOptions?: RequestOptions): Promise<{
     token: string;
     websocketPath: string;
     expiresAt: string;
   }> {
-    return this.client.post(`/environments/${environmentId}/gui/session`, {});
+    return this.client.post(`/environments/${environmentId}/gui/session`, {}, requestOptions);
   }
 
   /**
@@ -466,47 +539,50 @@ export class EnvironmentsResource {
   async performGuiAction(
     environmentId: string,
     params: EnvironmentGuiActionParams,
+    requestOptions?: RequestOptions,
   ): Promise<{ ok: boolean; action: string }> {
-    return this.client.post(`/environments/${environmentId}/gui/action`, params);
+    return this.client.post(`/environments/${environmentId}/gui/action`, params, requestOptions);
   }
 
   /**
    * List configured secret keys for the computer.
    */
-  async listSecrets(environmentId: string): Promise<EnvironmentSecretDescriptor[]> {
+  async listSecrets(environmentId: string, requestOptions?: RequestOptions): Promise<EnvironmentSecretDescriptor[]> {
     const response = await this.client.get<{ data: EnvironmentSecretDescriptor[] }>(
       `/environments/${environmentId}/secrets`,
+      undefined,
+      requestOptions,
     );
     return response.data;
   }
 
-  async createSecret(environmentId: string, key: string, value: string): Promise<{ success?: boolean; key: string; message?: string }> {
-    return this.client.post(`/environments/${environmentId}/secrets`, { key, value });
+  async createSecret(environmentId: string, key: string, value: string, requestOptions?: RequestOptions): Promise<{ success?: boolean; key: string; message?: string }> {
+    return this.client.post(`/environments/${environmentId}/secrets`, { key, value }, requestOptions);
   }
 
-  async updateSecret(environmentId: string, key: string, value: string): Promise<{ success?: boolean; key: string; message?: string }> {
-    return this.client.put(`/environments/${environmentId}/secrets/${encodeURIComponent(key)}`, { value });
+  async updateSecret(environmentId: string, key: string, value: string, requestOptions?: RequestOptions): Promise<{ success?: boolean; key: string; message?: string }> {
+    return this.client.put(`/environments/${environmentId}/secrets/${encodeURIComponent(key)}`, { value }, requestOptions);
   }
 
-  async deleteSecret(environmentId: string, key: string): Promise<{ success?: boolean; key: string; message?: string }> {
-    return this.client.delete(`/environments/${environmentId}/secrets/${encodeURIComponent(key)}`);
+  async deleteSecret(environmentId: string, key: string, requestOptions?: RequestOptions): Promise<{ success?: boolean; key: string; message?: string }> {
+    return this.client.delete(`/environments/${environmentId}/secrets/${encodeURIComponent(key)}`, requestOptions);
   }
 
   /**
    * Initialize snapshot history for a computer.
    */
-  async initializeSnapshots(environmentId: string): Promise<{
+  async initializeSnapshots(environmentId: string, requestOptions?: RequestOptions): Promise<{
     environmentId: string;
     snapshot: EnvironmentSnapshot;
   }> {
-    return this.client.post(`/environments/${environmentId}/snapshots/initialize`, {});
+    return this.client.post(`/environments/${environmentId}/snapshots/initialize`, {}, requestOptions);
   }
 
   /**
    * List checkpoint snapshots for a computer.
    */
-  async listSnapshots(environmentId: string): Promise<EnvironmentSnapshot[]> {
-    const response = await this.client.get<{ data: EnvironmentSnapshot[] }>(`/environments/${environmentId}/snapshots`);
+  async listSnapshots(environmentId: string, requestOptions?: RequestOptions): Promise<EnvironmentSnapshot[]> {
+    const response = await this.client.get<{ data: EnvironmentSnapshot[] }>(`/environments/${environmentId}/snapshots`, undefined, requestOptions);
     return response.data;
   }
 
@@ -519,6 +595,7 @@ export class EnvironmentsResource {
   async listChanges(
     environmentId: string,
     params: ListEnvironmentChangesParams = {},
+    requestOptions?: RequestOptions,
   ): Promise<EnvironmentChangeListResponse> {
     const query: Record<string, string | number | boolean | undefined> = {
       limit: params.limit,
@@ -530,6 +607,23 @@ export class EnvironmentsResource {
     return this.client.get<EnvironmentChangeListResponse>(
       `/environments/${environmentId}/changes`,
       query,
+      requestOptions,
+    );
+  }
+
+  /**
+   * Iterate over a computer's full change history, fetching pages lazily.
+   */
+  listAllChanges(
+    environmentId: string,
+    params: Omit<ListEnvironmentChangesParams, 'limit' | 'offset'> = {},
+    options?: PageIteratorOptions,
+    requestOptions?: RequestOptions,
+  ): PageIterator<EnvironmentChangeEntry> {
+    return new PageIterator(
+      (page, pageRequestOptions) => this.listChanges(environmentId, { ...params, ...page }, pageRequestOptions),
+      options,
+      requestOptions,
     );
   }
 
@@ -537,10 +631,12 @@ export class EnvironmentsResource {
     environmentId: string,
     snapshotId: string,
     params: { prefix?: string } = {},
+    requestOptions?: RequestOptions,
   ): Promise<SnapshotFileEntry[]> {
     const response = await this.client.get<{ data: SnapshotFileEntry[] }>(
       `/environments/${environmentId}/snapshots/${snapshotId}/files`,
       params,
+      requestOptions,
     );
     return response.data;
   }
@@ -549,16 +645,18 @@ export class EnvironmentsResource {
     environmentId: string,
     snapshotId: string,
     params: { path?: string } = {},
+    requestOptions?: RequestOptions,
   ): Promise<EnvironmentSnapshotDiffResponse> {
-    return this.client.get<EnvironmentSnapshotDiffResponse>(`/environments/${environmentId}/snapshots/${snapshotId}/diff`, params);
+    return this.client.get<EnvironmentSnapshotDiffResponse>(`/environments/${environmentId}/snapshots/${snapshotId}/diff`, params, requestOptions);
   }
 
   async getSnapshotFile(
     environmentId: string,
     snapshotId: string,
     path: string,
+    requestOptions?: RequestOptions,
   ): Promise<EnvironmentSnapshotFileResponse> {
-    return this.client.get<EnvironmentSnapshotFileResponse>(`/environments/${environmentId}/snapshots/${snapshotId}/file`, { path });
+    return this.client.get<EnvironmentSnapshotFileResponse>(`/environments/${environmentId}/snapshots/${snapshotId}/file`, { path }, requestOptions);
   }
 
   /**
@@ -568,10 +666,12 @@ export class EnvironmentsResource {
     environmentId: string,
     changeId: string,
     params: { path?: string } = {},
+    requestOptions?: RequestOptions,
   ): Promise<EnvironmentSnapshotDiffResponse> {
     return this.client.get<EnvironmentSnapshotDiffResponse>(
       `/environments/${environmentId}/changes/${encodeURIComponent(changeId)}/diff`,
       params,
+      requestOptions,
     );
   }
 
@@ -582,19 +682,88 @@ export class EnvironmentsResource {
     environmentId: string,
     changeId: string,
     path: string,
+    requestOptions?: RequestOptions,
   ): Promise<EnvironmentSnapshotFileResponse> {
     return this.client.get<EnvironmentSnapshotFileResponse>(
       `/environments/${environmentId}/changes/${encodeURIComponent(changeId)}/file`,
       { path },
+      requestOptions,
     );
   }
 
+  /**
+   * Replay a range of computer changes as commits on a new local git branch
+   *
+   * `from` and `to` are change IDs from `listChanges()`, both included, and
+   * default to the oldest and newest change. Each change becomes one commit
+   * titled with its title, plus the thread and step it came from.
+   *
+   * @example
+   * ```typescript
+   * const { data } = await client.environments.listChanges('env_xxx', { limit: 5 });
+   * await client.environments.pullChanges('env_xxx', {
+   *   repoDir: './my-repo',
+   *   branch: 'agent/recent',
+   *   from: data[data.length - 1].id,
+   * });
+   * ```
+   */
+  async pullChanges(
+    environmentId: string,
+    options: PullChangesOptions & { from?: string; to?: string },
+    requestOptions?: RequestOptions,
+  ): Promise<PullChangesResult> {
+    // Changes are listed newest first, so paging stops once `from` is reached
+    const range: EnvironmentChangeEntry[] = [];
+    let reachedTo = options.to === undefined;
+    let reachedFrom = false;
+    for await (const change of this.listAllChanges(environmentId, {}, undefined, requestOptions)) {
+      reachedTo ||= change.id === options.to;
+      if (reachedTo) {
+        range.push(change);
+      }
+      if (change.id === options.from) {
+        reachedFrom = true;
+        break;
+      }
+    }
+
+    const unknownChange = (field: 'from' | 'to', message: string) =>
+      new InvalidArgumentError(message, 'UNKNOWN_CHANGE', [{ field, message }]);
+    if (reachedFrom && !reachedTo) {
+      throw unknownChange('to', `Change ${options.to} is not newer than ${options.from} on computer ${environmentId}`);
+    }
+    if (!reachedTo) {
+      throw unknownChange('to', `No change ${options.to} on computer ${environmentId}`);
+    }
+    if (options.from !== undefined && !reachedFrom) {
+      throw unknownChange('from', `No change ${options.from} on computer ${environmentId}`);
+    }
+    range.reverse();
+
+    const patches: PullPatch[] = [];
+    for (const change of range) {
+      const { diff } = await this.getChangeDiff(environmentId, change.id, {}, requestOptions);
+      if (diff.trim()) {
+        const source = [
+          change.threadTitle && `Thread: ${change.threadTitle}`,
+          change.stepTitle && `Step: ${change.stepTitle}`,
+          `Change-Id: ${change.id}`,
+        ];
+        patches.push({ sourceId: change.id, diff, subject: change.title, body: source.filter(Boolean).join('\n') });
+      }
+    }
+
+    return pullPatches(patches, options);
+  }
+
   async forkFromSnapshot(
     environmentId: string,
     snapshotId: string,
     params: { name?: string; description?: string } = {},
+    requestOptions?: RequestOptions,
   ): Promise<EnvironmentForkFromSnapshotResponse> {
-    return this.client.post<EnvironmentForkFromSnapshotResponse>(`/environments/${environmentId}/snapshots/${snapshotId}/fork`, params);
+    return this.client.post<EnvironmentForkFromSnapshotResponse>(`/environments/${environmentId}/snapshots/${snapshotId}/fork`, params, requestOptions);
   }
 
   /**
@@ -604,10 +773,12 @@ export class EnvironmentsResource {
     environmentId: string,
     changeId: string,
     params: { name?: string; description?: string } = {},
+    requestOptions?: RequestOptions,
   ): Promise<EnvironmentForkFromSnapshotResponse> {
     return this.client.post<EnvironmentForkFromSnapshotResponse>(
       `/environments/${environmentId}/changes/${encodeURIComponent(changeId)}/fork`,
       params,
+      requestOptions,
     );
   }
 
@@ -618,9 +789,11 @@ export class EnvironmentsResource {
   /**
    * Get the agent configuration for an environment
    */
-  async getConfig(environmentId: string): Promise<string> {
+  async getConfig(environmentId: string, requestOptions?: RequestOptions): Promise<string> {
     const response = await this.client.get<{ config: string }>(
-      `/environments/${environmentId}/config`
+      `/environments/${environmentId}/config`,
+      undefined,
+      requestOptions
     );
     return response.config;
   }
@@ -630,11 +803,13 @@ export class EnvironmentsResource {
    */
   async updateConfig(
     environmentId: string,
-    config: string
+    config: string,
+    requestOptions?: RequestOptions
   ): Promise<void> {
     await this.client.put(
       `/environments/${environmentId}/config`,
-      { config }
+      { config },
+      requestOptions
     );
   }
 }
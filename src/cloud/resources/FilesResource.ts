@@ -13,8 +13,7 @@
  * - POST   /environments/:environmentId/files/move         - Move/rename file
  */
 
-import type { ApiClient } from '../ApiClient';
-import { ApiClientError } from '../ApiClient';
+import type { ApiClient, RequestOptions } from '../ApiClient';
 
 /**
  * File entry returned by the API
@@ -36,6 +35,10 @@ export interface EnvironmentFile {
 export interface ListFilesResult {
   environmentId: string;
   files: EnvironmentFile[];
+  /** Whether the listing was truncated */
+  hasMore: boolean;
+  /** Total number of entries */
+  total: number;
 }
 
 /**
@@ -116,32 +119,34 @@ export class FilesResource {
    * console.log(result.files);
    * ```
    */
-  async list(environmentId: string): Promise<ListFilesResult> {
+  async list(environmentId: string, requestOptions?: RequestOptions): Promise<ListFilesResult> {
     const response = await this.client.get<{
       object: string;
       data: EnvironmentFile[];
       path: string;
       has_more: boolean;
       total_count: number;
-    }>(`/environments/${environmentId}/files`);
+    }>(`/environments/${environmentId}/files`, undefined, requestOptions);
 
     return {
       environmentId,
       files: response.data,
+      hasMore: response.has_more,
+      total: response.total_count,
     };
   }
 
   /**
    * Alias for list() - for backward compatibility
    */
-  async listFiles(environmentId: string): Promise<EnvironmentFile[]> {
+  async listFiles(environmentId: string, requestOptions?: RequestOptions): Promise<EnvironmentFile[]> {
     const response = await this.client.get<{
       object: string;
       data: EnvironmentFile[];
       path: string;
       has_more: boolean;
       total_count: number;
-    }>(`/environments/${environmentId}/files`);
+    }>(`/environments/${environmentId}/files`, undefined, requestOptions);
 
     return response.data;
   }
@@ -159,7 +164,7 @@ export class FilesResource {
    * console.log(content);
    * ```
    */
-  async getFile(environmentId: string, filePath: string): Promise<string> {
+  async getFile(environmentId: string, filePath: string, requestOptions?: RequestOptions): Promise<string> {
     // Remove leading slash if present
     const normalizedPath = filePath.replace(/^\/+/, '');
     const encodedPath = normalizedPath
@@ -170,7 +175,7 @@ export class FilesResource {
     const response = await this.client.request<Response>(
       'GET',
       `/environments/${environmentId}/files/${encodedPath}`,
-      { stream: true }
+      { ...requestOptions, stream: true }
     );
 
     return response.text();
@@ -183,7 +188,7 @@ export class FilesResource {
    * @param filePath - Path to the file
    * @returns File content as Buffer
    */
-  async downloadFile(environmentId: string, filePath: string): Promise<Buffer> {
+  async downloadFile(environmentId: string, filePath: string, requestOptions?: RequestOptions): Promise<Buffer> {
     const normalizedPath = filePath.replace(/^\/+/, '');
     const encodedPath = normalizedPath
       .split('/')
@@ -193,7 +198,7 @@ export class FilesResource {
     const response = await this.client.request<Response>(
       'GET',
       `/environments/${environmentId}/files/${encodedPath}`,
-      { stream: true }
+      { ...requestOptions, stream: true }
     );
 
     const arrayBuffer = await response.arrayBuffer();
@@ -218,7 +223,7 @@ export class FilesResource {
    * });
    * ```
    */
-  async uploadFile(params: UploadFileParams): Promise<UploadFileResult> {
+  async uploadFile(params: UploadFileParams, requestOptions?: RequestOptions): Promise<UploadFileResult> {
     const { environmentId, path: relativePath, content, filename, contentType } = params;
 
     if (!environmentId) {
@@ -228,12 +233,7 @@ export class FilesResource {
     // Create FormData for multipart upload
     const formData = new FormData();
 
-    // Convert content to Blob
-    const contentBuffer = typeof content === 'string'
-      ? new TextEncoder().encode(content)
-      : content;
-
-    const blob = new Blob([contentBuffer], {
+    const blob = new Blob([typeof content === 'string' ? content : new Uint8Array(content)], {
       type: contentType || 'application/octet-stream'
     });
 
@@ -243,31 +243,12 @@ export class FilesResource {
       formData.append('path', relativePath);
     }
 
-    // Make request with FormData (not JSON)
-    const url = `${this.client.getBaseUrl()}/environments/${environmentId}/files/upload`;
-
-    const response = await fetch(url, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${this.client.getApiKey()}`,
-      },
-      body: formData,
-    });
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({ error: response.statusText })) as {
-        error?: string;
-        message?: string;
-        code?: string;
-      };
-      throw new ApiClientError(
-        errorData.message || errorData.error || 'Upload failed',
-        response.status,
-        errorData.code
-      );
-    }
-
-    return response.json() as Promise<UploadFileResult>;
+    // FormData bodies go through the client pipeline without JSON encoding
+    return this.client.request<UploadFileResult>(
+      'POST',
+      `/environments/${environmentId}/files/upload`,
+      { ...requestOptions, body: formData }
+    );
   }
 
   /**
@@ -281,7 +262,7 @@ export class FilesResource {
    * await client.files.deleteFile('env_xxx', 'src/old-file.py');
    * ```
    */
-  async deleteFile(environmentId: string, filePath: string): Promise<DeleteFileResult> {
+  async deleteFile(environmentId: string, filePath: string, requestOptions?: RequestOptions): Promise<DeleteFileResult> {
     const normalizedPath = filePath.replace(/^\/+/, '');
     const encodedPath = normalizedPath
       .split('/')
@@ -289,7 +270,8 @@ export class FilesResource {
       .join('/');
 
     return this.client.delete<DeleteFileResult>(
-      `/environments/${environmentId}/files/${encodedPath}`
+      `/environments/${environmentId}/files/${encodedPath}`,
+      requestOptions
     );
   }
 
@@ -308,12 +290,13 @@ export class FilesResource {
    * });
    * ```
    */
-  async moveFile(params: MoveFileParams): Promise<MoveFileResult> {
+  async moveFile(params: MoveFileParams, requestOptions?: RequestOptions): Promise<MoveFileResult> {
     const { environmentId, sourcePath, destPath } = params;
 
     return this.client.post<MoveFileResult>(
       `/environments/${environmentId}/files/move`,
-      { sourcePath, destPath }
+      { sourcePath, destPath },
+      requestOptions
     );
   }
 
@@ -335,13 +318,14 @@ export class FilesResource {
    * await client.files.createDirectory('env_xxx', 'src/components/ui/buttons');
    * ```
    */
-  async createDirectory(environmentId: string, path: string): Promise<CreateDirectoryResult> {
+  async createDirectory(environmentId: string, path: string, requestOptions?: RequestOptions): Promise<CreateDirectoryResult> {
     // Normalize path - remove leading slash if present
     const normalizedPath = path.replace(/^\/+/, '');
 
     return this.client.post<CreateDirectoryResult>(
       `/environments/${environmentId}/files/mkdir`,
-      { path: normalizedPath }
+      { path: normalizedPath },
+      requestOptions
     );
   }
 }
@@ -5,7 +5,7 @@
  * diff, commit, and push.
  */
 
-import type { ApiClient } from '../ApiClient';
+import type { ApiClient, RequestOptions } from '../ApiClient';
 import type {
   GitDiffResult,
   GitCommitParams,
@@ -35,8 +35,8 @@ export class GitResource {
   /**
    * Compatibility alias for Git status on a computer workspace.
    */
-  async diff(workspaceId: string): Promise<GitDiffResult> {
-    const status = await this.getStatus(workspaceId);
+  async diff(workspaceId: string, requestOptions?: RequestOptions): Promise<GitDiffResult> {
+    const status = await this.getStatus(workspaceId, undefined, requestOptions);
     const files = status.changedFiles ?? [];
     return {
       diffs: files.map((file) => ({
@@ -56,8 +56,8 @@ export class GitResource {
   /**
    * Get Git status for a computer workspace or repository path.
    */
-  async getStatus(environmentId: string, path?: string): Promise<GitStatusResult> {
-    return this.client.get(`/environments/${environmentId}/git/status`, path ? { path } : undefined);
+  async getStatus(environmentId: string, path?: string, requestOptions?: RequestOptions): Promise<GitStatusResult> {
+    return this.client.get(`/environments/${environmentId}/git/status`, path ? { path } : undefined, requestOptions);
   }
 
   /**
@@ -66,8 +66,9 @@ export class GitResource {
   async stage(
     environmentId: string,
     params: { files?: string[]; path?: string; all?: boolean } = {},
+    requestOptions?: RequestOptions,
   ): Promise<Record<string, unknown>> {
-    return this.client.post(`/environments/${environmentId}/git/stage`, params);
+    return this.client.post(`/environments/${environmentId}/git/stage`, params, requestOptions);
   }
 
   /**
@@ -76,8 +77,9 @@ export class GitResource {
   async unstage(
     environmentId: string,
     params: { files?: string[]; path?: string; all?: boolean } = {},
+    requestOptions?: RequestOptions,
   ): Promise<Record<string, unknown>> {
-    return this.client.post(`/environments/${environmentId}/git/unstage`, params);
+    return this.client.post(`/environments/${environmentId}/git/unstage`, params, requestOptions);
   }
 
   /**
@@ -85,14 +87,16 @@ export class GitResource {
    */
   async commit(
     workspaceId: string,
-    params: GitCommitParams
+    params: GitCommitParams,
+    requestOptions?: RequestOptions
   ): Promise<GitCommitResult> {
     if (params.files?.length) {
-      await this.stage(workspaceId, { files: params.files });
+      await this.stage(workspaceId, { files: params.files }, requestOptions);
     }
     const response = await this.client.post<Record<string, unknown>>(
       `/environments/${workspaceId}/git/commit`,
-      { message: params.message }
+      { message: params.message },
+      requestOptions
     );
     return {
       success: !!response.success,
@@ -111,11 +115,13 @@ export class GitResource {
    */
   async push(
     workspaceId: string,
-    params: GitPushParams = {}
+    params: GitPushParams = {},
+    requestOptions?: RequestOptions
   ): Promise<GitPushResult> {
     const response = await this.client.post<Record<string, unknown>>(
       `/environments/${workspaceId}/git/push`,
-      params
+      params,
+      requestOptions
     );
     return {
       success: !!response.success,
@@ -130,34 +136,35 @@ export class GitResource {
   /**
    * Create a branch inside a computer workspace.
    */
-  async createBranch(environmentId: string, name: string, path?: string): Promise<Record<string, unknown>> {
-    return this.client.post(`/environments/${environmentId}/git/branch`, { name, path });
+  async createBranch(environmentId: string, name: string, path?: string, requestOptions?: RequestOptions): Promise<Record<string, unknown>> {
+    return this.client.post(`/environments/${environmentId}/git/branch`, { name, path }, requestOptions);
   }
 
   /**
    * Switch the active branch in a computer workspace.
    */
-  async switchBranch(environmentId: string, name: string, path?: string): Promise<Record<string, unknown>> {
-    return this.client.put(`/environments/${environmentId}/git/branch`, { name, path });
+  async switchBranch(environmentId: string, name: string, path?: string, requestOptions?: RequestOptions): Promise<Record<string, unknown>> {
+    return this.client.put(`/environments/${environmentId}/git/branch`, { name, path }, requestOptions);
   }
 
-  async listBranches(environmentId: string, path?: string): Promise<Record<string, unknown>> {
-    return this.client.get(`/environments/${environmentId}/git/branches`, path ? { path } : undefined);
+  async listBranches(environmentId: string, path?: string, requestOptions?: RequestOptions): Promise<Record<string, unknown>> {
+    return this.client.get(`/environments/${environmentId}/git/branches`, path ? { path } : undefined, requestOptions);
   }
 
-  async listCommits(environmentId: string, params: { path?: string; limit?: number } = {}): Promise<Record<string, unknown>> {
-    return this.client.get(`/environments/${environmentId}/git/commits`, params);
+  async listCommits(environmentId: string, params: { path?: string; limit?: number } = {}, requestOptions?: RequestOptions): Promise<Record<string, unknown>> {
+    return this.client.get(`/environments/${environmentId}/git/commits`, params, requestOptions);
   }
 
-  async prepareGithub(environmentId: string, params: { repoFullName: string; branch?: string }): Promise<Record<string, unknown>> {
-    return this.client.post(`/environments/${environmentId}/github/prepare`, params);
+  async prepareGithub(environmentId: string, params: { repoFullName: string; branch?: string }, requestOptions?: RequestOptions): Promise<Record<string, unknown>> {
+    return this.client.post(`/environments/${environmentId}/github/prepare`, params, requestOptions);
   }
 
   async clone(
     environmentId: string,
     params: { repoUrl: string; branch?: string; targetPath?: string; token?: string | null },
+    requestOptions?: RequestOptions,
   ): Promise<Record<string, unknown>> {
-    return this.client.post(`/environments/${environmentId}/git/clone`, params);
+    return this.client.post(`/environments/${environmentId}/git/clone`, params, requestOptions);
   }
 
   /**
@@ -8,7 +8,11 @@
  * simplified paths without /projects/:projectId prefix.
  */
 
-import type { ApiClient } from '../ApiClient';
+import type { ApiClient, RequestOptions } from '../ApiClient';
+import { PageIterator, toPage } from '../pagination';
+import type { Page, PageIteratorOptions } from '../pagination';
+import { waitFor } from '../waiters';
+import type { WaitOptions } from '../waiters';
 import type {
   Orchestration,
   CreateOrchestrationParams,
@@ -22,10 +26,11 @@ export class OrchestrationsResource {
   /**
    * Create a new orchestration
    */
-  async create(params: CreateOrchestrationParams): Promise<Orchestration> {
+  async create(params: CreateOrchestrationParams, requestOptions?: RequestOptions): Promise<Orchestration> {
     const response = await this.client.post<{ orchestration: Orchestration }>(
       `/orchestrations`,
-      params
+      params,
+      requestOptions
     );
     return response.orchestration;
   }
@@ -34,23 +39,52 @@ export class OrchestrationsResource {
    * List all orchestrations
    */
   async list(
-    params?: { environmentId?: string; limit?: number; offset?: number }
+    params?: { environmentId?: string; limit?: number; offset?: number },
+    requestOptions?: RequestOptions
   ): Promise<Orchestration[]> {
+    const page = await this.listPage(params, requestOptions);
+    return page.data;
+  }
+
+  /**
+   * List all orchestrations, with pagination metadata
+   */
+  async listPage(
+    params?: { environmentId?: string; limit?: number; offset?: number },
+    requestOptions?: RequestOptions
+  ): Promise<Page<Orchestration>> {
     const response = await this.client.get<{
       data: Orchestration[];
       object: string;
       has_more: boolean;
       total_count: number;
-    }>(`/orchestrations`, params);
-    return response.data;
+    }>(`/orchestrations`, params, requestOptions);
+    return toPage(response.data, response);
+  }
+
+  /**
+   * Iterate over every orchestration, fetching pages lazily
+   */
+  listAll(
+    params?: { environmentId?: string },
+    options?: PageIteratorOptions,
+    requestOptions?: RequestOptions
+  ): PageIterator<Orchestration> {
+    return new PageIterator(
+      (page, pageRequestOptions) => this.listPage({ ...params, ...page }, pageRequestOptions),
+      options,
+      requestOptions
+    );
   }
 
   /**
    * Get an orchestration by ID
    */
-  async get(orchestrationId: string): Promise<Orchestration> {
+  async get(orchestrationId: string, requestOptions?: RequestOptions): Promise<Orchestration> {
     const response = await this.client.get<{ orchestration: Orchestration }>(
-      `/orchestrations/${orchestrationId}`
+      `/orchestrations/${orchestrationId}`,
+      undefined,
+      requestOptions
     );
     return response.orchestration;
   }
@@ -60,11 +94,13 @@ export class OrchestrationsResource {
    */
   async update(
     orchestrationId: string,
-    params: UpdateOrchestrationParams
+    params: UpdateOrchestrationParams,
+    requestOptions?: RequestOptions
   ): Promise<Orchestration> {
     const response = await this.client.patch<{ orchestration: Orchestration }>(
       `/orchestrations/${orchestrationId}`,
-      params
+      params,
+      requestOptions
     );
     return response.orchestration;
   }
@@ -72,8 +108,8 @@ export class OrchestrationsResource {
   /**
    * Delete an orchestration
    */
-  async delete(orchestrationId: string): Promise<void> {
-    await this.client.delete(`/orchestrations/${orchestrationId}`);
+  async delete(orchestrationId: string, requestOptions?: RequestOptions): Promise<void> {
+    await this.client.delete(`/orchestrations/${orchestrationId}`, requestOptions);
   }
 
   // =========================================================================
@@ -85,11 +121,13 @@ export class OrchestrationsResource {
    */
   async run(
     orchestrationId: string,
-    options?: { inputs?: Record<string, unknown> }
+    options?: { inputs?: Record<string, unknown> },
+    requestOptions?: RequestOptions
   ): Promise<OrchestrationRun> {
     const response = await this.client.post<{ run: OrchestrationRun }>(
       `/orchestrations/${orchestrationId}/runs`,
-      options
+      options,
+      requestOptions
     );
     return response.run;
   }
@@ -99,27 +137,82 @@ export class OrchestrationsResource {
    */
   async getRun(
     orchestrationId: string,
-    runId: string
+    runId: string,
+    requestOptions?: RequestOptions
   ): Promise<OrchestrationRun> {
     const response = await this.client.get<{ run: OrchestrationRun }>(
-      `/orchestrations/${orchestrationId}/runs/${runId}`
+      `/orchestrations/${orchestrationId}/runs/${runId}`,
+      undefined,
+      requestOptions
     );
     return response.run;
   }
 
+  /**
+   * Wait for an orchestration run to complete
+   *
+   * Throws `TerminalStateError` (`ORCHESTRATION_FAILED`) if the run fails.
+   *
+   * @example
+   * ```typescript
+   * const run = await client.orchestrations.run('orch_123');
+   * const { stepResults } = await client.orchestrations.waitForRun('orch_123', run.id);
+   * ```
+   */
+  async waitForRun(
+    orchestrationId: string,
+    runId: string,
+    options: WaitOptions<OrchestrationRun> = {}
+  ): Promise<OrchestrationRun> {
+    return waitFor({
+      description: `orchestration run ${runId}`,
+      failureCode: 'ORCHESTRATION_FAILED',
+      poll: (requestOptions) => this.getRun(orchestrationId, runId, requestOptions),
+      check: ({ status }) => status === 'completed' ? 'done' : status === 'failed' ? 'failed' : 'pending',
+    }, options);
+  }
+
   /**
    * List all runs for an orchestration
    */
   async listRuns(
     orchestrationId: string,
-    params?: { limit?: number; offset?: number }
+    params?: { limit?: number; offset?: number },
+    requestOptions?: RequestOptions
   ): Promise<OrchestrationRun[]> {
+    const page = await this.listRunsPage(orchestrationId, params, requestOptions);
+    return page.data;
+  }
+
+  /**
+   * List all runs for an orchestration, with pagination metadata
+   */
+  async listRunsPage(
+    orchestrationId: string,
+    params?: { limit?: number; offset?: number },
+    requestOptions?: RequestOptions
+  ): Promise<Page<OrchestrationRun>> {
     const response = await this.client.get<{
       data: OrchestrationRun[];
       object: string;
       has_more: boolean;
       total_count: number;
-    }>(`/orchestrations/${orchestrationId}/runs`, params);
-    return response.data;
+    }>(`/orchestrations/${orchestrationId}/runs`, params, requestOptions);
+    return toPage(response.data, response);
+  }
+
+  /**
+   * Iterate over every run of an orchestration, fetching pages lazily
+   */
+  listAllRuns(
+    orchestrationId: string,
+    options?: PageIteratorOptions,
+    requestOptions?: RequestOptions
+  ): PageIterator<OrchestrationRun> {
+    return new PageIterator(
+      (page, pageRequestOptions) => this.listRunsPage(orchestrationId, page, pageRequestOptions),
+      options,
+      requestOptions
+    );
   }
 }
@@ -1,4 +1,5 @@
-import type { ApiClient } from '../ApiClient';
+import type { ApiClient, RequestOptions } from '../ApiClient';
+import type { WaitOptions } from '../waiters';
 import type {
   CreateResourceParams,
   Resource,
@@ -33,44 +34,48 @@ class KindScopedResources<K extends ResourceKind> {
     this.resources = new ResourcesResource(client);
   }
 
-  async create(params: KindScopedCreateParams<K>): Promise<Resource> {
+  async create(params: KindScopedCreateParams<K>, requestOptions?: RequestOptions): Promise<Resource> {
     return this.resources.create({
       ...params,
       kind: this.kind,
-    });
+    }, requestOptions);
   }
 
-  async list(params: ListResourcesParams = {}): Promise<Resource[]> {
-    const resources = await this.resources.list(params);
+  async list(params: ListResourcesParams = {}, requestOptions?: RequestOptions): Promise<Resource[]> {
+    const resources = await this.resources.list(params, requestOptions);
     return resources.filter((resource) => resource.kind === this.kind);
   }
 
-  async get(serverId: string): Promise<Resource> {
-    return this.resources.get(serverId);
+  async get(serverId: string, requestOptions?: RequestOptions): Promise<Resource> {
+    return this.resources.get(serverId, requestOptions);
   }
 
-  async update(serverId: string, params: KindScopedUpdateParams<K>): Promise<Resource> {
+  async update(serverId: string, params: KindScopedUpdateParams<K>, requestOptions?: RequestOptions): Promise<Resource> {
     return this.resources.update(serverId, {
       ...params,
       kind: this.kind,
-    });
+    }, requestOptions);
   }
 
-  async delete(serverId: string): Promise<boolean> {
-    return this.resources.delete(serverId);
+  async delete(serverId: string, requestOptions?: RequestOptions): Promise<boolean> {
+    return this.resources.delete(serverId, requestOptions);
   }
 
-  async deploy(serverId: string): Promise<{
+  async deploy(serverId: string, requestOptions?: RequestOptions): Promise<{
     server?: Resource;
     serviceUrl?: string | null;
     invocationUrl?: string | null;
     revision?: string | null;
     deploymentType?: string | null;
   }> {
-    return this.resources.deploy(serverId);
+    return this.resources.deploy(serverId, requestOptions);
   }
 
-  async invoke(serverId: string, params: ResourceInvokeParams = {}): Promise<{
+  async waitForDeploy(serverId: string, options?: WaitOptions<Resource>): Promise<Resource> {
+    return this.resources.waitForDeploy(serverId, options);
+  }
+
+  async invoke(serverId: string, params: ResourceInvokeParams = {}, requestOptions?: RequestOptions): Promise<{
     status?: number;
     ok?: boolean;
     url?: string;
@@ -78,76 +83,80 @@ class KindScopedResources<K extends ResourceKind> {
     text?: string;
     headers?: Record<string, string>;
   }> {
-    return this.resources.invoke(serverId, params);
+    return this.resources.invoke(serverId, params, requestOptions);
   }
 
-  async getAnalytics(serverId: string): Promise<ResourceAnalyticsResponse> {
-    return this.resources.getAnalytics(serverId);
+  async getAnalytics(serverId: string, requestOptions?: RequestOptions): Promise<ResourceAnalyticsResponse> {
+    return this.resources.getAnalytics(serverId, requestOptions);
   }
 
   async getLogs(
     serverId: string,
     params: { kind?: 'request' | 'runtime' | 'deployment'; limit?: number } = {},
+    requestOptions?: RequestOptions,
   ): Promise<ResourceLogEntry[]> {
-    return this.resources.getLogs(serverId, params);
+    return this.resources.getLogs(serverId, params, requestOptions);
   }
 
-  async listBindings(serverId: string): Promise<ResourceBinding[]> {
-    return this.resources.listBindings(serverId);
+  async listBindings(serverId: string, requestOptions?: RequestOptions): Promise<ResourceBinding[]> {
+    return this.resources.listBindings(serverId, requestOptions);
   }
 
   async upsertBinding(
     serverId: string,
     targetType: 'database' | 'auth' | 'agent_runtime',
     params: { targetId: string; alias?: string; metadata?: Record<string, unknown> | null },
+    requestOptions?: RequestOptions,
   ): Promise<ResourceBinding[]> {
-    return this.resources.upsertBinding(serverId, targetType, params);
+    return this.resources.upsertBinding(serverId, targetType, params, requestOptions);
   }
 
   async deleteBinding(
     serverId: string,
     targetType: 'database' | 'auth' | 'agent_runtime',
+    requestOptions?: RequestOptions,
   ): Promise<ResourceBinding[]> {
-    return this.resources.deleteBinding(serverId, targetType);
+    return this.resources.deleteBinding(serverId, targetType, requestOptions);
   }
 
-  async getContext(serverId: string): Promise<Record<string, unknown>> {
-    return this.resources.getContext(serverId);
+  async getContext(serverId: string, requestOptions?: RequestOptions): Promise<Record<string, unknown>> {
+    return this.resources.getContext(serverId, requestOptions);
   }
 
-  async getRuntimeConfig(serverId: string): Promise<Record<string, unknown>> {
-    return this.resources.getRuntimeConfig(serverId);
+  async getRuntimeConfig(serverId: string, requestOptions?: RequestOptions): Promise<Record<string, unknown>> {
+    return this.resources.getRuntimeConfig(serverId, requestOptions);
   }
 
-  async getRuntime(serverId: string): Promise<Record<string, unknown>> {
-    return this.resources.getRuntime(serverId);
+  async getRuntime(serverId: string, requestOptions?: RequestOptions): Promise<Record<string, unknown>> {
+    return this.resources.getRuntime(serverId, requestOptions);
   }
 
   async listFiles(
     serverId: string,
     params: { path?: string; depth?: number } = {},
+    requestOptions?: RequestOptions,
   ): Promise<ResourceFileEntry[]> {
-    return this.resources.listFiles(serverId, params);
+    return this.resources.listFiles(serverId, params, requestOptions);
   }
 
-  async getFileContent(serverId: string, filePath: string): Promise<string> {
-    return this.resources.getFileContent(serverId, filePath);
+  async getFileContent(serverId: string, filePath: string, requestOptions?: RequestOptions): Promise<string> {
+    return this.resources.getFileContent(serverId, filePath, requestOptions);
   }
 
-  async writeFileContent(serverId: string, filePath: string, content: string): Promise<Record<string, unknown>> {
-    return this.resources.writeFileContent(serverId, filePath, content);
+  async writeFileContent(serverId: string, filePath: string, content: string, requestOptions?: RequestOptions): Promise<Record<string, unknown>> {
+    return this.resources.writeFileContent(serverId, filePath, content, requestOptions);
   }
 
-  async downloadFile(serverId: string, filePath: string): Promise<Buffer> {
-    return this.resources.downloadFile(serverId, filePath);
+  async downloadFile(serverId: string, filePath: string, requestOptions?: RequestOptions): Promise<Buffer> {
+    return this.resources.downloadFile(serverId, filePath, requestOptions);
   }
 
-  async uploadFile(params: ResourceFileUploadParams): Promise<Record<string, unknown>> {
-    return this.resources.uploadFile(params);
+  async uploadFile(params: ResourceFileUploadParams, requestOptions?: RequestOptions): Promise<Record<string, unknown>> {
+    return this.resources.uploadFile(params, requestOptions);
   }
 
-  async deleteFile(serverId: string, filePath: string): Promise<Record<string, unknown>> {
-    return this.resources.deleteFile(serverId, filePath);
+  async deleteFile(serverId: string, filePath: string, requestOptions?: RequestOptions): Promise<Record<string, unknown>> {
+    return this.resources.deleteFile(serverId, filePath, requestOptions);
   }
 }
 
@@ -156,8 +165,8 @@ export class WebAppsResource extends KindScopedResources<'web_app'> {
     super(client, 'web_app');
   }
 
-  async createAiChatAppTemplate(params: Record<string, unknown>): Promise<Record<string, unknown>> {
-    return this.resources.createAiChatAppTemplate(params);
+  async createAiChatAppTemplate(params: Record<string, unknown>, requestOptions?: RequestOptions): Promise<Record<string, unknown>> {
+    return this.resources.createAiChatAppTemplate(params, requestOptions);
   }
 }
 
@@ -175,20 +184,21 @@ export class AuthResource extends KindScopedResources<'auth'> {
   async listUsers(
     serverId: string,
     params: { limit?: number; nextPageToken?: string } = {},
+    requestOptions?: RequestOptions,
   ): Promise<Array<Record<string, unknown>>> {
-    return this.resources.listAuthUsers(serverId, params);
+    return this.resources.listAuthUsers(serverId, params, requestOptions);
   }
 
-  async createUser(serverId: string, params: ResourceAuthUserCreateParams): Promise<Record<string, unknown>> {
-    return this.resources.createAuthUser(serverId, params);
+  async createUser(serverId: string, params: ResourceAuthUserCreateParams, requestOptions?: RequestOptions): Promise<Record<string, unknown>> {
+    return this.resources.createAuthUser(serverId, params, requestOptions);
   }
 
-  async signUp(serverId: string, params: ResourceAuthUserCreateParams): Promise<Record<string, unknown>> {
-    return this.resources.signUp(serverId, params);
+  async signUp(serverId: string, params: ResourceAuthUserCreateParams, requestOptions?: RequestOptions): Promise<Record<string, unknown>> {
+    return this.resources.signUp(serverId, params, requestOptions);
   }
 
-  async signIn(serverId: string, params: ResourceAuthSignInParams): Promise<Record<string, unknown>> {
-    return this.resources.signIn(serverId, params);
+  async signIn(serverId: string, params: ResourceAuthSignInParams, requestOptions?: RequestOptions): Promise<Record<string, unknown>> {
+    return this.resources.signIn(serverId, params, requestOptions);
   }
 }
 
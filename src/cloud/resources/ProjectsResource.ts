@@ -8,7 +8,7 @@
  * parameter is needed in method calls.
  */
 
-import type { ApiClient } from '../ApiClient';
+import type { ApiClient, RequestOptions } from '../ApiClient';
 import type {
   Project,
   UpdateProjectParams,
@@ -27,9 +27,11 @@ export class ProjectsResource {
    *
    * Project is determined automatically from the API key.
    */
-  async get(): Promise<Project & { stats?: ProjectStats }> {
+  async get(requestOptions?: RequestOptions): Promise<Project & { stats?: ProjectStats }> {
     const response = await this.client.get<{ project: Project & { stats?: ProjectStats } }>(
-      `/project`
+      `/project`,
+      undefined,
+      requestOptions
     );
     return response.project;
   }
@@ -39,10 +41,11 @@ export class ProjectsResource {
    *
    * Project is determined automatically from the API key.
    */
-  async update(params: UpdateProjectParams): Promise<Project> {
+  async update(params: UpdateProjectParams, requestOptions?: RequestOptions): Promise<Project> {
     const response = await this.client.patch<{ project: Project }>(
       `/project`,
-      params
+      params,
+      requestOptions
     );
     return response.project;
   }
@@ -57,11 +60,13 @@ export class ProjectsResource {
       added?: string[];
       modified?: string[];
       deleted?: string[];
-    }
+    },
+    requestOptions?: RequestOptions
   ): Promise<{ synced: boolean; fileCount: number }> {
     const response = await this.client.post<{ synced: boolean; fileCount: number }>(
       `/project/sync`,
-      { changes }
+      { changes },
+      requestOptions
     );
     return response;
   }
@@ -75,14 +80,15 @@ export class ProjectsResource {
    *
    * Project is determined automatically from the API key.
    */
-  async listFiles(params: ListFilesParams = {}): Promise<FileEntry[]> {
+  async listFiles(params: ListFilesParams = {}, requestOptions?: RequestOptions): Promise<FileEntry[]> {
     const response = await this.client.get<{ files: FileEntry[] }>(
       `/files`,
       {
         path: params.path,
         environmentId: params.environmentId,
         recursive: params.recursive,
-      }
+      },
+      requestOptions
     );
     return response.files;
   }
@@ -94,12 +100,14 @@ export class ProjectsResource {
    */
   async getFile(
     filePath: string,
-    environmentId?: string
+    environmentId?: string,
+    requestOptions?: RequestOptions
   ): Promise<string> {
     const encodedPath = encodeURIComponent(filePath);
     const response = await this.client.get<string>(
       `/files/${encodedPath}`,
-      { environmentId }
+      { environmentId },
+      requestOptions
     );
     return response;
   }
@@ -110,7 +118,8 @@ export class ProjectsResource {
    * Project is determined automatically from the API key.
    */
   async uploadFile(
-    params: UploadFileParams
+    params: UploadFileParams,
+    requestOptions?: RequestOptions
   ): Promise<FileEntry> {
     // For single file upload, we use the PUT endpoint
     const encodedPath = encodeURIComponent(params.path);
@@ -122,7 +131,8 @@ export class ProjectsResource {
           : params.content.toString('base64'),
         contentType: params.contentType,
         environmentId: params.environmentId,
-      }
+      },
+      requestOptions
     );
     return response.file;
   }
@@ -134,11 +144,13 @@ export class ProjectsResource {
    */
   async deleteFile(
     filePath: string,
-    recursive: boolean = false
+    recursive: boolean = false,
+    requestOptions?: RequestOptions
   ): Promise<void> {
     const encodedPath = encodeURIComponent(filePath);
     await this.client.delete(
-      `/files/${encodedPath}${recursive ? '?recursive=true' : ''}`
+      `/files/${encodedPath}${recursive ? '?recursive=true' : ''}`,
+      requestOptions
     );
   }
 
@@ -149,11 +161,13 @@ export class ProjectsResource {
    */
   async moveFile(
     sourcePath: string,
-    destinationPath: string
+    destinationPath: string,
+    requestOptions?: RequestOptions
   ): Promise<FileEntry> {
     const response = await this.client.post<{ file: FileEntry }>(
       `/files/move`,
-      { source: sourcePath, destination: destinationPath }
+      { source: sourcePath, destination: destinationPath },
+      requestOptions
     );
     return response.file;
   }
@@ -164,11 +178,13 @@ export class ProjectsResource {
    * Project is determined automatically from the API key.
    */
   async createDirectory(
-    params: CreateDirectoryParams
+    params: CreateDirectoryParams,
+    requestOptions?: RequestOptions
   ): Promise<FileEntry> {
     const response = await this.client.post<{ directory: FileEntry }>(
       `/directories`,
-      params
+      params,
+      requestOptions
     );
     return response.directory;
   }
@@ -1,4 +1,8 @@
-import type { ApiClient } from '../ApiClient';
+import type { ApiClient, RequestOptions } from '../ApiClient';
+import { PageIterator, toPage } from '../pagination';
+import type { Page, PageIteratorOptions } from '../pagination';
+import { waitFor } from '../waiters';
+import type { WaitOptions } from '../waiters';
 import type {
   CreateResourceParams,
   Resource,
@@ -51,12 +55,17 @@ export interface ResourceFileUploadParams {
 export class ResourcesResource {
   constructor(private readonly client: ApiClient) {}
 
-  async create(params: CreateResourceParams): Promise<Resource> {
-    const response = await this.client.post<{ server: Resource }>(`/servers`, params);
+  async create(params: CreateResourceParams, requestOptions?: RequestOptions): Promise<Resource> {
+    const response = await this.client.post<{ server: Resource }>(`/servers`, params, requestOptions);
     return response.server;
   }
 
-  async list(params: ListResourcesParams = {}): Promise<Resource[]> {
+  async list(params: ListResourcesParams = {}, requestOptions?: RequestOptions): Promise<Resource[]> {
+    const page = await this.listPage(params, requestOptions);
+    return page.data;
+  }
+
+  async listPage(params: ListResourcesParams = {}, requestOptions?: RequestOptions): Promise<Page<Resource>> {
     const response = await this.client.get<{
       data?: Resource[];
       servers?: Resource[];
@@ -67,36 +76,69 @@ export class ResourcesResource {
       projectId: params.projectId,
       limit: params.limit,
       offset: params.offset,
-    });
-    return response.data ?? response.servers ?? [];
+    }, requestOptions);
+    return toPage(response.data ?? response.servers ?? [], response, params.limit);
+  }
+
+  listAll(
+    params: Omit<ListResourcesParams, 'limit' | 'offset'> = {},
+    options?: PageIteratorOptions,
+    requestOptions?: RequestOptions
+  ): PageIterator<Resource> {
+    return new PageIterator(
+      (page, pageRequestOptions) => this.listPage({ ...params, ...page }, pageRequestOptions),
+      options,
+      requestOptions
+    );
   }
 
-  async get(serverId: string): Promise<Resource> {
-    const response = await this.client.get<{ server: Resource }>(`/servers/${serverId}`);
+  async get(serverId: string, requestOptions?: RequestOptions): Promise<Resource> {
+    const response = await this.client.get<{ server: Resource }>(`/servers/${serverId}`, undefined, requestOptions);
     return response.server;
   }
 
-  async update(serverId: string, params: UpdateResourceParams): Promise<Resource> {
-    const response = await this.client.patch<{ server: Resource }>(`/servers/${serverId}`, params);
+  async update(serverId: string, params: UpdateResourceParams, requestOptions?: RequestOptions): Promise<Resource> {
+    const response = await this.client.patch<{ server: Resource }>(`/servers/${serverId}`, params, requestOptions);
     return response.server;
   }
 
-  async delete(serverId: string): Promise<boolean> {
-    const response = await this.client.delete<{ deleted?: boolean }>(`/servers/${serverId}`);
+  async delete(serverId: string, requestOptions?: RequestOptions): Promise<boolean> {
+    const response = await this.client.delete<{ deleted?: boolean }>(`/servers/${serverId}`, requestOptions);
     return !!response?.deleted;
   }
 
-  async deploy(serverId: string): Promise<{
+  async deploy(serverId: string, requestOptions?: RequestOptions): Promise<{
     server?: Resource;
     serviceUrl?: string | null;
     invocationUrl?: string | null;
     revision?: string | null;
     deploymentType?: string | null;
   }> {
-    return this.client.post(`/servers/${serverId}/deploy`, {});
+    return this.client.post(`/servers/${serverId}/deploy`, {}, requestOptions);
   }
 
-  async invoke(serverId: string, params: ResourceInvokeParams = {}): Promise<{
+  /**
+   * Wait for a deployment to go live
+   *
+   * Resolves once the resource is `deployed`. Throws `TerminalStateError`
+   * (`DEPLOY_FAILED`) if the deployment fails.
+   *
+   * @example
+   * ```typescript
+   * await client.resources.deploy('srv_123');
+   * const { serviceUrl } = await client.resources.waitForDeploy('srv_123');
+   * ```
+   */
+  async waitForDeploy(serverId: string, options: WaitOptions<Resource> = {}): Promise<Resource> {
+    return waitFor({
+      description: `deployment of resource ${serverId}`,
+      failureCode: 'DEPLOY_FAILED',
+      poll: (requestOptions) => this.get(serverId, requestOptions),
+      check: ({ status }) => status === 'deployed' ? 'done' : status === 'failed' ? 'failed' : 'pending',
+    }, options);
+  }
+
+  async invoke(serverId: string, params: ResourceInvokeParams = {}, requestOptions?: RequestOptions): Promise<{
     status?: number;
     ok?: boolean;
     url?: string;
@@ -104,27 +146,28 @@ export class ResourcesResource {
     text?: string;
     headers?: Record<string, string>;
   }> {
-    return this.client.post(`/servers/${serverId}/invoke`, params);
+    return this.client.post(`/servers/${serverId}/invoke`, params, requestOptions);
   }
 
-  async createAiChatAppTemplate(params: Record<string, unknown>): Promise<Record<string, unknown>> {
-    return this.client.post(`/servers/templates/ai-chat-app`, params);
+  async createAiChatAppTemplate(params: Record<string, unknown>, requestOptions?: RequestOptions): Promise<Record<string, unknown>> {
+    return this.client.post(`/servers/templates/ai-chat-app`, params, requestOptions);
   }
 
-  async getAnalytics(serverId: string): Promise<ResourceAnalyticsResponse> {
-    return this.client.get(`/servers/${serverId}/analytics`);
+  async getAnalytics(serverId: string, requestOptions?: RequestOptions): Promise<ResourceAnalyticsResponse> {
+    return this.client.get(`/servers/${serverId}/analytics`, undefined, requestOptions);
   }
 
   async getLogs(
     serverId: string,
     params: { kind?: 'request' | 'runtime' | 'deployment'; limit?: number } = {},
+    requestOptions?: RequestOptions,
   ): Promise<ResourceLogEntry[]> {
-    const response = await this.client.get<{ logs: ResourceLogEntry[] }>(`/servers/${serverId}/logs`, params);
+    const response = await this.client.get<{ logs: ResourceLogEntry[] }>(`/servers/${serverId}/logs`, params, requestOptions);
     return response.logs;
   }
 
-  async listBindings(serverId: string): Promise<ResourceBinding[]> {
-    const response = await this.client.get<{ bindings: ResourceBinding[] }>(`/servers/${serverId}/bindings`);
+  async listBindings(serverId: string, requestOptions?: RequestOptions): Promise<ResourceBinding[]> {
+    const response = await this.client.get<{ bindings: ResourceBinding[] }>(`/servers/${serverId}/bindings`, undefined, requestOptions);
     return response.bindings;
   }
 
@@ -132,10 +175,12 @@ export class ResourcesResource {
     serverId: string,
     targetType: 'database' | 'auth' | 'agent_runtime',
     params: { targetId: string; alias?: string; metadata?: Record<string, unknown> | null },
+    requestOptions?: RequestOptions,
   ): Promise<ResourceBinding[]> {
     const response = await this.client.put<{ bindings: ResourceBinding[] }>(
       `/servers/${serverId}/bindings/${targetType}`,
       params,
+      requestOptions,
     );
     return response.bindings;
   }
@@ -143,9 +188,11 @@ export class ResourcesResource {
   async deleteBinding(
     serverId: string,
     targetType: 'database' | 'auth' | 'agent_runtime',
+    requestOptions?: RequestOptions,
   ): Promise<ResourceBinding[]> {
     const response = await this.client.delete<{ bindings: ResourceBinding[] }>(
       `/servers/${serverId}/bindings/${targetType}`,
+      requestOptions,
     );
     return response.bindings;
   }
@@ -153,121 +200,112 @@ export class ResourcesResource {
   async listAuthUsers(
     serverId: string,
     params: { limit?: number; nextPageToken?: string } = {},
+    requestOptions?: RequestOptions,
   ): Promise<Array<Record<string, unknown>>> {
     const response = await this.client.get<{ users: Array<Record<string, unknown>> }>(
       `/servers/${serverId}/auth-users`,
       params,
+      requestOptions,
     );
     return response.users;
   }
 
-  async createAuthUser(serverId: string, params: ResourceAuthUserCreateParams): Promise<Record<string, unknown>> {
-    return this.client.post(`/servers/${serverId}/auth-users`, params);
+  async createAuthUser(serverId: string, params: ResourceAuthUserCreateParams, requestOptions?: RequestOptions): Promise<Record<string, unknown>> {
+    return this.client.post(`/servers/${serverId}/auth-users`, params, requestOptions);
   }
 
-  async signUp(serverId: string, params: ResourceAuthUserCreateParams): Promise<Record<string, unknown>> {
-    return this.client.post(`/servers/${serverId}/auth/sign-up`, params);
+  async signUp(serverId: string, params: ResourceAuthUserCreateParams, requestOptions?: RequestOptions): Promise<Record<string, unknown>> {
+    return this.client.post(`/servers/${serverId}/auth/sign-up`, params, requestOptions);
   }
 
-  async signIn(serverId: string, params: ResourceAuthSignInParams): Promise<Record<string, unknown>> {
-    return this.client.post(`/servers/${serverId}/auth/sign-in`, params);
+  async signIn(serverId: string, params: ResourceAuthSignInParams, requestOptions?: RequestOptions): Promise<Record<string, unknown>> {
+    return this.client.post(`/servers/${serverId}/auth/sign-in`, params, requestOptions);
   }
 
-  async getContext(serverId: string): Promise<Record<string, unknown>> {
-    return this.client.get(`/servers/${serverId}/context`);
+  async getContext(serverId: string, requestOptions?: RequestOptions): Promise<Record<string, unknown>> {
+    return this.client.get(`/servers/${serverId}/context`, undefined, requestOptions);
   }
 
-  async getRuntimeConfig(serverId: string): Promise<Record<string, unknown>> {
-    return this.client.get(`/servers/${serverId}/runtime-config`);
+  async getRuntimeConfig(serverId: string, requestOptions?: RequestOptions): Promise<Record<string, unknown>> {
+    return this.client.get(`/servers/${serverId}/runtime-config`, undefined, requestOptions);
   }
 
-  async getRuntime(serverId: string): Promise<Record<string, unknown>> {
-    return this.client.get(`/servers/${serverId}/runtime`);
+  async getRuntime(serverId: string, requestOptions?: RequestOptions): Promise<Record<string, unknown>> {
+    return this.client.get(`/servers/${serverId}/runtime`, undefined, requestOptions);
   }
 
   async listFiles(
     serverId: string,
     params: { path?: string; depth?: number } = {},
+    requestOptions?: RequestOptions,
   ): Promise<ResourceFileEntry[]> {
     const response = await this.client.get<{ files?: ResourceFileEntry[]; data?: ResourceFileEntry[] }>(
       `/servers/${serverId}/files`,
       params,
+      requestOptions,
     );
     return response.files ?? response.data ?? [];
   }
 
-  async getFileContent(serverId: string, filePath: string): Promise<string> {
+  async getFileContent(serverId: string, filePath: string, requestOptions?: RequestOptions): Promise<string> {
     const encodedPath = filePath
       .replace(/^\/+/, '')
       .split('/')
       .map(encodeURIComponent)
       .join('/');
     const response = await this.client.request<Response>('GET', `/servers/${serverId}/files/content/${encodedPath}`, {
+      ...requestOptions,
       stream: true,
     });
     return response.text();
   }
 
-  async writeFileContent(serverId: string, filePath: string, content: string): Promise<Record<string, unknown>> {
+  async writeFileContent(serverId: string, filePath: string, content: string, requestOptions?: RequestOptions): Promise<Record<string, unknown>> {
     const encodedPath = filePath
       .replace(/^\/+/, '')
       .split('/')
       .map(encodeURIComponent)
       .join('/');
-    return this.client.put(`/servers/${serverId}/files/content/${encodedPath}`, { content });
+    return this.client.put(`/servers/${serverId}/files/content/${encodedPath}`, { content }, requestOptions);
   }
 
-  async downloadFile(serverId: string, filePath: string): Promise<Buffer> {
+  async downloadFile(serverId: string, filePath: string, requestOptions?: RequestOptions): Promise<Buffer> {
     const encodedPath = filePath
       .replace(/^\/+/, '')
       .split('/')
       .map(encodeURIComponent)
       .join('/');
     const response = await this.client.request<Response>('GET', `/servers/${serverId}/files/download/${encodedPath}`, {
+      ...requestOptions,
       stream: true,
     });
     const arrayBuffer = await response.arrayBuffer();
     return Buffer.from(arrayBuffer);
   }
 
-  async uploadFile(params: ResourceFileUploadParams): Promise<Record<string, unknown>> {
+  async uploadFile(params: ResourceFileUploadParams, requestOptions?: RequestOptions): Promise<Record<string, unknown>> {
     const { serverId, filename, content, path, contentType } = params;
     const formData = new FormData();
-    const contentBuffer = typeof content === 'string' ? new TextEncoder().encode(content) : content;
-    const blob = new Blob([contentBuffer], { type: contentType || 'application/octet-stream' });
+    const blob = new Blob([typeof content === 'string' ? content : new Uint8Array(content)], {
+      type: contentType || 'application/octet-stream',
+    });
     formData.append('file', blob, filename);
     if (path) {
       formData.append('path', path);
     }
 
-    const url = `${this.client.getBaseUrl()}/servers/${serverId}/files/upload`;
-    const response = await fetch(url, {
-      method: 'POST',
-      headers: {
-        Authorization: `Bearer ${this.client.getApiKey()}`,
-      },
+    return this.client.request<Record<string, unknown>>('POST', `/servers/${serverId}/files/upload`, {
+      ...requestOptions,
       body: formData,
     });
-
-    if (!response.ok) {
-      const errorData = (await response.json().catch(() => ({ error: response.statusText }))) as {
-        error?: string;
-        message?: string;
-        code?: string;
-        details?: Record<string, unknown>;
-      };
-      throw new Error(errorData.message || errorData.error || `HTTP ${response.status}`);
-    }
-
-    return (await response.json()) as Record<string, unknown>;
   }
 
-  async deleteFile(serverId: string, filePath: string): Promise<Record<string, unknown>> {
+  async deleteFile(serverId: string, filePath: string, requestOptions?: RequestOptions): Promise<Record<string, unknown>> {
     const encodedPath = filePath
       .replace(/^\/+/, '')
       .split('/')
       .map(encodeURIComponent)
       .join('/');
-    return this.client.delete(`/servers/${serverId}/files/${encodedPath}`);
+    return this.client.delete(`/servers/${serverId}/files/${encodedPath}`, requestOptions);
   }
 }
@@ -0,0 +1,123 @@
+/**
+ * Runs Resource Manager
+ *
+ * Read-only access to individual agent runs: the `run.id` returned by
+ * `run()` and `sendMessage()`, with token usage, cost, logs and diffs,
+ * plus cancellation.
+ *
+ * Note: projectId is now embedded in the API key, so routes use
+ * simplified paths without /projects/:projectId prefix.
+ */
+
+import type { ApiClient, RequestOptions } from '../ApiClient';
+import { PageIterator, toPage } from '../pagination';
+import type { Page, PageIteratorOptions } from '../pagination';
+import type {
+  Run,
+  ListRunsParams,
+  RunLogEntry,
+  RunDiff,
+} from '../types';
+
+export class RunsResource {
+  constructor(private readonly client: ApiClient) {}
+
+  /**
+   * List runs, newest first
+   *
+   * Filter by `threadId`, `status`, or an ISO timestamp in `since`.
+   */
+  async list(params?: ListRunsParams, requestOptions?: RequestOptions): Promise<Run[]> {
+    const page = await this.listPage(params, requestOptions);
+    return page.data;
+  }
+
+  /**
+   * List runs, with pagination metadata
+   */
+  async listPage(params: ListRunsParams = {}, requestOptions?: RequestOptions): Promise<Page<Run>> {
+    const response = await this.client.get<{
+      data: Run[];
+      object: string;
+      has_more: boolean;
+      total_count: number;
+    }>(`/runs`, {
+      limit: params.limit,
+      offset: params.offset,
+      threadId: params.threadId,
+      status: params.status,
+      since: params.since,
+    }, requestOptions);
+    return toPage(response.data, response);
+  }
+
+  /**
+   * Iterate over every matching run, fetching pages lazily
+   */
+  listAll(
+    params?: Omit<ListRunsParams, 'limit' | 'offset'>,
+    options?: PageIteratorOptions,
+    requestOptions?: RequestOptions
+  ): PageIterator<Run> {
+    return new PageIterator(
+      (page, pageRequestOptions) => this.listPage({ ...params, ...page }, pageRequestOptions),
+      options,
+      requestOptions
+    );
+  }
+
+  /**
+   * Get a run by ID, including `tokenUsage` and `cost`
+   *
+   * @example
+   * ```typescript
+   * const result = await client.run('Fix the tests');
+   * const run = await client.runs.get(result.run!.id);
+   * console.log(run.tokenUsage, run.cost);
+   * ```
+   */
+  async get(runId: string, requestOptions?: RequestOptions): Promise<Run> {
+    const response = await this.client.get<{ run: Run }>(
+      `/runs/${runId}`,
+      undefined,
+      requestOptions
+    );
+    return response.run;
+  }
+
+  /**
+   * Get execution logs for a run
+   */
+  async getLogs(runId: string, requestOptions?: RequestOptions): Promise<RunLogEntry[]> {
+    const response = await this.client.get<{ logs: RunLogEntry[] }>(
+      `/runs/${runId}/logs`,
+      undefined,
+      requestOptions
+    );
+    return response.logs;
+  }
+
+  /**
+   * Get the file changes a run made
+   */
+  async getDiffs(runId: string, requestOptions?: RequestOptions): Promise<RunDiff[]> {
+    const response = await this.client.get<{ diffs: RunDiff[] }>(
+      `/runs/${runId}/diffs`,
+      undefined,
+      requestOptions
+    );
+    return response.diffs;
+  }
+
+  /**
+   * Cancel a pending or running run
+   */
+  async cancel(runId: string, requestOptions?: RequestOptions): Promise<Run> {
+    const response = await this.client.post<{ run: Run }>(
+      `/runs/${runId}/cancel`,
+      undefined,
+      requestOptions
+    );
+    return response.run;
+  }
+}
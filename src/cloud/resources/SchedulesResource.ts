@@ -8,7 +8,9 @@
  * simplified paths without /projects/:projectId prefix.
  */
 
-import type { ApiClient } from '../ApiClient';
+import type { ApiClient, RequestOptions } from '../ApiClient';
+import { PageIterator, toPage } from '../pagination';
+import type { Page, PageIteratorOptions } from '../pagination';
 import type {
   Schedule,
   CreateScheduleParams,
@@ -23,10 +25,11 @@ export class SchedulesResource {
    *
    * Project is determined automatically from the API key.
    */
-  async create(params: CreateScheduleParams): Promise<Schedule> {
+  async create(params: CreateScheduleParams, requestOptions?: RequestOptions): Promise<Schedule> {
     const response = await this.client.post<{ schedule: Schedule }>(
       `/schedules`,
-      params
+      params,
+      requestOptions
     );
     return response.schedule;
   }
@@ -37,23 +40,52 @@ export class SchedulesResource {
    * Project is determined automatically from the API key.
    */
   async list(
-    params?: { enabled?: boolean; limit?: number; offset?: number }
+    params?: { enabled?: boolean; limit?: number; offset?: number },
+    requestOptions?: RequestOptions
   ): Promise<Schedule[]> {
+    const page = await this.listPage(params, requestOptions);
+    return page.data;
+  }
+
+  /**
+   * List all schedules, with pagination metadata
+   */
+  async listPage(
+    params?: { enabled?: boolean; limit?: number; offset?: number },
+    requestOptions?: RequestOptions
+  ): Promise<Page<Schedule>> {
     const response = await this.client.get<{
       data: Schedule[];
       object: string;
       has_more: boolean;
       total_count: number;
-    }>(`/schedules`, params);
-    return response.data;
+    }>(`/schedules`, params, requestOptions);
+    return toPage(response.data, response);
+  }
+
+  /**
+   * Iterate over every schedule, fetching pages lazily
+   */
+  listAll(
+    params?: { enabled?: boolean },
+    options?: PageIteratorOptions,
+    requestOptions?: RequestOptions
+  ): PageIterator<Schedule> {
+    return new PageIterator(
+      (page, pageRequestOptions) => this.listPage({ ...params, ...page }, pageRequestOptions),
+      options,
+      requestOptions
+    );
   }
 
   /**
    * Get a schedule by ID
    */
-  async get(scheduleId: string): Promise<Schedule> {
+  async get(scheduleId: string, requestOptions?: RequestOptions): Promise<Schedule> {
     const response = await this.client.get<{ schedule: Schedule }>(
-      `/schedules/${scheduleId}`
+      `/schedules/${scheduleId}`,
+      undefined,
+      requestOptions
     );
     return response.schedule;
   }
@@ -63,11 +95,13 @@ export class SchedulesResource {
    */
   async update(
     scheduleId: string,
-    params: UpdateScheduleParams
+    params: UpdateScheduleParams,
+    requestOptions?: RequestOptions
   ): Promise<Schedule> {
     const response = await this.client.patch<{ schedule: Schedule }>(
       `/schedules/${scheduleId}`,
-      params
+      params,
+      requestOptions
     );
     return response.schedule;
   }
@@ -75,8 +109,8 @@ export class SchedulesResource {
   /**
    * Delete a schedule
    */
-  async delete(scheduleId: string): Promise<void> {
-    await this.client.delete(`/schedules/${scheduleId}`);
+  async delete(scheduleId: string, requestOptions?: RequestOptions): Promise<void> {
+    await this.client.delete(`/schedules/${scheduleId}`, requestOptions);
   }
 
   // =========================================================================
@@ -86,23 +120,25 @@ export class SchedulesResource {
   /**
    * Manually trigger a schedule
    */
-  async trigger(scheduleId: string): Promise<{
+  async trigger(scheduleId: string, requestOptions?: RequestOptions): Promise<{
     runId: string;
     triggered: boolean;
   }> {
     const response = await this.client.post<{
       runId: string;
       triggered: boolean;
-    }>(`/schedules/${scheduleId}/trigger`);
+    }>(`/schedules/${scheduleId}/trigger`, undefined, requestOptions);
     return response;
   }
 
   /**
    * Enable a schedule
    */
-  async enable(scheduleId: string): Promise<Schedule> {
+  async enable(scheduleId: string, requestOptions?: RequestOptions): Promise<Schedule> {
     const response = await this.client.patch<{ schedule: Schedule }>(
-      `/schedules/${scheduleId}/enable`
+      `/schedules/${scheduleId}/enable`,
+      undefined,
+      requestOptions
     );
     return response.schedule;
   }
@@ -110,9 +146,11 @@ export class SchedulesResource {
   /**
    * Disable a schedule
    */
-  async disable(scheduleId: string): Promise<Schedule> {
+  async disable(scheduleId: string, requestOptions?: RequestOptions): Promise<Schedule> {
     const response = await this.client.patch<{ schedule: Schedule }>(
-      `/schedules/${scheduleId}/disable`
+      `/schedules/${scheduleId}/disable`,
+      undefined,
+      requestOptions
     );
     return response.schedule;
   }
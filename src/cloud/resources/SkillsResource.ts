@@ -1,4 +1,6 @@
-import type { ApiClient } from '../ApiClient';
+import type { ApiClient, RequestOptions } from '../ApiClient';
+import { PageIterator, toPage } from '../pagination';
+import type { Page, PageIteratorOptions } from '../pagination';
 import type { CreateSkillParams, Skill, SkillCategory, UpdateSkillParams } from '../types';
 
 export interface ListSkillsParams {
@@ -11,12 +13,17 @@ export interface ListSkillsParams {
 export class SkillsResource {
   constructor(private readonly client: ApiClient) {}
 
-  async create(params: CreateSkillParams): Promise<Skill> {
-    const response = await this.client.post<{ skill: Skill }>(`/skills`, params);
+  async create(params: CreateSkillParams, requestOptions?: RequestOptions): Promise<Skill> {
+    const response = await this.client.post<{ skill: Skill }>(`/skills`, params, requestOptions);
     return response.skill;
   }
 
-  async list(params: ListSkillsParams = {}): Promise<Skill[]> {
+  async list(params: ListSkillsParams = {}, requestOptions?: RequestOptions): Promise<Skill[]> {
+    const page = await this.listPage(params, requestOptions);
+    return page.data;
+  }
+
+  async listPage(params: ListSkillsParams = {}, requestOptions?: RequestOptions): Promise<Page<Skill>> {
     const response = await this.client.get<{
       data: Skill[];
       object?: string;
@@ -27,22 +34,34 @@ export class SkillsResource {
       isActive: params.isActive,
       limit: params.limit,
       offset: params.offset,
-    });
-    return response.data;
+    }, requestOptions);
+    return toPage(response.data, response, params.limit);
+  }
+
+  listAll(
+    params: Omit<ListSkillsParams, 'limit' | 'offset'> = {},
+    options?: PageIteratorOptions,
+    requestOptions?: RequestOptions
+  ): PageIterator<Skill> {
+    return new PageIterator(
+      (page, pageRequestOptions) => this.listPage({ ...params, ...page }, pageRequestOptions),
+      options,
+      requestOptions
+    );
   }
 
-  async get(skillId: string): Promise<Skill> {
-    const response = await this.client.get<{ skill: Skill }>(`/skills/${skillId}`);
+  async get(skillId: string, requestOptions?: RequestOptions): Promise<Skill> {
+    const response = await this.client.get<{ skill: Skill }>(`/skills/${skillId}`, undefined, requestOptions);
     return response.skill;
   }
 
-  async update(skillId: string, params: UpdateSkillParams): Promise<Skill> {
-    const response = await this.client.patch<{ skill: Skill }>(`/skills/${skillId}`, params);
+  async update(skillId: string, params: UpdateSkillParams, requestOptions?: RequestOptions): Promise<Skill> {
+    const response = await this.client.patch<{ skill: Skill }>(`/skills/${skillId}`, params, requestOptions);
     return response.skill;
   }
 
-  async delete(skillId: string): Promise<boolean> {
-    const response = await this.client.delete<{ success?: boolean; deleted?: boolean }>(`/skills/${skillId}`);
+  async delete(skillId: string, requestOptions?: RequestOptions): Promise<boolean> {
+    const response = await this.client.delete<{ success?: boolean; deleted?: boolean }>(`/skills/${skillId}`, requestOptions);
     return !!(response.success ?? response.deleted);
   }
 }
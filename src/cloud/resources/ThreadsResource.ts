@@ -8,20 +8,50 @@
  * simplified paths without /projects/:projectId prefix.
  */
 
-import type { ApiClient } from '../ApiClient';
+import { randomUUID } from 'crypto';
+import type { ApiClient, RequestOptions } from '../ApiClient';
+import { prepareAttachments } from '../attachments';
+import type { Attachment, AttachmentUpload } from '../attachments';
+import type { ApprovalHandler, ApprovalPolicy, ApprovalRecord, ApprovalSubmission } from '../approvals';
+import { StreamError, TerminalStateError } from '../errors';
+import { MessageStream } from '../MessageStream';
+import type { MessageStreamInit, PolledRunResult, ReconnectOptions } from '../MessageStream';
+import { PageIterator, toPage } from '../pagination';
+import type { Page, PageIteratorOptions } from '../pagination';
+import { dispatchStreamEvent } from '../streamEvents';
+import type { StreamEventHandlers } from '../streamEvents';
+import { collectStructuredOutput, correctionOptions } from '../structuredOutput';
+import type { StructuredOutputOptions } from '../structuredOutput';
+import { toToolDefinitions } from '../tools';
+import { buildTranscript, renderTranscript } from '../transcript';
+import { detectConversationFormat, fromAnthropicMessages, fromOpenAIMessages } from '../conversationImport';
+import type { AnthropicMessage, OpenAIChatMessage } from '../conversationImport';
+import type { ExportThreadOptions } from '../transcript';
+import { pullPatches } from '../pullChanges';
+import { forkedThreadId, readContextUsage, selectThreshold } from '../contextPolicy';
+import type { ContextPolicy, ContextPolicyEvent } from '../contextPolicy';
+import type { PullChangesOptions, PullChangesResult, PullPatch } from '../pullChanges';
+import type { ClientTool, ToolOutputSubmission } from '../tools';
+import { waitFor } from '../waiters';
+import type { WaitOptions } from '../waiters';
 import type {
   Thread,
   CreateThreadParams,
   UpdateThreadParams,
   ListThreadsParams,
   SendMessageParams,
+  MessageAttachment,
   ThreadMessage,
+  QueuedMessage,
+  QueueMessageParams,
   MessageStreamEvent,
   CopyThreadParams,
   SearchThreadsParams,
   SearchThreadsResponse,
   ThreadLogEntry,
+  ThreadContextEstimate,
   ResearchSession,
+  PaginationParams,
 } from '../types';
 
 /**
@@ -32,28 +62,101 @@ export type StreamEventCallback = (event: MessageStreamEvent) => void;
 /**
  * Options for sendMessage
  */
-export interface SendMessageOptions extends SendMessageParams {
+export interface SendMessageOptions extends Omit<SendMessageParams, 'attachments'> {
+  /**
+   * Files, buffers, images or URLs to send with the message. Small payloads
+   * are inlined and larger ones uploaded to the thread automatically.
+   */
+  attachments?: Attachment[];
+
   /**
    * Callback for handling streaming events
    */
   onEvent?: StreamEventCallback;
 
+  /**
+   * Handlers keyed by event name, e.g. `{ tool_call: (e) => ... }`
+   */
+  on?: StreamEventHandlers;
+
   /**
    * Timeout for the entire streaming operation
    * @default 600000 (10 minutes)
    */
   timeout?: number;
+
+  /**
+   * Abort signal. Aborting stops reading the stream and cancels
+   * the run on the server so the agent does not keep running.
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Recovery when the connection drops mid-run: reconnect with the last
+   * event ID, then fall back to polling. `false` disables recovery.
+   * @default { maxAttempts: 3, initialDelayMs: 1000, pollIntervalMs: 2000 }
+   */
+  reconnect?: ReconnectOptions | false;
+
+  /**
+   * Reject with a `StreamError` if the stream ends without `stream.completed`
+   * and could not be recovered. By default such a run resolves with the
+   * content received so far.
+   * @default false
+   */
+  strict?: boolean;
+
+  /**
+   * Ask for JSON of a given shape and validate it, re-prompting on the same
+   * thread when it does not match. The parsed value is returned as `data`.
+   */
+  output?: StructuredOutputOptions<unknown>;
+
+  /**
+   * Functions the agent can call that run in this process.
+   * Results are posted back to the run automatically.
+   */
+  tools?: ClientTool[];
+
+  /**
+   * Called when the agent pauses before a tool call, file change or
+   * command. Setting this or `approvalPolicy` turns approvals on.
+   */
+  onApprovalRequired?: ApprovalHandler;
+
+  /**
+   * Rules that approve, deny or ask per tool name, path glob or command
+   * pattern, plus the hook timeout and an audit callback
+   */
+  approvalPolicy?: ApprovalPolicy;
+
+  /**
+   * Check context usage before sending and compact, fork or warn when it
+   * crosses a threshold. After a fork the message goes to the new thread.
+   */
+  contextPolicy?: ContextPolicy;
 }
 
+/**
+ * Options for stream()
+ */
+export type StreamMessageOptions = Omit<SendMessageOptions, 'onEvent' | 'on' | 'output'>;
+
 /**
  * Result from sendMessage
  */
-export interface SendMessageResult {
+export interface SendMessageResult<T = undefined> {
   /**
    * The final response content
    */
   content: string;
 
+  /**
+   * Thread the message was sent to. Differs from the requested thread when
+   * a `contextPolicy` forked it.
+   */
+  threadId: string;
+
   /**
    * Run details if available
    */
@@ -68,14 +171,32 @@ export interface SendMessageResult {
 
   /**
    * All events received during streaming
+   * (empty for `stream()`, which does not buffer events)
    */
   events: MessageStreamEvent[];
+
+  /**
+   * Audit records for every approval decided during the run
+   */
+  approvals: ApprovalRecord[];
+
+  /**
+   * Validated structured output, when `output` was requested
+   */
+  data: T;
 }
 
+/**
+ * Thread statuses that mean a run is still in progress
+ */
+const ACTIVE_RUN_STATUSES = ['running', 'pending', 'queued'];
+
 export interface ThreadStatusResult {
   id?: string;
   threadId: string;
   status: string;
+  /** Messages waiting to be picked up, from `steer()` and `queueMessage()` */
+  queuedMessages?: number;
   startedAt?: string | null;
   completedAt?: string | null;
   duration?: string | null;
@@ -94,6 +215,21 @@ export interface ThreadStep {
   metadata?: Record<string, unknown> | null;
 }
 
+/**
+ * Parameters for importing an existing conversation into a new thread
+ */
+export type ImportThreadParams = CreateThreadParams & (
+  | { format: 'openai'; messages: OpenAIChatMessage[] }
+  | {
+      format: 'anthropic';
+      messages: AnthropicMessage[];
+      /** Top-level system prompt from the Anthropic request */
+      system?: string | Array<{ type: 'text'; text: string }>;
+    }
+  /** Format detected from the messages */
+  | { format?: undefined; messages: OpenAIChatMessage[] | AnthropicMessage[] }
+);
+
 export class ThreadsResource {
   constructor(private readonly client: ApiClient) {}
 
@@ -102,10 +238,45 @@ export class ThreadsResource {
    *
    * Project is determined automatically from the API key.
    */
-  async create(params: CreateThreadParams): Promise<Thread> {
+  async create(params: CreateThreadParams, requestOptions?: RequestOptions): Promise<Thread> {
     const response = await this.client.post<{ thread: Thread }>(
       `/threads`,
-      params
+      params,
+      requestOptions
+    );
+    return response.thread;
+  }
+
+  /**
+   * Create a thread with an existing conversation already loaded
+   *
+   * Accepts OpenAI Chat Completions or Anthropic Messages arrays, including
+   * tool calls and tool results. Nothing is run: the next `sendMessage()`
+   * continues from the imported history.
+   *
+   * Requires an API server that provides `POST /threads/import`; servers
+   * without it respond with `NotFoundError`.
+   *
+   * @example
+   * ```typescript
+   * const thread = await client.threads.import({
+   *   environmentId: 'env_xxx',
+   *   format: 'openai',
+   *   messages: chat.messages,
+   * });
+   * await client.threads.sendMessage(thread.id, { content: 'Pick up where we left off' });
+   * ```
+   */
+  async import(params: ImportThreadParams, requestOptions?: RequestOptions): Promise<Thread> {
+    const { environmentId, agentId, title, format, messages } = params;
+    const imported = (format ?? detectConversationFormat(messages)) === 'anthropic'
+      ? fromAnthropicMessages(messages as AnthropicMessage[], 'system' in params ? params.system : undefined)
+      : fromOpenAIMessages(messages as OpenAIChatMessage[]);
+
+    const response = await this.client.post<{ thread: Thread }>(
+      `/threads/import`,
+      { environmentId, agentId, title, messages: imported },
+      requestOptions
     );
     return response.thread;
   }
@@ -115,11 +286,10 @@ export class ThreadsResource {
    *
    * Project is determined automatically from the API key.
    */
-  async list(params: ListThreadsParams = {}): Promise<{
-    data: Thread[];
-    hasMore: boolean;
-    total: number;
-  }> {
+  async list(
+    params: ListThreadsParams = {},
+    requestOptions?: RequestOptions
+  ): Promise<Page<Thread> & { total: number }> {
     const response = await this.client.get<{
       data: Thread[];
       object: string;
@@ -130,7 +300,7 @@ export class ThreadsResource {
       offset: params.offset,
       environmentId: params.environmentId,
       status: params.status,
-    });
+    }, requestOptions);
     return {
       data: response.data,
       hasMore: response.has_more,
@@ -138,12 +308,36 @@ export class ThreadsResource {
     };
   }
 
+  /**
+   * Iterate over every thread, fetching pages lazily
+   *
+   * @example
+   * ```typescript
+   * for await (const thread of client.threads.listAll({ status: 'completed' })) {
+   *   console.log(thread.id);
+   * }
+   * ```
+   */
+  listAll(
+    params: Omit<ListThreadsParams, 'limit' | 'offset'> = {},
+    options?: PageIteratorOptions,
+    requestOptions?: RequestOptions
+  ): PageIterator<Thread> {
+    return new PageIterator(
+      (page, pageRequestOptions) => this.list({ ...params, ...page }, pageRequestOptions),
+      options,
+      requestOptions
+    );
+  }
+
   /**
    * Get a thread by ID with full message history
    */
-  async get(threadId: string): Promise<Thread> {
+  async get(threadId: string, requestOptions?: RequestOptions): Promise<Thread> {
     const response = await this.client.get<{ thread: Thread }>(
-      `/threads/${threadId}`
+      `/threads/${threadId}`,
+      undefined,
+      requestOptions
     );
     return response.thread;
   }
@@ -153,11 +347,13 @@ export class ThreadsResource {
    */
   async update(
     threadId: string,
-    params: UpdateThreadParams
+    params: UpdateThreadParams,
+    requestOptions?: RequestOptions
   ): Promise<Thread> {
     const response = await this.client.patch<{ thread: Thread }>(
       `/threads/${threadId}`,
-      params
+      params,
+      requestOptions
     );
     return response.thread;
   }
@@ -165,25 +361,30 @@ export class ThreadsResource {
   /**
    * Delete a thread (soft delete)
    */
-  async delete(threadId: string): Promise<void> {
-    await this.client.delete(`/threads/${threadId}`);
+  async delete(threadId: string, requestOptions?: RequestOptions): Promise<void> {
+    await this.client.delete(`/threads/${threadId}`, requestOptions);
   }
 
   /**
    * Get message history for a thread
    */
-  async getMessages(threadId: string): Promise<{
-    data: ThreadMessage[];
-    hasMore: boolean;
-    total: number;
-  }> {
+  async getMessages(
+    threadId: string,
+    params: PaginationParams = {},
+    requestOptions?: RequestOptions
+  ): Promise<Page<ThreadMessage> & { total: number }> {
     const response = await this.client.get<{
       data: ThreadMessage[];
       object: string;
       has_more: boolean;
       total_count: number;
     }>(
-      `/threads/${threadId}/messages`
+      `/threads/${threadId}/messages`,
+      {
+        limit: params.limit,
+        offset: params.offset,
+      },
+      requestOptions
     );
     return {
       data: response.data,
@@ -192,6 +393,21 @@ export class ThreadsResource {
     };
   }
 
+  /**
+   * Iterate over a thread's full message history, fetching pages lazily
+   */
+  listAllMessages(
+    threadId: string,
+    options?: PageIteratorOptions,
+    requestOptions?: RequestOptions
+  ): PageIterator<ThreadMessage> {
+    return new PageIterator(
+      (page, pageRequestOptions) => this.getMessages(threadId, page, pageRequestOptions),
+      options,
+      requestOptions
+    );
+  }
+
   /**
    * Send a message to a thread and stream the response
    *
@@ -212,84 +428,238 @@ export class ThreadsResource {
    *   }
    * );
    * console.log('Final response:', result.content);
+   *
+   * // Structured output
+   * const { data } = await client.threads.sendMessage('thread_456', {
+   *   content: 'List the API endpoints you created',
+   *   output: { schema: { type: 'array', items: { type: 'string' } } },
+   * });
    * ```
    */
+  async sendMessage<T = unknown>(
+    threadId: string,
+    options: SendMessageOptions & { output: StructuredOutputOptions<T> }
+  ): Promise<SendMessageResult<T>>;
+  async sendMessage(threadId: string, options: SendMessageOptions): Promise<SendMessageResult>;
   async sendMessage(
     threadId: string,
     options: SendMessageOptions
-  ): Promise<SendMessageResult> {
-    const { onEvent, timeout = 600000, ...params } = options;
+  ): Promise<SendMessageResult<unknown>> {
+    const { output, ...rest } = options;
+    if (output) {
+      // Follow-up prompts go to the thread the previous attempt ran on
+      return collectStructuredOutput<unknown, SendMessageResult>(
+        rest.content,
+        output,
+        (content, previous) => previous
+          ? this.sendMessage(previous.threadId, { ...correctionOptions(rest), content })
+          : this.sendMessage(threadId, { ...rest, content }),
+        (result) => result.threadId
+      );
+    }
 
-    // Make streaming request
-    const response = await this.client.request<Response>(
-      'POST',
-      `/threads/${threadId}/messages`,
-      {
-        body: params,
-        stream: true,
-        timeout,
+    const { onEvent, on, ...streamOptions } = rest;
+    const stream = this.createMessageStream(async () => threadId, streamOptions, { collectEvents: true });
+
+    for await (const event of stream) {
+      // Call event callbacks if provided
+      if (onEvent) {
+        onEvent(event);
       }
-    );
+      if (on) {
+        dispatchStreamEvent(event, on);
+      }
+    }
+
+    return stream.finalResult();
+  }
+
+  /**
+   * Send a message and iterate over the run's events as they arrive
+   *
+   * Events are not buffered, so memory stays flat on long runs.
+   * Leaving the loop early cancels the run on the server.
+   *
+   * @example
+   * ```typescript
+   * const stream = client.threads.stream('thread_456', {
+   *   content: 'Create a REST API with Flask'
+   * });
+   *
+   * for await (const event of stream) {
+   *   if (event.type === 'response.item.completed') {
+   *     console.log(event.item);
+   *   }
+   * }
+   *
+   * const result = await stream.finalResult();
+   * ```
+   */
+  stream(threadId: string, options: StreamMessageOptions): MessageStream {
+    return this.createMessageStream(async () => threadId, options);
+  }
 
-    const events: MessageStreamEvent[] = [];
-    let finalContent = '';
-    let runDetails: SendMessageResult['run'];
+  /**
+   * Build a message stream for a thread that may not exist yet
+   * @internal
+   */
+  createMessageStream(
+    resolveThreadId: () => Promise<string>,
+    options: StreamMessageOptions,
+    extra: Pick<MessageStreamInit, 'collectEvents' | 'parentSpan' | 'onSettled'> = {}
+  ): MessageStream {
+    const {
+      timeout = 600000,
+      signal,
+      reconnect,
+      strict,
+      tools,
+      onApprovalRequired,
+      approvalPolicy,
+      contextPolicy,
+      attachments,
+      ...params
+    } = options;
+    const approvals = onApprovalRequired || approvalPolicy
+      ? { policy: approvalPolicy ?? {}, handler: onApprovalRequired }
+      : undefined;
+    const body: SendMessageParams = {
+      ...params,
+      ...(tools?.length ? { clientTools: toToolDefinitions(tools) } : {}),
+      ...(approvals ? { requireApproval: true } : {}),
+    };
+    // Reconnections reuse the key so the server never starts a second run
+    const idempotencyKey = randomUUID();
+    // Attachments are prepared once; a resumed stream sends the same ones
+    let prepared: Promise<SendMessageParams> | undefined;
+    const bodyFor = (threadId: string) =>
+      (prepared ??= this.withAttachments(threadId, body, attachments, signal));
 
-    // Parse SSE stream
-    const reader = response.body?.getReader();
-    if (!reader) {
-      throw new Error('No response body');
+    return new MessageStream({
+      ...extra,
+      resolveThreadId: contextPolicy
+        ? async () => {
+          const threadId = await resolveThreadId();
+          const event = await this.applyContextPolicy(threadId, contextPolicy, { signal });
+          return event?.forkedThreadId ?? threadId;
+        }
+        : resolveThreadId,
+      open: async (threadId) => this.client.request<Response>(
+        'POST',
+        `/threads/${threadId}/messages`,
+        {
+          body: await bodyFor(threadId),
+          stream: true,
+          timeout,
+          signal,
+          idempotencyKey,
+        }
+      ),
+      resume: async (threadId, { lastEventId, runId }) => this.client.request<Response>(
+        'POST',
+        `/threads/${threadId}/messages`,
+        {
+          body: { ...(await bodyFor(threadId)), runId: runId ?? params.runId },
+          stream: true,
+          timeout,
+          signal,
+          idempotencyKey,
+          retry: false,
+          headers: lastEventId !== undefined ? { 'Last-Event-ID': lastEventId } : undefined,
+        }
+      ),
+      poll: (threadId, pollOptions) => this.pollRunResult(threadId, pollOptions, signal),
+      cancel: (threadId) => this.cancelQuietly(threadId),
+      submitToolOutput: (threadId, submission) => this.submitToolOutput(threadId, submission, { signal }),
+      tools,
+      submitApproval: (threadId, approvalId, submission) =>
+        this.submitApproval(threadId, approvalId, submission, { signal }),
+      approvals,
+      signal,
+      logger: this.client.getLogger(),
+      tracer: this.client.getTracer(),
+      runId: params.runId,
+      reconnect,
+      strict,
+    });
+  }
+
+  /**
+   * Add prepared attachments to a message body
+   */
+  private async withAttachments(
+    threadId: string,
+    body: SendMessageParams,
+    attachments: Attachment[] | undefined,
+    signal?: AbortSignal
+  ): Promise<SendMessageParams> {
+    if (!attachments?.length) {
+      return body;
     }
+    return {
+      ...body,
+      attachments: await prepareAttachments(attachments, (file) => this.uploadAttachment(threadId, file, { signal })),
+    };
+  }
 
-    const decoder = new TextDecoder();
-    let buffer = '';
+  /**
+   * Upload an attachment to a thread for use in a later message.
+   * `sendMessage()` uploads attachments over the inline limit automatically.
+   */
+  async uploadAttachment(
+    threadId: string,
+    file: AttachmentUpload,
+    requestOptions?: RequestOptions
+  ): Promise<MessageAttachment> {
+    const formData = new FormData();
+    formData.append('file', new Blob([new Uint8Array(file.data)], { type: file.mimeType }), file.name);
+
+    // FormData bodies go through the client pipeline without JSON encoding
+    const response = await this.client.request<{
+      attachment: { id: string; name: string; mimeType: string; size: number };
+    }>('POST', `/threads/${threadId}/attachments`, { ...requestOptions, body: formData });
+    return { type: 'upload', ...response.attachment };
+  }
 
+  /**
+   * Wait for a run to finish by polling the thread status, then read the
+   * final assistant message. Used when an interrupted stream cannot resume.
+   */
+  private async pollRunResult(
+    threadId: string,
+    options: Required<ReconnectOptions>,
+    signal?: AbortSignal
+  ): Promise<PolledRunResult> {
+    let status: string;
     try {
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-
-        buffer += decoder.decode(value, { stream: true });
-        const lines = buffer.split('\n');
-        buffer = lines.pop() || '';
-
-        for (const line of lines) {
-          if (line.startsWith('data: ')) {
-            try {
-              const data = JSON.parse(line.slice(6)) as MessageStreamEvent;
-              events.push(data);
-
-              // Call event callback if provided
-              if (onEvent) {
-                onEvent(data);
-              }
-
-              // Extract final content and run details
-              if (data.type === 'response.completed') {
-                finalContent = (data as any).response?.content || '';
-              } else if (data.type === 'stream.completed') {
-                runDetails = (data as any).run;
-              } else if (data.type === 'stream.error') {
-                throw new Error((data as any).message || (data as any).error);
-              }
-            } catch (parseError) {
-              // Ignore parse errors for non-JSON lines
-              if (line.slice(6).trim()) {
-                console.warn('Failed to parse SSE data:', line);
-              }
-            }
-          }
-        }
+      ({ status } = await waitFor({
+        description: `run on thread ${threadId}`,
+        failureCode: 'RUN_FAILED',
+        poll: (requestOptions) => this.getStatus(threadId, requestOptions),
+        // A paused run has not produced its answer yet; wait for it to resume
+        check: ({ status }) => ACTIVE_RUN_STATUSES.includes(status) || status === 'paused'
+          ? 'pending'
+          : status === 'failed' ? 'failed' : 'done',
+      }, {
+        initialDelayMs: options.pollIntervalMs,
+        multiplier: 1,
+        timeoutMs: options.pollTimeoutMs,
+        signal,
+      }));
+    } catch (error) {
+      if (error instanceof TerminalStateError) {
+        throw new StreamError(`Run failed on thread ${threadId}`, 'RUN_FAILED', { threadId });
       }
-    } finally {
-      reader.releaseLock();
+      throw error;
     }
 
-    return {
-      content: finalContent,
-      run: runDetails,
-      events,
-    };
+    let content = '';
+    for await (const message of this.listAllMessages(threadId, undefined, { signal })) {
+      if (message.role === 'assistant') {
+        content = message.content;
+      }
+    }
+    return { status, content };
   }
 
   /**
@@ -321,11 +691,13 @@ export class ThreadsResource {
    */
   async copy(
     threadId: string,
-    params?: CopyThreadParams
+    params?: CopyThreadParams,
+    requestOptions?: RequestOptions
   ): Promise<Thread> {
     const response = await this.client.post<{ thread: Thread }>(
       `/threads/${threadId}/copy`,
-      params
+      params,
+      requestOptions
     );
     return response.thread;
   }
@@ -348,10 +720,11 @@ export class ThreadsResource {
    * }
    * ```
    */
-  async search(params: SearchThreadsParams): Promise<SearchThreadsResponse> {
+  async search(params: SearchThreadsParams, requestOptions?: RequestOptions): Promise<SearchThreadsResponse> {
     const response = await this.client.post<SearchThreadsResponse>(
       `/threads/search`,
-      params
+      params,
+      requestOptions
     );
     return response;
   }
@@ -362,9 +735,11 @@ export class ThreadsResource {
    * Returns logs with role separation (user, assistant, execution_log)
    * and relative timestamps from thread start time.
    */
-  async getLogs(threadId: string): Promise<ThreadLogEntry[]> {
+  async getLogs(threadId: string, requestOptions?: RequestOptions): Promise<ThreadLogEntry[]> {
     const response = await this.client.get<{ logs: ThreadLogEntry[] }>(
-      `/threads/${threadId}/logs`
+      `/threads/${threadId}/logs`,
+      undefined,
+      requestOptions
     );
     return response.logs;
   }
@@ -372,8 +747,31 @@ export class ThreadsResource {
   /**
    * Get execution status for a thread.
    */
-  async getStatus(threadId: string): Promise<ThreadStatusResult> {
-    return this.client.get(`/threads/${threadId}/status`);
+  async getStatus(threadId: string, requestOptions?: RequestOptions): Promise<ThreadStatusResult> {
+    return this.client.get(`/threads/${threadId}/status`, undefined, requestOptions);
+  }
+
+  /**
+   * Wait until the thread has no run in progress
+   *
+   * Resolves with the final status, including `cancelled`. Throws
+   * `TerminalStateError` (`RUN_FAILED`) if the run failed.
+   *
+   * @example
+   * ```typescript
+   * const status = await client.threads.waitForIdle('thread_456', {
+   *   timeoutMs: 300000,
+   *   onProgress: (s) => console.log(s.status),
+   * });
+   * ```
+   */
+  async waitForIdle(threadId: string, options: WaitOptions<ThreadStatusResult> = {}): Promise<ThreadStatusResult> {
+    return waitFor({
+      description: `run on thread ${threadId}`,
+      failureCode: 'RUN_FAILED',
+      poll: (requestOptions) => this.getStatus(threadId, requestOptions),
+      check: ({ status }) => ACTIVE_RUN_STATUSES.includes(status) ? 'pending' : status === 'failed' ? 'failed' : 'done',
+    }, options);
   }
 
   /**
@@ -382,19 +780,44 @@ export class ThreadsResource {
   async listSteps(
     threadId: string,
     params: { limit?: number; offset?: number } = {},
+    requestOptions?: RequestOptions,
   ): Promise<ThreadStep[]> {
-    const response = await this.client.get<{ data: ThreadStep[] }>(`/threads/${threadId}/steps`, params);
+    const response = await this.client.get<{ data: ThreadStep[] }>(`/threads/${threadId}/steps`, params, requestOptions);
     return response.data;
   }
 
+  /**
+   * Iterate over every step of a thread, fetching pages lazily
+   */
+  listAllSteps(
+    threadId: string,
+    options?: PageIteratorOptions,
+    requestOptions?: RequestOptions,
+  ): PageIterator<ThreadStep> {
+    return new PageIterator(
+      async (page, pageRequestOptions) => {
+        const response = await this.client.get<{
+          data: ThreadStep[];
+          has_more?: boolean;
+          total_count?: number;
+        }>(`/threads/${threadId}/steps`, page, pageRequestOptions);
+        return toPage(response.data, response, page.limit);
+      },
+      options,
+      requestOptions,
+    );
+  }
+
   async listStepFiles(
     threadId: string,
     stepId: string,
     params: { prefix?: string } = {},
+    requestOptions?: RequestOptions,
   ): Promise<Array<Record<string, unknown>>> {
     const response = await this.client.get<{ data: Array<Record<string, unknown>> }>(
       `/threads/${threadId}/steps/${stepId}/files`,
       params,
+      requestOptions,
     );
     return response.data;
   }
@@ -403,24 +826,73 @@ export class ThreadsResource {
     threadId: string,
     stepId: string,
     params: { path?: string } = {},
+    requestOptions?: RequestOptions,
   ): Promise<Record<string, unknown>> {
-    return this.client.get(`/threads/${threadId}/steps/${stepId}/diff`, params);
+    return this.client.get(`/threads/${threadId}/steps/${stepId}/diff`, params, requestOptions);
   }
 
-  async getStepFile(threadId: string, stepId: string, path: string): Promise<{
+  /**
+   * Replay a thread's changes as commits on a new local git branch
+   *
+   * Each step with a diff becomes one commit, titled with the step title and
+   * the thread title. Files that conflict with local edits or with earlier
+   * commits are left out and listed in `conflicts`.
+   *
+   * @example
+   * ```typescript
+   * const { commits, conflicts } = await client.threads.pullChanges('thread_xxx', {
+   *   repoDir: './my-repo',
+   *   branch: 'agent/fix-tests',
+   * });
+   * ```
+   */
+  async pullChanges(
+    threadId: string,
+    options: PullChangesOptions & {
+      /** Only pull these steps. Defaults to every step. */
+      stepIds?: string[];
+    },
+    requestOptions?: RequestOptions,
+  ): Promise<PullChangesResult> {
+    const [thread, steps] = await Promise.all([
+      this.get(threadId, requestOptions),
+      this.listAllSteps(threadId, undefined, requestOptions).toArray(),
+    ]);
+    const selected = steps
+      .filter((step) => !options.stepIds || options.stepIds.includes(step.id))
+      .sort((a, b) => (a.sequence ?? 0) - (b.sequence ?? 0));
+
+    const patches: PullPatch[] = [];
+    for (const step of selected) {
+      const { diff } = await this.getStepDiff(threadId, step.id, {}, requestOptions);
+      if (typeof diff === 'string' && diff.trim()) {
+        patches.push({
+          sourceId: step.id,
+          diff,
+          subject: step.title || `Step ${step.sequence ?? step.id}`,
+          body: `Thread: ${thread.title || threadId}\nThread-Id: ${threadId}\nStep-Id: ${step.id}`,
+        });
+      }
+    }
+
+    return pullPatches(patches, options);
+  }
+
+  async getStepFile(threadId: string, stepId: string, path: string, requestOptions?: RequestOptions): Promise<{
     path: string;
     snapshotId?: string | null;
     stepId: string;
     content: string;
   }> {
-    return this.client.get(`/threads/${threadId}/steps/${stepId}/file`, { path });
+    return this.client.get(`/threads/${threadId}/steps/${stepId}/file`, { path }, requestOptions);
   }
 
-  async downloadStepFile(threadId: string, stepId: string, path: string): Promise<Buffer> {
+  async downloadStepFile(threadId: string, stepId: string, path: string, requestOptions?: RequestOptions): Promise<Buffer> {
     const response = await this.client.request<Response>(
       'GET',
       `/threads/${threadId}/steps/${stepId}/file/download`,
       {
+        ...requestOptions,
         query: { path },
         stream: true,
       },
@@ -433,8 +905,9 @@ export class ThreadsResource {
     threadId: string,
     stepId: string,
     params: { mode?: 'historical' | 'latest'; title?: string | null; environmentName?: string | null } = {},
+    requestOptions?: RequestOptions,
   ): Promise<Record<string, unknown>> {
-    return this.client.post(`/threads/${threadId}/steps/${stepId}/fork`, params);
+    return this.client.post(`/threads/${threadId}/steps/${stepId}/fork`, params, requestOptions);
   }
 
   async revertToStep(
@@ -446,14 +919,16 @@ export class ThreadsResource {
       revertedFilePath?: string | null;
       revertedFileName?: string | null;
     } = {},
+    requestOptions?: RequestOptions,
   ): Promise<Record<string, unknown>> {
-    return this.client.post(`/threads/${threadId}/steps/${stepId}/revert`, params);
+    return this.client.post(`/threads/${threadId}/steps/${stepId}/revert`, params, requestOptions);
   }
 
   async getFileHistory(
     threadId: string,
     path: string,
     params: { limit?: number; offset?: number } = {},
+    requestOptions?: RequestOptions,
   ): Promise<{
     data: Array<Record<string, unknown>>;
     total: number;
@@ -463,7 +938,7 @@ export class ThreadsResource {
       data: Array<Record<string, unknown>>;
       total_count: number;
       has_more: boolean;
-    }>(`/threads/${threadId}/files/history`, { path, ...params });
+    }>(`/threads/${threadId}/files/history`, { path, ...params }, requestOptions);
     return {
       data: response.data,
       total: response.total_count,
@@ -471,45 +946,154 @@ export class ThreadsResource {
     };
   }
 
-  async forkFromMessage(threadId: string, params: Record<string, unknown>): Promise<Record<string, unknown>> {
-    return this.client.post(`/threads/${threadId}/fork-from-message`, params);
+  async forkFromMessage(threadId: string, params: Record<string, unknown>, requestOptions?: RequestOptions): Promise<Record<string, unknown>> {
+    return this.client.post(`/threads/${threadId}/fork-from-message`, params, requestOptions);
   }
 
-  async getContextEstimate(threadId: string): Promise<Record<string, unknown>> {
-    return this.client.get(`/threads/${threadId}/context`);
+  async getContextEstimate(threadId: string, requestOptions?: RequestOptions): Promise<ThreadContextEstimate> {
+    return this.client.get(`/threads/${threadId}/context`, undefined, requestOptions);
   }
 
-  async getContextDetails(threadId: string): Promise<Record<string, unknown>> {
-    return this.client.get(`/threads/${threadId}/context/details`);
+  async getContextDetails(threadId: string, requestOptions?: RequestOptions): Promise<Record<string, unknown>> {
+    return this.client.get(`/threads/${threadId}/context/details`, undefined, requestOptions);
   }
 
   async runContextAction(
     threadId: string,
     params: { action: 'compact' | 'clear' | 'fork' | 'btw'; prompt?: string | null; title?: string | null },
+    requestOptions?: RequestOptions,
   ): Promise<Record<string, unknown>> {
-    return this.client.post(`/threads/${threadId}/context/actions`, params);
+    return this.client.post(`/threads/${threadId}/context/actions`, params, requestOptions);
+  }
+
+  /**
+   * Check a thread's context usage against a policy and act on the highest
+   * threshold reached. Returns what was done, or `undefined` when usage is
+   * below every threshold or the estimate has no token counts.
+   *
+   * `sendMessage()`, `stream()` and `run()` call this before each message
+   * when given a `contextPolicy`.
+   *
+   * @example
+   * ```typescript
+   * const event = await client.threads.applyContextPolicy('thread_xxx', {
+   *   thresholds: [{ usage: 0.8, action: 'compact' }],
+   * });
+   * console.log(event?.tokensSaved);
+   * ```
+   */
+  async applyContextPolicy(
+    threadId: string,
+    policy: ContextPolicy,
+    requestOptions?: RequestOptions,
+  ): Promise<ContextPolicyEvent | undefined> {
+    const before = readContextUsage(await this.getContextEstimate(threadId, requestOptions), policy.contextWindow);
+    const threshold = before && selectThreshold(policy, before);
+    if (!before || !threshold) {
+      return undefined;
+    }
+
+    const event: ContextPolicyEvent = {
+      action: threshold.action,
+      threadId,
+      threshold: threshold.usage,
+      usage: before.tokens / before.contextWindow,
+      contextWindow: before.contextWindow,
+      tokensBefore: before.tokens,
+    };
+
+    if (threshold.action !== 'warn') {
+      let measuredThreadId = threadId;
+      if (threshold.action === 'compact') {
+        await this.runContextAction(threadId, { action: 'compact', prompt: policy.summaryPrompt }, requestOptions);
+      } else {
+        const response = await this.runContextAction(
+          threadId,
+          { action: 'fork', prompt: policy.summaryPrompt, title: policy.forkTitle },
+          requestOptions,
+        );
+        event.forkedThreadId = forkedThreadId(response);
+        measuredThreadId = event.forkedThreadId;
+      }
+      const after = readContextUsage(await this.getContextEstimate(measuredThreadId, requestOptions), before.contextWindow);
+      if (after) {
+        event.tokensAfter = after.tokens;
+        event.tokensSaved = before.tokens - after.tokens;
+      }
+    }
+
+    const logger = this.client.getLogger();
+    if (threshold.action === 'warn') {
+      logger.warn('context window nearly full', { ...event });
+    } else {
+      logger.info('context policy applied', { ...event });
+    }
+    try {
+      policy.onAction?.(event);
+    } catch (error) {
+      logger.warn('context policy callback failed', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+    return event;
   }
 
   async generateTitle(
     threadId: string,
     params: { message: string; content?: string; task?: string; force?: boolean },
+    requestOptions?: RequestOptions,
   ): Promise<Record<string, unknown>> {
-    return this.client.post(`/threads/${threadId}/generate-title`, params);
+    return this.client.post(`/threads/${threadId}/generate-title`, params, requestOptions);
   }
 
-  async getDiffs(threadId: string): Promise<Array<Record<string, unknown>>> {
+  async getDiffs(threadId: string, requestOptions?: RequestOptions): Promise<Array<Record<string, unknown>>> {
     const response = await this.client.get<{ diffs?: Array<Record<string, unknown>>; data?: Array<Record<string, unknown>> }>(
       `/threads/${threadId}/diffs`,
+      undefined,
+      requestOptions,
     );
     return response.diffs ?? response.data ?? [];
   }
 
+  /**
+   * Export a thread as a Markdown, JSONL or self-contained HTML transcript
+   *
+   * Combines the thread, its messages, steps, diffs and execution logs, with
+   * tool calls, timings and token and cost totals. Secrets are masked unless
+   * `redactSecrets` is `false`.
+   *
+   * @example
+   * ```typescript
+   * const html = await client.threads.export('thread_456', { format: 'html', includeLogs: false });
+   * await writeFile('incident-1234.html', html);
+   * ```
+   */
+  async export(
+    threadId: string,
+    options: ExportThreadOptions = {},
+    requestOptions?: RequestOptions
+  ): Promise<string> {
+    const includeLogs = options.includeLogs !== false;
+    const [thread, messages, steps, diffs, logs] = await Promise.all([
+      this.get(threadId, requestOptions),
+      this.listAllMessages(threadId, undefined, requestOptions).toArray(),
+      this.listAllSteps(threadId, undefined, requestOptions).toArray(),
+      this.getDiffs(threadId, requestOptions),
+      includeLogs ? this.getLogs(threadId, requestOptions) : Promise.resolve([]),
+    ]);
+
+    const transcript = buildTranscript({ thread, messages, steps, diffs, logs }, options);
+    return renderTranscript(transcript, options.format);
+  }
+
   /**
    * List deep research sessions for a thread
    */
-  async listResearch(threadId: string): Promise<ResearchSession[]> {
+  async listResearch(threadId: string, requestOptions?: RequestOptions): Promise<ResearchSession[]> {
     const response = await this.client.get<{ sessions: ResearchSession[] }>(
-      `/threads/${threadId}/research`
+      `/threads/${threadId}/research`,
+      undefined,
+      requestOptions
     );
     return response.sessions;
   }
@@ -519,39 +1103,168 @@ export class ThreadsResource {
    */
   async getResearch(
     threadId: string,
-    sessionId: string
+    sessionId: string,
+    requestOptions?: RequestOptions
   ): Promise<ResearchSession> {
     const response = await this.client.get<{ session: ResearchSession }>(
-      `/threads/${threadId}/research/${sessionId}`
+      `/threads/${threadId}/research/${sessionId}`,
+      undefined,
+      requestOptions
     );
     return response.session;
   }
 
+  /**
+   * Wait for a deep research session to complete
+   *
+   * Throws `TerminalStateError` (`RESEARCH_FAILED`) if the session fails or
+   * is cancelled.
+   */
+  async waitForResearch(
+    threadId: string,
+    sessionId: string,
+    options: WaitOptions<ResearchSession> = {}
+  ): Promise<ResearchSession> {
+    return waitFor({
+      description: `research session ${sessionId}`,
+      failureCode: 'RESEARCH_FAILED',
+      failureReason: (session) => session.status,
+      poll: (requestOptions) => this.getResearch(threadId, sessionId, requestOptions),
+      check: ({ status }) => status === 'completed' ? 'done' : status === 'failed' || status === 'cancelled' ? 'failed' : 'pending',
+    }, options);
+  }
+
   /**
    * Delete a deep research session
    */
   async deleteResearch(
     threadId: string,
-    sessionId: string
+    sessionId: string,
+    requestOptions?: RequestOptions
   ): Promise<void> {
     await this.client.delete(
-      `/threads/${threadId}/research/${sessionId}`
+      `/threads/${threadId}/research/${sessionId}`,
+      requestOptions
     );
   }
 
   /**
    * Cancel an in-progress message execution
    */
-  async cancel(threadId: string): Promise<void> {
-    await this.client.post(`/threads/${threadId}/cancel`);
+  async cancel(threadId: string, requestOptions?: RequestOptions): Promise<void> {
+    await this.client.post(`/threads/${threadId}/cancel`, undefined, requestOptions);
+  }
+
+  /**
+   * Pause the run in progress. The agent stops after its current step and
+   * keeps its context; `resume()` continues from there.
+   */
+  async pause(threadId: string, requestOptions?: RequestOptions): Promise<Thread> {
+    const response = await this.client.post<{ thread: Thread }>(
+      `/threads/${threadId}/pause`,
+      undefined,
+      requestOptions
+    );
+    return response.thread;
+  }
+
+  /**
+   * Send a message to the run in progress without starting a new turn. The
+   * agent reads it before its next step.
+   *
+   * @example
+   * ```typescript
+   * await client.threads.steer('thread_456', 'Skip the e2e tests, they need a browser');
+   * ```
+   */
+  async steer(threadId: string, content: string, requestOptions?: RequestOptions): Promise<QueuedMessage> {
+    return this.queueMessage(threadId, { content, mode: 'steer' }, requestOptions);
+  }
+
+  /**
+   * Queue a message for a busy thread. With the default `next_turn` mode it
+   * is sent as a new turn once the current run finishes.
+   */
+  async queueMessage(
+    threadId: string,
+    params: QueueMessageParams,
+    requestOptions?: RequestOptions
+  ): Promise<QueuedMessage> {
+    const response = await this.client.post<{ message: QueuedMessage }>(
+      `/threads/${threadId}/queue`,
+      { content: params.content, mode: params.mode ?? 'next_turn' },
+      requestOptions
+    );
+    return response.message;
+  }
+
+  /**
+   * List messages that have not been picked up yet, oldest first
+   */
+  async listQueuedMessages(threadId: string, requestOptions?: RequestOptions): Promise<QueuedMessage[]> {
+    const response = await this.client.get<{ data: QueuedMessage[] }>(
+      `/threads/${threadId}/queue`,
+      undefined,
+      requestOptions
+    );
+    return response.data;
+  }
+
+  /**
+   * Remove one queued message before it is picked up
+   */
+  async deleteQueuedMessage(threadId: string, messageId: string, requestOptions?: RequestOptions): Promise<void> {
+    await this.client.delete(`/threads/${threadId}/queue/${messageId}`, requestOptions);
+  }
+
+  /**
+   * Remove every queued message. Returns how many were removed.
+   */
+  async clearQueue(threadId: string, requestOptions?: RequestOptions): Promise<number> {
+    const response = await this.client.delete<{ deleted?: number }>(`/threads/${threadId}/queue`, requestOptions);
+    return response?.deleted ?? 0;
+  }
+
+  /**
+   * Send the result of a client-side tool call back to a waiting run.
+   * `run()`, `sendMessage()` and `stream()` do this automatically for `tools`.
+   */
+  async submitToolOutput(
+    threadId: string,
+    submission: ToolOutputSubmission,
+    requestOptions?: RequestOptions
+  ): Promise<void> {
+    await this.client.post(`/threads/${threadId}/tool-outputs`, submission, requestOptions);
+  }
+
+  /**
+   * Approve or deny an action a paused run is waiting on.
+   * `onApprovalRequired` and `approvalPolicy` do this automatically.
+   */
+  async submitApproval(
+    threadId: string,
+    approvalId: string,
+    submission: ApprovalSubmission,
+    requestOptions?: RequestOptions
+  ): Promise<void> {
+    await this.client.post(`/threads/${threadId}/approvals/${approvalId}`, submission, requestOptions);
+  }
+
+  /**
+   * Best-effort server-side cancel used when a caller aborts or abandons a stream
+   */
+  private async cancelQuietly(threadId: string): Promise<void> {
+    await this.cancel(threadId).catch(() => undefined);
   }
 
   /**
-   * Resume a thread (useful after server restart)
+   * Resume a paused thread, or one interrupted by a server restart
    */
-  async resume(threadId: string): Promise<Thread> {
+  async resume(threadId: string, requestOptions?: RequestOptions): Promise<Thread> {
     const response = await this.client.post<{ thread: Thread }>(
-      `/threads/${threadId}/resume`
+      `/threads/${threadId}/resume`,
+      undefined,
+      requestOptions
     );
     return response.thread;
   }
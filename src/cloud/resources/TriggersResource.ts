@@ -8,7 +8,11 @@
  * simplified paths without /projects/:projectId prefix.
  */
 
-import type { ApiClient } from '../ApiClient';
+import type { ApiClient, RequestOptions } from '../ApiClient';
+import { PageIterator, toPage } from '../pagination';
+import type { Page, PageIteratorOptions } from '../pagination';
+import { waitFor } from '../waiters';
+import type { WaitOptions } from '../waiters';
 import type {
   Trigger,
   CreateTriggerParams,
@@ -22,10 +26,11 @@ export class TriggersResource {
   /**
    * Create a new trigger
    */
-  async create(params: CreateTriggerParams): Promise<Trigger> {
+  async create(params: CreateTriggerParams, requestOptions?: RequestOptions): Promise<Trigger> {
     const response = await this.client.post<{ trigger: Trigger }>(
       `/triggers`,
-      params
+      params,
+      requestOptions
     );
     return response.trigger;
   }
@@ -34,23 +39,52 @@ export class TriggersResource {
    * List all triggers
    */
   async list(
-    params?: { environmentId?: string; enabled?: boolean; limit?: number; offset?: number }
+    params?: { environmentId?: string; enabled?: boolean; limit?: number; offset?: number },
+    requestOptions?: RequestOptions
   ): Promise<Trigger[]> {
+    const page = await this.listPage(params, requestOptions);
+    return page.data;
+  }
+
+  /**
+   * List all triggers, with pagination metadata
+   */
+  async listPage(
+    params?: { environmentId?: string; enabled?: boolean; limit?: number; offset?: number },
+    requestOptions?: RequestOptions
+  ): Promise<Page<Trigger>> {
     const response = await this.client.get<{
       data: Trigger[];
       object: string;
       has_more: boolean;
       total_count: number;
-    }>(`/triggers`, params);
-    return response.data;
+    }>(`/triggers`, params, requestOptions);
+    return toPage(response.data, response);
+  }
+
+  /**
+   * Iterate over every trigger, fetching pages lazily
+   */
+  listAll(
+    params?: { environmentId?: string; enabled?: boolean },
+    options?: PageIteratorOptions,
+    requestOptions?: RequestOptions
+  ): PageIterator<Trigger> {
+    return new PageIterator(
+      (page, pageRequestOptions) => this.listPage({ ...params, ...page }, pageRequestOptions),
+      options,
+      requestOptions
+    );
   }
 
   /**
    * Get a trigger by ID
    */
-  async get(triggerId: string): Promise<Trigger> {
+  async get(triggerId: string, requestOptions?: RequestOptions): Promise<Trigger> {
     const response = await this.client.get<{ trigger: Trigger }>(
-      `/triggers/${triggerId}`
+      `/triggers/${triggerId}`,
+      undefined,
+      requestOptions
     );
     return response.trigger;
   }
@@ -60,11 +94,13 @@ export class TriggersResource {
    */
   async update(
     triggerId: string,
-    params: UpdateTriggerParams
+    params: UpdateTriggerParams,
+    requestOptions?: RequestOptions
   ): Promise<Trigger> {
     const response = await this.client.patch<{ trigger: Trigger }>(
       `/triggers/${triggerId}`,
-      params
+      params,
+      requestOptions
     );
     return response.trigger;
   }
@@ -72,8 +108,8 @@ export class TriggersResource {
   /**
    * Delete a trigger
    */
-  async delete(triggerId: string): Promise<void> {
-    await this.client.delete(`/triggers/${triggerId}`);
+  async delete(triggerId: string, requestOptions?: RequestOptions): Promise<void> {
+    await this.client.delete(`/triggers/${triggerId}`, requestOptions);
   }
 
   // =========================================================================
@@ -83,9 +119,11 @@ export class TriggersResource {
   /**
    * Enable a trigger
    */
-  async enable(triggerId: string): Promise<Trigger> {
+  async enable(triggerId: string, requestOptions?: RequestOptions): Promise<Trigger> {
     const response = await this.client.patch<{ trigger: Trigger }>(
-      `/triggers/${triggerId}/enable`
+      `/triggers/${triggerId}/enable`,
+      undefined,
+      requestOptions
     );
     return response.trigger;
   }
@@ -93,9 +131,11 @@ export class TriggersResource {
   /**
    * Disable a trigger
    */
-  async disable(triggerId: string): Promise<Trigger> {
+  async disable(triggerId: string, requestOptions?: RequestOptions): Promise<Trigger> {
     const response = await this.client.patch<{ trigger: Trigger }>(
-      `/triggers/${triggerId}/disable`
+      `/triggers/${triggerId}/disable`,
+      undefined,
+      requestOptions
     );
     return response.trigger;
   }
@@ -103,10 +143,11 @@ export class TriggersResource {
   /**
    * Test-fire a trigger with an optional payload
    */
-  async test(triggerId: string, payload?: Record<string, unknown>): Promise<TriggerExecution> {
+  async test(triggerId: string, payload?: Record<string, unknown>, requestOptions?: RequestOptions): Promise<TriggerExecution> {
     const response = await this.client.post<{ execution: TriggerExecution }>(
       `/triggers/${triggerId}/test`,
-      payload ? { payload } : undefined
+      payload ? { payload } : undefined,
+      requestOptions
     );
     return response.execution;
   }
@@ -120,14 +161,73 @@ export class TriggersResource {
    */
   async listExecutions(
     triggerId: string,
-    params?: { limit?: number; offset?: number }
+    params?: { limit?: number; offset?: number },
+    requestOptions?: RequestOptions
   ): Promise<TriggerExecution[]> {
+    const page = await this.listExecutionsPage(triggerId, params, requestOptions);
+    return page.data;
+  }
+
+  /**
+   * List past executions for a trigger, with pagination metadata
+   */
+  async listExecutionsPage(
+    triggerId: string,
+    params?: { limit?: number; offset?: number },
+    requestOptions?: RequestOptions
+  ): Promise<Page<TriggerExecution>> {
     const response = await this.client.get<{
       data: TriggerExecution[];
       object: string;
       has_more: boolean;
       total_count: number;
-    }>(`/triggers/${triggerId}/executions`, params);
-    return response.data;
+    }>(`/triggers/${triggerId}/executions`, params, requestOptions);
+    return toPage(response.data, response);
+  }
+
+  /**
+   * Iterate over every execution of a trigger, fetching pages lazily
+   */
+  listAllExecutions(
+    triggerId: string,
+    options?: PageIteratorOptions,
+    requestOptions?: RequestOptions
+  ): PageIterator<TriggerExecution> {
+    return new PageIterator(
+      (page, pageRequestOptions) => this.listExecutionsPage(triggerId, page, pageRequestOptions),
+      options,
+      requestOptions
+    );
+  }
+
+  /**
+   * Wait for a trigger execution, e.g. one started by `test()`, to finish
+   *
+   * Throws `TerminalStateError` (`TRIGGER_EXECUTION_FAILED`) if it fails.
+   */
+  async waitForExecution(
+    triggerId: string,
+    executionId: string,
+    options: WaitOptions<TriggerExecution> = {}
+  ): Promise<TriggerExecution> {
+    const { onProgress, ...waitOptions } = options;
+    const execution = await waitFor<TriggerExecution | undefined>({
+      description: `execution ${executionId} of trigger ${triggerId}`,
+      failureCode: 'TRIGGER_EXECUTION_FAILED',
+      poll: async (requestOptions) => {
+        for await (const candidate of this.listAllExecutions(triggerId, undefined, requestOptions)) {
+          if (candidate.id === executionId) {
+            return candidate;
+          }
+        }
+        // Not listed yet
+        return undefined;
+      },
+      check: (candidate) => candidate?.status === 'completed' ? 'done' : candidate?.status === 'failed' ? 'failed' : 'pending',
+    }, {
+      ...waitOptions,
+      onProgress: onProgress && ((candidate, attempt) => candidate && onProgress(candidate, attempt)),
+    });
+    return execution!;
   }
 }
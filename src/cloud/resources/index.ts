@@ -9,7 +9,8 @@ export { EnvironmentsResource } from './EnvironmentsResource';
 export { EnvironmentsResource as ComputersResource } from './EnvironmentsResource';
 export type { ListEnvironmentsParams, ListEnvironmentChangesParams } from './EnvironmentsResource';
 export { ThreadsResource } from './ThreadsResource';
-export type { StreamEventCallback, SendMessageOptions, SendMessageResult } from './ThreadsResource';
+export type { StreamEventCallback, SendMessageOptions, SendMessageResult, StreamMessageOptions, ImportThreadParams, ThreadStep } from './ThreadsResource';
+export { RunsResource } from './RunsResource';
 export { AgentsResource } from './AgentsResource';
 export { ResourcesResource } from './ResourcesResource';
 export type { ListResourcesParams, ResourceInvokeParams, ResourceFileUploadParams } from './ResourcesResource';
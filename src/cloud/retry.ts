@@ -0,0 +1,138 @@
+/**
+ * Retry policy for the Computer Agents Cloud API client
+ *
+ * Retries use exponential backoff with full jitter and honour the
+ * `Retry-After` header sent with 429 and 503 responses. By default only
+ * idempotent methods are retried; POST requests become retryable when they
+ * carry an `Idempotency-Key` header.
+ */
+
+export interface RetryOptions {
+  /**
+   * Maximum number of retries after the first attempt
+   * @default 2
+   */
+  maxRetries?: number;
+
+  /**
+   * Delay before the first retry in milliseconds
+   * @default 500
+   */
+  initialDelayMs?: number;
+
+  /**
+   * Upper bound for a single backoff delay in milliseconds
+   * @default 8000
+   */
+  maxDelayMs?: number;
+
+  /**
+   * Randomize delays between 0 and the computed backoff ("full jitter")
+   * @default true
+   */
+  jitter?: boolean;
+
+  /**
+   * HTTP status codes that are considered transient
+   * @default [408, 429, 500, 502, 503, 504]
+   */
+  retryOnStatus?: number[];
+
+  /**
+   * HTTP methods that are safe to retry without an idempotency key
+   * @default ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE']
+   */
+  retryMethods?: string[];
+
+  /**
+   * Longest `Retry-After` delay the client is willing to wait, in milliseconds.
+   * Longer server hints are clamped to this value.
+   * @default 60000
+   */
+  maxRetryAfterMs?: number;
+}
+
+export type ResolvedRetryOptions = Required<RetryOptions>;
+
+export const DEFAULT_RETRY_OPTIONS: ResolvedRetryOptions = {
+  maxRetries: 2,
+  initialDelayMs: 500,
+  maxDelayMs: 8000,
+  jitter: true,
+  retryOnStatus: [408, 429, 500, 502, 503, 504],
+  retryMethods: ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'],
+  maxRetryAfterMs: 60000,
+};
+
+/**
+ * Merge a client-level policy with a per-call override.
+ * `false` at either level disables retries.
+ */
+export function resolveRetryOptions(
+  base: RetryOptions | false | undefined,
+  override?: RetryOptions | false
+): ResolvedRetryOptions {
+  if (override === false || (base === false && override === undefined)) {
+    return { ...DEFAULT_RETRY_OPTIONS, maxRetries: 0 };
+  }
+  return {
+    ...DEFAULT_RETRY_OPTIONS,
+    ...(base || {}),
+    ...(override || {}),
+  };
+}
+
+export function isRetryableMethod(method: string, options: ResolvedRetryOptions): boolean {
+  return options.retryMethods.some((m) => m.toUpperCase() === method.toUpperCase());
+}
+
+/**
+ * Compute the backoff delay before retry number `attempt` (0-based).
+ */
+export function computeBackoffDelay(attempt: number, options: ResolvedRetryOptions): number {
+  const exponential = Math.min(options.maxDelayMs, options.initialDelayMs * 2 ** attempt);
+  return options.jitter ? Math.floor(Math.random() * exponential) : exponential;
+}
+
+/**
+ * Parse a `Retry-After` header (delta-seconds or HTTP-date) into milliseconds.
+ */
+export function parseRetryAfter(value: string | null | undefined, now: number = Date.now()): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - now);
+  }
+
+  return undefined;
+}
+
+/**
+ * Wait for `ms` milliseconds. Resolves early when `signal` aborts;
+ * callers are expected to check the signal afterwards.
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) {
+      resolve();
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -0,0 +1,191 @@
+/**
+ * Server-Sent Events decoder
+ *
+ * Implements the WHATWG `text/event-stream` parsing rules:
+ * - lines end with CRLF, LF or CR
+ * - `data` fields accumulate across lines and are joined with `\n`
+ * - `event`, `id` and `retry` fields are honoured; unknown fields are ignored
+ * - lines starting with `:` are comments (heartbeats)
+ * - a blank line dispatches the event; events without data are dropped
+ * - a leading UTF-8 BOM is stripped
+ *
+ * Every streaming endpoint in the SDK decodes its response through
+ * `readSSE()` so reconnection and error handling behave the same everywhere.
+ */
+
+export interface SSEMessage {
+  /** Event type (`event:` field), `'message'` when not set */
+  event: string;
+  /** Event payload, with multi-line `data:` fields joined by `\n` */
+  data: string;
+  /** Last event ID seen on the stream (`id:` field), sticky across events */
+  id?: string;
+  /** Reconnection delay requested by the server (`retry:` field), in milliseconds */
+  retry?: number;
+}
+
+/**
+ * Incremental decoder: feed it text chunks, get back complete messages.
+ */
+export class SSEDecoder {
+  private buffer = '';
+  private data: string[] = [];
+  private eventType = '';
+  private lastEventId: string | undefined;
+  private retry: number | undefined;
+  private started = false;
+  private pendingCR = false;
+
+  /** ID of the last event received, for `Last-Event-ID` on reconnect */
+  get lastId(): string | undefined {
+    return this.lastEventId;
+  }
+
+  /**
+   * Decode a chunk of text and return every message it completes
+   */
+  decode(chunk: string): SSEMessage[] {
+    if (!this.started) {
+      if (chunk.length === 0) {
+        return [];
+      }
+      this.started = true;
+      if (chunk.charCodeAt(0) === 0xfeff) {
+        chunk = chunk.slice(1);
+      }
+    }
+
+    // A CR at the end of the previous chunk may be the first half of a CRLF
+    if (this.pendingCR && chunk.startsWith('\n')) {
+      chunk = chunk.slice(1);
+    }
+    this.pendingCR = false;
+
+    this.buffer += chunk;
+    const messages: SSEMessage[] = [];
+
+    let start = 0;
+    for (let i = 0; i < this.buffer.length; i++) {
+      const char = this.buffer[i];
+      if (char !== '\n' && char !== '\r') {
+        continue;
+      }
+
+      const message = this.processLine(this.buffer.slice(start, i));
+      if (message) {
+        messages.push(message);
+      }
+
+      if (char === '\r') {
+        if (i + 1 === this.buffer.length) {
+          this.pendingCR = true;
+        } else if (this.buffer[i + 1] === '\n') {
+          i++;
+        }
+      }
+      start = i + 1;
+    }
+
+    this.buffer = this.buffer.slice(start);
+    return messages;
+  }
+
+  /**
+   * Reset at end of stream. Per the spec, an event that was not terminated
+   * by a blank line is discarded. The last event ID is kept.
+   */
+  flush(): void {
+    this.buffer = '';
+    this.data = [];
+    this.eventType = '';
+    this.pendingCR = false;
+  }
+
+  private processLine(line: string): SSEMessage | undefined {
+    if (line === '') {
+      return this.dispatch();
+    }
+
+    if (line.startsWith(':')) {
+      return undefined;
+    }
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? '' : line.slice(colon + 1);
+    if (value.startsWith(' ')) {
+      value = value.slice(1);
+    }
+
+    switch (field) {
+      case 'event':
+        this.eventType = value;
+        break;
+      case 'data':
+        this.data.push(value);
+        break;
+      case 'id':
+        if (!value.includes('\0')) {
+          this.lastEventId = value;
+        }
+        break;
+      case 'retry':
+        if (/^\d+$/.test(value)) {
+          this.retry = Number(value);
+        }
+        break;
+      default:
+        break;
+    }
+    return undefined;
+  }
+
+  private dispatch(): SSEMessage | undefined {
+    const data = this.data;
+    const eventType = this.eventType;
+    this.data = [];
+    this.eventType = '';
+
+    if (data.length === 0) {
+      return undefined;
+    }
+
+    return {
+      event: eventType || 'message',
+      data: data.join('\n'),
+      id: this.lastEventId,
+      retry: this.retry,
+    };
+  }
+}
+
+/**
+ * Read a streaming response body as SSE messages.
+ * Abandoning the iteration early cancels the body.
+ */
+export async function* readSSE(
+  body: ReadableStream<Uint8Array>,
+  decoder: SSEDecoder = new SSEDecoder()
+): AsyncGenerator<SSEMessage> {
+  const reader = body.getReader();
+  const textDecoder = new TextDecoder();
+  let finished = false;
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) {
+        finished = true;
+        yield* decoder.decode(textDecoder.decode());
+        decoder.flush();
+        return;
+      }
+      yield* decoder.decode(textDecoder.decode(value, { stream: true }));
+    }
+  } finally {
+    if (!finished) {
+      await reader.cancel().catch(() => undefined);
+    }
+    reader.releaseLock();
+  }
+}
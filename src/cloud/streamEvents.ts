@@ -0,0 +1,61 @@
+/**
+ * Typed handler maps for run stream events
+ *
+ * Instead of switching on `event.type`, pass an object keyed by short event
+ * names. Each handler receives the precise event type:
+ *
+ * ```typescript
+ * await client.run('Fix the tests', {
+ *   on: {
+ *     tool_call: (e) => console.log(`${e.name}(${JSON.stringify(e.arguments)})`),
+ *     file_change: (e) => console.log(e.operation, e.path),
+ *   },
+ * });
+ * ```
+ */
+
+import type { MessageStreamEvent, MessageStreamEventOfType } from './types';
+
+/**
+ * Short handler name for each event type
+ */
+export const STREAM_EVENT_NAMES = {
+  'response.started': 'start',
+  'response.text.delta': 'text_delta',
+  'response.reasoning': 'reasoning',
+  'response.tool_call.started': 'tool_call',
+  'response.tool_call.completed': 'tool_result',
+  'response.file_change': 'file_change',
+  'response.approval.requested': 'approval',
+  'response.step.started': 'step_start',
+  'response.step.completed': 'step_end',
+  'response.usage': 'usage',
+  'response.item.completed': 'item',
+  'response.completed': 'response',
+  'stream.completed': 'done',
+  'stream.error': 'error',
+} as const satisfies Record<MessageStreamEvent['type'], string>;
+
+type EventNames = typeof STREAM_EVENT_NAMES;
+
+export type StreamEventName = EventNames[keyof EventNames];
+
+/**
+ * Handlers keyed by short event name, each typed to its event
+ */
+export type StreamEventHandlers = {
+  [T in keyof EventNames as EventNames[T]]?: (event: MessageStreamEventOfType<T>) => void;
+};
+
+/**
+ * Call the handler registered for an event, if any.
+ * Events of a type this SDK does not know are ignored.
+ */
+export function dispatchStreamEvent(event: MessageStreamEvent, handlers: StreamEventHandlers): void {
+  const name = (STREAM_EVENT_NAMES as Record<string, StreamEventName | undefined>)[event.type];
+  if (!name) {
+    return;
+  }
+  const handler = handlers[name] as ((event: MessageStreamEvent) => void) | undefined;
+  handler?.(event);
+}
@@ -0,0 +1,315 @@
+/**
+ * Structured output for runs
+ *
+ * Asks the agent for JSON of a given shape, extracts it from the final
+ * response and validates it. Invalid output is sent back to the agent on the
+ * same thread with the validation errors, up to `maxRetries` times.
+ *
+ * The shape is given as a JSON Schema, a validator with a `parse` method
+ * (a zod schema, for example) or both. The built-in schema check
+ * covers `type`, `properties`, `required`, `additionalProperties`, `items`,
+ * `enum`, `const` and `anyOf`/`oneOf`; pass a validator for anything richer.
+ */
+
+import { StructuredOutputError } from './errors';
+
+export type JsonSchema = Record<string, unknown>;
+
+/**
+ * Anything with a `parse` method that returns the typed value or throws
+ */
+export interface OutputValidator<T> {
+  parse(value: unknown): T;
+}
+
+export interface StructuredOutputOptions<T> {
+  /**
+   * JSON Schema shown to the agent and checked before the validator
+   */
+  schema?: JsonSchema;
+
+  /**
+   * Validator applied to the extracted JSON. Its return value becomes `data`.
+   */
+  validator?: OutputValidator<T>;
+
+  /**
+   * Follow-up prompts after invalid output
+   * @default 2
+   */
+  maxRetries?: number;
+}
+
+/**
+ * Run `send` until its response contains valid output
+ * @internal
+ */
+export async function collectStructuredOutput<T, R extends { content: string }>(
+  prompt: string,
+  output: StructuredOutputOptions<T>,
+  send: (content: string, previous?: R) => Promise<R>,
+  threadIdOf: (result: R) => string | undefined
+): Promise<R & { data: T }> {
+  if (!output.schema && !output.validator) {
+    throw new Error('Structured output requires a schema or a validator');
+  }
+
+  const maxRetries = output.maxRetries ?? 2;
+  let content = `${prompt}\n\n${outputInstructions(output.schema)}`;
+  let previous: R | undefined;
+
+  for (let attempt = 0; ; attempt++) {
+    const result = await send(content, previous);
+    const parsed = parseOutput(result.content, output);
+    if (parsed.ok) {
+      return { ...result, data: parsed.data };
+    }
+
+    if (attempt >= maxRetries) {
+      throw new StructuredOutputError(
+        `Agent output did not match the expected shape after ${attempt + 1} attempt(s)`,
+        parsed.issues,
+        result.content,
+        { threadId: threadIdOf(result), attempts: attempt + 1 }
+      );
+    }
+
+    previous = result;
+    content = [
+      'Your previous response did not match the required output format:',
+      ...parsed.issues.map((issue) => `- ${issue}`),
+      '',
+      outputInstructions(output.schema),
+    ].join('\n');
+  }
+}
+
+interface CorrectionDropped {
+  attachments?: unknown;
+  tools?: unknown;
+  contextPolicy?: unknown;
+  runId?: string;
+}
+
+/**
+ * Options for a follow-up prompt. Only the correction text is sent, so
+ * attachments, client tools, the context policy and a caller-supplied run
+ * ID from the first attempt are dropped.
+ * @internal
+ */
+export function correctionOptions<O extends CorrectionDropped>(options: O): Omit<O, keyof CorrectionDropped> {
+  const { attachments: _attachments, tools: _tools, contextPolicy: _contextPolicy, runId: _runId, ...rest } = options;
+  return rest;
+}
+
+/**
+ * Pull a JSON value out of a response: a fenced ```json block, the whole
+ * text, or the first balanced object or array in it.
+ */
+export function extractJson(text: string): { ok: true; value: unknown } | { ok: false } {
+  const fenced = [...text.matchAll(/```(?:json)?\s*\n([\s\S]*?)```/g)];
+  const candidates = [
+    ...fenced.reverse().map((match) => match[1]),
+    text,
+  ];
+
+  for (const candidate of candidates) {
+    try {
+      return { ok: true, value: JSON.parse(candidate.trim()) };
+    } catch {
+      // try the next candidate
+    }
+  }
+
+  const start = text.search(/[[{]/);
+  if (start !== -1) {
+    const end = findClosingBracket(text, start);
+    if (end !== -1) {
+      try {
+        return { ok: true, value: JSON.parse(text.slice(start, end + 1)) };
+      } catch {
+        // fall through
+      }
+    }
+  }
+
+  return { ok: false };
+}
+
+/**
+ * Check a value against the supported JSON Schema subset.
+ * Returns one message per violation, prefixed with the JSON path.
+ */
+export function validateJsonSchema(value: unknown, schema: JsonSchema, path = '$'): string[] {
+  const errors: string[] = [];
+
+  if ('const' in schema && !deepEqual(value, schema.const)) {
+    errors.push(`${path}: must equal ${JSON.stringify(schema.const)}`);
+  }
+
+  if (Array.isArray(schema.enum) && !schema.enum.some((option) => deepEqual(value, option))) {
+    errors.push(`${path}: must be one of ${schema.enum.map((option) => JSON.stringify(option)).join(', ')}`);
+  }
+
+  const variants = (schema.anyOf ?? schema.oneOf) as JsonSchema[] | undefined;
+  if (Array.isArray(variants) && !variants.some((variant) => validateJsonSchema(value, variant, path).length === 0)) {
+    errors.push(`${path}: does not match any allowed shape`);
+  }
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type as string[] : [schema.type as string];
+    if (!types.some((type) => matchesType(value, type))) {
+      errors.push(`${path}: expected ${types.join(' or ')}, got ${describeType(value)}`);
+      return errors;
+    }
+  }
+
+  if (isPlainObject(value)) {
+    const properties = (schema.properties ?? {}) as Record<string, JsonSchema>;
+    for (const key of (schema.required ?? []) as string[]) {
+      if (!(key in value)) {
+        errors.push(`${path}.${key}: is required`);
+      }
+    }
+    for (const [key, child] of Object.entries(value)) {
+      if (key in properties) {
+        errors.push(...validateJsonSchema(child, properties[key], `${path}.${key}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}.${key}: is not allowed`);
+      } else if (isPlainObject(schema.additionalProperties)) {
+        errors.push(...validateJsonSchema(child, schema.additionalProperties, `${path}.${key}`));
+      }
+    }
+  }
+
+  if (Array.isArray(value) && isPlainObject(schema.items)) {
+    const items = schema.items;
+    value.forEach((item, index) => {
+      errors.push(...validateJsonSchema(item, items, `${path}[${index}]`));
+    });
+  }
+
+  return errors;
+}
+
+function parseOutput<T>(
+  content: string,
+  output: StructuredOutputOptions<T>
+): { ok: true; data: T } | { ok: false; issues: string[] } {
+  const extracted = extractJson(content);
+  if (!extracted.ok) {
+    return { ok: false, issues: ['response does not contain valid JSON'] };
+  }
+
+  if (output.schema) {
+    const issues = validateJsonSchema(extracted.value, output.schema);
+    if (issues.length > 0) {
+      return { ok: false, issues };
+    }
+  }
+
+  if (!output.validator) {
+    return { ok: true, data: extracted.value as T };
+  }
+
+  try {
+    return { ok: true, data: output.validator.parse(extracted.value) };
+  } catch (error) {
+    return { ok: false, issues: validatorIssues(error) };
+  }
+}
+
+function outputInstructions(schema?: JsonSchema): string {
+  if (!schema) {
+    return 'Respond with a single JSON value in a ```json code block and nothing else.';
+  }
+  return [
+    'Respond with a single JSON value in a ```json code block and nothing else.',
+    'It must match this JSON Schema:',
+    '```json',
+    JSON.stringify(schema, null, 2),
+    '```',
+  ].join('\n');
+}
+
+/**
+ * Turn a validator's exception into readable issues.
+ * Understands zod-style `issues: [{ path, message }]`.
+ */
+function validatorIssues(error: unknown): string[] {
+  const issues = (error as { issues?: unknown })?.issues;
+  if (Array.isArray(issues) && issues.length > 0) {
+    return issues.map((issue) => {
+      const { path, message } = issue as { path?: Array<string | number>; message?: string };
+      const location = path && path.length > 0 ? `$.${path.join('.')}` : '$';
+      return `${location}: ${message ?? 'is invalid'}`;
+    });
+  }
+  return [error instanceof Error ? error.message : String(error)];
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  switch (type) {
+    case 'object':
+      return isPlainObject(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'integer':
+      return Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'null':
+      return value === null;
+    default:
+      return typeof value === type;
+  }
+}
+
+function describeType(value: unknown): string {
+  if (value === null) {
+    return 'null';
+  }
+  return Array.isArray(value) ? 'array' : typeof value;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Index of the bracket closing the one at `start`, skipping string contents
+ */
+function findClosingBracket(text: string, start: number): number {
+  const stack: string[] = [];
+  let inString = false;
+
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (char === '\\') {
+        i++;
+      } else if (char === '"') {
+        inString = false;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+    } else if (char === '{' || char === '[') {
+      stack.push(char === '{' ? '}' : ']');
+    } else if (char === '}' || char === ']') {
+      if (stack.pop() !== char) {
+        return -1;
+      }
+      if (stack.length === 0) {
+        return i;
+      }
+    }
+  }
+  return -1;
+}
@@ -0,0 +1,109 @@
+/**
+ * Client-side tools
+ *
+ * Functions registered with `tools` on `run()`, `sendMessage()` or `stream()`
+ * are offered to the agent alongside its server-side tools. When the agent
+ * calls one, the stream emits `response.tool_call.started`; the SDK runs the
+ * handler in this process and posts the result back to the thread, and the
+ * run continues on the same stream.
+ */
+
+import { validateJsonSchema } from './structuredOutput';
+import type { JsonSchema } from './structuredOutput';
+import type { ClientToolDefinition, ToolCallStartedEvent } from './types';
+
+/**
+ * Context passed to a tool handler
+ */
+export interface ToolCallContext {
+  threadId: string;
+  runId?: string;
+  callId: string;
+  /** Aborted when the caller cancels the run */
+  signal?: AbortSignal;
+}
+
+export interface ClientTool<A = Record<string, unknown>> {
+  /** Tool name the agent calls. Must be unique within the run. */
+  name: string;
+  description?: string;
+  /** JSON Schema for the arguments; calls that do not match are rejected */
+  parameters: JsonSchema;
+  /**
+   * Runs the tool, optionally async. Strings are sent back as-is,
+   * anything else as JSON.
+   * A thrown error is reported to the agent as a failed call.
+   */
+  handler(args: A, context: ToolCallContext): unknown;
+}
+
+/**
+ * Result of a client-side tool call, posted to the thread
+ */
+export interface ToolOutputSubmission {
+  runId?: string;
+  callId: string;
+  output: string;
+  isError: boolean;
+}
+
+/**
+ * Declare a tool with typed arguments
+ *
+ * @example
+ * ```typescript
+ * const lookupOrder = defineTool<{ orderId: string }>({
+ *   name: 'lookup_order',
+ *   parameters: { type: 'object', properties: { orderId: { type: 'string' } }, required: ['orderId'] },
+ *   handler: ({ orderId }) => orders.get(orderId),
+ * });
+ * ```
+ */
+export function defineTool<A>(tool: ClientTool<A>): ClientTool<A> {
+  return tool;
+}
+
+/**
+ * @internal
+ */
+export function toToolDefinitions(tools: ClientTool[]): ClientToolDefinition[] {
+  const names = new Set<string>();
+  return tools.map(({ name, description, parameters }) => {
+    if (names.has(name)) {
+      throw new Error(`Duplicate client tool name: ${name}`);
+    }
+    names.add(name);
+    return { name, description, parameters };
+  });
+}
+
+/**
+ * Run a tool for a call event and package the result for the server
+ * @internal
+ */
+export async function executeClientTool(
+  tool: ClientTool,
+  event: ToolCallStartedEvent,
+  context: ToolCallContext
+): Promise<ToolOutputSubmission> {
+  const base = { runId: context.runId, callId: event.callId };
+
+  const issues = validateJsonSchema(event.arguments, tool.parameters);
+  if (issues.length > 0) {
+    return { ...base, output: `Invalid arguments for ${tool.name}:\n${issues.join('\n')}`, isError: true };
+  }
+
+  try {
+    const result = await tool.handler(event.arguments, context);
+    return { ...base, output: serializeToolOutput(result), isError: false };
+  } catch (error) {
+    return { ...base, output: error instanceof Error ? error.message : String(error), isError: true };
+  }
+}
+
+function serializeToolOutput(result: unknown): string {
+  if (typeof result === 'string') {
+    return result;
+  }
+  return result === undefined ? '' : JSON.stringify(result);
+}
@@ -0,0 +1,277 @@
+/**
+ * Tracing hooks for the Computer Agents Cloud API client
+ *
+ * A minimal span interface modelled on OpenTelemetry so SDK calls can be
+ * forwarded to any tracing backend. The client opens a span for every HTTP
+ * request and for high-level operations such as `run()`; request spans are
+ * parented to whichever SDK span is active and propagate a W3C
+ * `traceparent` header.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomBytes } from 'crypto';
+
+export type SpanAttributeValue = string | number | boolean;
+
+export type SpanAttributes = Record<string, SpanAttributeValue | undefined>;
+
+export type SpanStatusCode = 'unset' | 'ok' | 'error';
+
+/**
+ * W3C trace context identifying a span
+ */
+export interface SpanContext {
+  /** 32 lowercase hex characters */
+  traceId: string;
+  /** 16 lowercase hex characters */
+  spanId: string;
+  /** W3C trace flags (1 = sampled) */
+  traceFlags: number;
+}
+
+export interface Span {
+  spanContext(): SpanContext;
+  setAttribute(key: string, value: SpanAttributeValue | undefined): void;
+  setAttributes(attributes: SpanAttributes): void;
+  setStatus(code: SpanStatusCode, message?: string): void;
+  recordException(error: unknown): void;
+  end(): void;
+}
+
+export interface StartSpanOptions {
+  attributes?: SpanAttributes;
+  /** Parent span; defaults to the SDK span active in the current async context */
+  parent?: Span;
+}
+
+export interface Tracer {
+  startSpan(name: string, options?: StartSpanOptions): Span;
+}
+
+const INVALID_SPAN_CONTEXT: SpanContext = {
+  traceId: '00000000000000000000000000000000',
+  spanId: '0000000000000000',
+  traceFlags: 0,
+};
+
+const NOOP_SPAN: Span = {
+  spanContext: () => INVALID_SPAN_CONTEXT,
+  setAttribute: () => undefined,
+  setAttributes: () => undefined,
+  setStatus: () => undefined,
+  recordException: () => undefined,
+  end: () => undefined,
+};
+
+/**
+ * Tracer that records nothing (the default)
+ */
+export const noopTracer: Tracer = {
+  startSpan: () => NOOP_SPAN,
+};
+
+/**
+ * A span recorded by `InMemoryTracer`
+ */
+export interface RecordedSpan {
+  name: string;
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  attributes: Record<string, SpanAttributeValue>;
+  status: SpanStatusCode;
+  statusMessage?: string;
+  exceptions: unknown[];
+  startTime: number;
+  endTime?: number;
+}
+
+/**
+ * Tracer that keeps spans in memory, for tests and local debugging
+ *
+ * @example
+ * ```typescript
+ * const tracer = new InMemoryTracer();
+ * const client = new ComputerAgentsClient({ tracer });
+ * await client.run('Fix the tests', { computerId });
+ * console.log(tracer.spans.map((s) => s.name));
+ * ```
+ */
+export class InMemoryTracer implements Tracer {
+  private readonly recorded: RecordedSpan[] = [];
+
+  /** Spans that have ended, in the order they ended */
+  get spans(): RecordedSpan[] {
+    return [...this.recorded];
+  }
+
+  startSpan(name: string, options: StartSpanOptions = {}): Span {
+    const parent = options.parent?.spanContext();
+    const hasParent = !!parent && isValidSpanContext(parent);
+    const context: SpanContext = {
+      traceId: hasParent ? parent.traceId : randomBytes(16).toString('hex'),
+      spanId: randomBytes(8).toString('hex'),
+      traceFlags: 1,
+    };
+
+    const record: RecordedSpan = {
+      name,
+      traceId: context.traceId,
+      spanId: context.spanId,
+      parentSpanId: hasParent ? parent.spanId : undefined,
+      attributes: {},
+      status: 'unset',
+      exceptions: [],
+      startTime: Date.now(),
+    };
+
+    const setAttribute = (key: string, value: SpanAttributeValue | undefined) => {
+      if (value !== undefined && record.endTime === undefined) {
+        record.attributes[key] = value;
+      }
+    };
+
+    setAttributesOn(setAttribute, options.attributes);
+
+    return {
+      spanContext: () => context,
+      setAttribute,
+      setAttributes: (attributes) => setAttributesOn(setAttribute, attributes),
+      setStatus: (code, message) => {
+        record.status = code;
+        record.statusMessage = message;
+      },
+      recordException: (error) => {
+        record.exceptions.push(error);
+      },
+      end: () => {
+        if (record.endTime === undefined) {
+          record.endTime = Date.now();
+          this.recorded.push(record);
+        }
+      },
+    };
+  }
+
+  /**
+   * Find ended spans by name
+   */
+  findSpans(name: string): RecordedSpan[] {
+    return this.recorded.filter((span) => span.name === name);
+  }
+
+  /**
+   * Discard all recorded spans
+   */
+  reset(): void {
+    this.recorded.length = 0;
+  }
+}
+
+const activeSpan = new AsyncLocalStorage<Span>();
+
+/**
+ * The SDK span active in the current async context, if any
+ */
+export function getActiveSpan(): Span | undefined {
+  return activeSpan.getStore();
+}
+
+/**
+ * Run `fn` with `span` as the active SDK span
+ * @internal
+ */
+export function runInSpanContext<T>(span: Span, fn: () => T): T {
+  return activeSpan.run(span, fn);
+}
+
+/**
+ * Run `fn` inside a new span that is active for everything `fn` awaits.
+ * The span is ended when `fn` settles; failures are recorded on the span.
+ * @internal
+ */
+export async function withSpan<T>(
+  tracer: Tracer,
+  name: string,
+  attributes: SpanAttributes,
+  fn: (span: Span) => Promise<T>
+): Promise<T> {
+  const span = tracer.startSpan(name, { attributes, parent: getActiveSpan() });
+  try {
+    const result = await activeSpan.run(span, () => fn(span));
+    span.setStatus('ok');
+    return result;
+  } catch (error) {
+    span.recordException(error);
+    span.setStatus('error', error instanceof Error ? error.message : String(error));
+    throw error;
+  } finally {
+    span.end();
+  }
+}
+
+/**
+ * Format a span context as a W3C `traceparent` header value,
+ * or `undefined` for the no-op span
+ */
+export function formatTraceparent(context: SpanContext): string | undefined {
+  if (!isValidSpanContext(context)) {
+    return undefined;
+  }
+  const flags = (context.traceFlags & 0xff).toString(16).padStart(2, '0');
+  return `00-${context.traceId}-${context.spanId}-${flags}`;
+}
+
+/**
+ * Routes whose trailing segments are a single free-form parameter (a file
+ * path, secret key or package name) that may look like static segments.
+ * The first group is the route prefix; everything after it becomes `:path`.
+ */
+const TRAILING_PARAMETER_ROUTES: readonly RegExp[] = [
+  /^(\/files)\/./,
+  /^(\/environments\/[^/]+\/files)\/(?!(upload|mkdir|move)$)./,
+  /^(\/environments\/[^/]+\/secrets)\/./,
+  /^(\/environments\/[^/]+\/packages\/[^/]+)\/./,
+  /^(\/servers\/[^/]+\/files\/(content|download))\/./,
+  /^(\/servers\/[^/]+\/files)\/(?!(upload|content|download)(\/|$))./,
+];
+
+/**
+ * Reduce a concrete request path to a low-cardinality route template,
+ * e.g. `/threads/thread_abc/messages` -> `/threads/:id/messages` and
+ * `/environments/env_1/files/src/index.ts` -> `/environments/:id/files/:path`.
+ * Static API segments are lowercase words; anything else is treated as a parameter.
+ * @internal
+ */
+export function routeTemplate(path: string): string {
+  for (const route of TRAILING_PARAMETER_ROUTES) {
+    const match = route.exec(path);
+    if (match) {
+      return `${templateSegments(match[1])}/:path`;
+    }
+  }
+  return templateSegments(path);
+}
+
+function templateSegments(path: string): string {
+  return path
+    .split('/')
+    .map((segment, index) => (index === 0 || segment === '' || /^[a-z]+(-[a-z]+)*$/.test(segment) ? segment : ':id'))
+    .join('/');
+}
+
+function isValidSpanContext(context: SpanContext): boolean {
+  return /^[0-9a-f]{32}$/.test(context.traceId)
+    && /^[0-9a-f]{16}$/.test(context.spanId)
+    && !/^0+$/.test(context.traceId)
+    && !/^0+$/.test(context.spanId);
+}
+
+function setAttributesOn(
+  setAttribute: (key: string, value: SpanAttributeValue | undefined) => void,
+  attributes: SpanAttributes | undefined
+): void {
+  for (const [key, value] of Object.entries(attributes ?? {})) {
+    setAttribute(key, value);
+  }
+}
@@ -0,0 +1,384 @@
+/**
+ * Thread transcripts
+ *
+ * Renders a thread's messages, steps, diffs and execution logs as Markdown,
+ * JSONL or a single self-contained HTML page, for attaching to incident
+ * reports and code reviews. Used by `threads.export()`.
+ */
+
+import { REDACTED, redact } from './logger';
+import type { Thread, ThreadLogEntry, ThreadMessage } from './types';
+import type { ThreadStep } from './resources/ThreadsResource';
+
+export type TranscriptFormat = 'markdown' | 'jsonl' | 'html';
+
+export interface ExportThreadOptions {
+  /**
+   * Output format
+   * @default 'markdown'
+   */
+  format?: TranscriptFormat;
+
+  /**
+   * Include execution logs
+   * @default true
+   */
+  includeLogs?: boolean;
+
+  /**
+   * Mask API keys, tokens, passwords and private keys in the transcript
+   * @default true
+   */
+  redactSecrets?: boolean;
+
+  /**
+   * Additional patterns to mask when `redactSecrets` is on
+   */
+  redactPatterns?: RegExp[];
+}
+
+/**
+ * A file diff recorded for a thread, attributed to a step when known
+ */
+export interface TranscriptDiff {
+  stepId?: string;
+  path: string;
+  diff: string;
+}
+
+/**
+ * Everything a transcript is rendered from
+ */
+export interface ThreadTranscript {
+  thread: Thread;
+  messages: ThreadMessage[];
+  steps: ThreadStep[];
+  diffs: TranscriptDiff[];
+  logs: ThreadLogEntry[];
+  totals: {
+    messages: number;
+    steps: number;
+    tokens: number;
+    cost: number;
+    /** From thread creation to its last update */
+    durationMs?: number;
+  };
+}
+
+/**
+ * Patterns for secrets that commonly leak into agent output
+ */
+const SECRET_PATTERNS: RegExp[] = [
+  /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g,
+  /\b(?:sk|pk|rk)[-_](?:live_|test_|proj-|ant-)?[A-Za-z0-9_-]{16,}/g,
+  /\bgh[pousr]_[A-Za-z0-9]{20,}/g,
+  /\bxox[abpors]-[A-Za-z0-9-]{10,}/g,
+  /\bAKIA[0-9A-Z]{16}\b/g,
+  /\b(Bearer\s+)[A-Za-z0-9._~+/-]{16,}=*/gi,
+  /\b((?:api[_-]?key|secret|token|password|passwd)\s*[:=]\s*["']?)[^\s"']{6,}/gi,
+];
+
+/**
+ * Build a transcript from raw thread data
+ * @internal
+ */
+export function buildTranscript(
+  data: Omit<ThreadTranscript, 'diffs' | 'totals'> & { diffs: Array<Record<string, unknown>> },
+  options: ExportThreadOptions = {}
+): ThreadTranscript {
+  const { thread, messages, steps, logs } = data;
+  const created = Date.parse(thread.createdAt);
+  const updated = Date.parse(thread.updatedAt);
+
+  const transcript: ThreadTranscript = {
+    thread,
+    messages,
+    steps: [...steps].sort((a, b) => (a.sequence ?? 0) - (b.sequence ?? 0)),
+    diffs: data.diffs.map(toTranscriptDiff),
+    logs: options.includeLogs === false ? [] : logs,
+    totals: {
+      messages: messages.length,
+      steps: steps.length,
+      tokens: thread.totalTokens ?? 0,
+      cost: thread.totalCost ?? 0,
+      durationMs: Number.isNaN(created) || Number.isNaN(updated) ? undefined : updated - created,
+    },
+  };
+
+  return options.redactSecrets === false ? transcript : redactTranscript(transcript, options.redactPatterns);
+}
+
+/**
+ * Render a transcript in the requested format
+ * @internal
+ */
+export function renderTranscript(transcript: ThreadTranscript, format: TranscriptFormat = 'markdown'): string {
+  switch (format) {
+    case 'markdown':
+      return renderMarkdown(transcript);
+    case 'jsonl':
+      return renderJsonl(transcript);
+    case 'html':
+      return renderHtml(transcript);
+    default:
+      throw new Error(`Unsupported transcript format: ${String(format)}`);
+  }
+}
+
+function renderMarkdown(transcript: ThreadTranscript): string {
+  const { thread, totals } = transcript;
+  const lines: string[] = [
+    `# ${thread.title || `Thread ${thread.id}`}`,
+    '',
+    `- **Thread:** \`${thread.id}\``,
+    `- **Status:** ${thread.status}`,
+    `- **Created:** ${thread.createdAt}`,
+    `- **Duration:** ${formatDuration(totals.durationMs)}`,
+    `- **Messages:** ${totals.messages} · **Steps:** ${totals.steps}`,
+    `- **Tokens:** ${totals.tokens.toLocaleString('en-US')} · **Cost:** ${formatCost(totals.cost)}`,
+    '',
+    '## Conversation',
+    '',
+  ];
+
+  for (const message of transcript.messages) {
+    lines.push(`### ${capitalize(message.role)}${message.timestamp ? ` · ${message.timestamp}` : ''}`, '', message.content, '');
+  }
+
+  if (transcript.steps.length > 0) {
+    lines.push('## Steps', '');
+    for (const step of transcript.steps) {
+      lines.push(`### ${stepHeading(step)}`, '');
+      const tool = toolCallOf(step);
+      if (tool) {
+        lines.push(`Tool call: \`${tool.name}\``, '', fence(JSON.stringify(tool.arguments, null, 2), 'json'), '');
+      }
+      for (const diff of diffsFor(transcript, step.id)) {
+        lines.push('<details>', `<summary>${escapeHtml(diff.path)}</summary>`, '', fence(diff.diff, 'diff'), '', '</details>', '');
+      }
+    }
+  }
+
+  const unattributed = diffsFor(transcript, undefined);
+  if (unattributed.length > 0) {
+    lines.push('## Other Changes', '');
+    for (const diff of unattributed) {
+      lines.push('<details>', `<summary>${escapeHtml(diff.path)}</summary>`, '', fence(diff.diff, 'diff'), '', '</details>', '');
+    }
+  }
+
+  if (transcript.logs.length > 0) {
+    lines.push('## Execution Logs', '');
+    const logText = transcript.logs
+      .map((log) => `[${log.relativeTime ?? log.timestamp ?? ''}] ${log.role}: ${log.content}`)
+      .join('\n');
+    lines.push(fence(logText, 'text'), '');
+  }
+
+  return lines.join('\n');
+}
+
+function renderJsonl(transcript: ThreadTranscript): string {
+  const records: unknown[] = [
+    { type: 'thread', ...transcript.thread, messages: undefined },
+    ...transcript.messages.map((message) => ({ type: 'message', ...message })),
+    ...transcript.steps.map((step) => ({ type: 'step', ...step, diffs: diffsFor(transcript, step.id) })),
+    ...diffsFor(transcript, undefined).map((diff) => ({ type: 'diff', ...diff })),
+    ...transcript.logs.map((log) => ({ type: 'log', ...log })),
+    { type: 'totals', ...transcript.totals },
+  ];
+  return records.map((record) => JSON.stringify(record)).join('\n') + '\n';
+}
+
+function renderHtml(transcript: ThreadTranscript): string {
+  const { thread, totals } = transcript;
+  const title = escapeHtml(thread.title || `Thread ${thread.id}`);
+  const diffBlock = (diff: TranscriptDiff) =>
+    `<details><summary>${escapeHtml(diff.path)}</summary>${renderDiffHtml(diff.diff)}</details>`;
+
+  const messages = transcript.messages
+    .map((message) => [
+      `<section class="message ${escapeHtml(message.role)}">`,
+      `<header>${escapeHtml(capitalize(message.role))}${message.timestamp ? ` <time>${escapeHtml(message.timestamp)}</time>` : ''}</header>`,
+      `<pre>${escapeHtml(message.content)}</pre>`,
+      '</section>',
+    ].join(''))
+    .join('\n');
+
+  const steps = transcript.steps
+    .map((step) => {
+      const tool = toolCallOf(step);
+      return [
+        '<section class="step">',
+        `<h3>${escapeHtml(stepHeading(step))}</h3>`,
+        tool ? `<p>Tool call: <code>${escapeHtml(tool.name)}</code></p><pre>${escapeHtml(JSON.stringify(tool.arguments, null, 2))}</pre>` : '',
+        ...diffsFor(transcript, step.id).map(diffBlock),
+        '</section>',
+      ].join('');
+    })
+    .join('\n');
+
+  const other = diffsFor(transcript, undefined).map(diffBlock).join('\n');
+  const logs = transcript.logs
+    .map((log) => `[${log.relativeTime ?? log.timestamp ?? ''}] ${log.role}: ${log.content}`)
+    .join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${title}</title>
+<style>
+body { font: 14px/1.5 system-ui, sans-serif; max-width: 960px; margin: 2em auto; padding: 0 1em; color: #1f2328; }
+pre { white-space: pre-wrap; word-break: break-word; background: #f6f8fa; padding: .75em; border-radius: 6px; }
+.message { border-left: 3px solid #d0d7de; padding-left: 1em; margin: 1em 0; }
+.message.assistant { border-color: #8250df; }
+.message.user { border-color: #0969da; }
+header { font-weight: 600; }
+time { color: #656d76; font-weight: normal; }
+details { margin: .5em 0; }
+summary { cursor: pointer; font-family: ui-monospace, monospace; }
+.add { color: #1a7f37; } .del { color: #cf222e; } .hunk { color: #8250df; }
+dl { display: grid; grid-template-columns: max-content 1fr; gap: .25em 1em; }
+dt { color: #656d76; }
+</style>
+</head>
+<body>
+<h1>${title}</h1>
+<dl>
+<dt>Thread</dt><dd><code>${escapeHtml(thread.id)}</code></dd>
+<dt>Status</dt><dd>${escapeHtml(thread.status)}</dd>
+<dt>Created</dt><dd>${escapeHtml(thread.createdAt)}</dd>
+<dt>Duration</dt><dd>${formatDuration(totals.durationMs)}</dd>
+<dt>Messages / steps</dt><dd>${totals.messages} / ${totals.steps}</dd>
+<dt>Tokens</dt><dd>${totals.tokens.toLocaleString('en-US')}</dd>
+<dt>Cost</dt><dd>${formatCost(totals.cost)}</dd>
+</dl>
+<h2>Conversation</h2>
+${messages}
+${steps ? `<h2>Steps</h2>\n${steps}` : ''}
+${other ? `<h2>Other Changes</h2>\n${other}` : ''}
+${logs ? `<h2>Execution Logs</h2>\n<pre>${escapeHtml(logs)}</pre>` : ''}
+</body>
+</html>
+`;
+}
+
+function renderDiffHtml(diff: string): string {
+  const lines = diff.split('\n').map((line) => {
+    const escaped = escapeHtml(line);
+    if (line.startsWith('+') && !line.startsWith('+++')) {
+      return `<span class="add">${escaped}</span>`;
+    }
+    if (line.startsWith('-') && !line.startsWith('---')) {
+      return `<span class="del">${escaped}</span>`;
+    }
+    if (line.startsWith('@@')) {
+      return `<span class="hunk">${escaped}</span>`;
+    }
+    return escaped;
+  });
+  return `<pre>${lines.join('\n')}</pre>`;
+}
+
+function redactTranscript(transcript: ThreadTranscript, extraPatterns: RegExp[] = []): ThreadTranscript {
+  const patterns = [...SECRET_PATTERNS, ...extraPatterns];
+  const text = (value: string) => redactText(value, patterns);
+  const fields = <T>(value: T): T => redact(value) as T;
+
+  return {
+    ...transcript,
+    thread: { ...transcript.thread, title: transcript.thread.title && text(transcript.thread.title) },
+    messages: transcript.messages.map((message) => ({ ...message, content: text(message.content) })),
+    steps: transcript.steps.map((step) => ({
+      ...step,
+      title: step.title && text(step.title),
+      metadata: step.metadata && JSON.parse(text(JSON.stringify(fields(step.metadata)))),
+    })),
+    diffs: transcript.diffs.map((diff) => ({ ...diff, diff: text(diff.diff) })),
+    logs: transcript.logs.map((log) => ({ ...log, content: text(log.content) })),
+  };
+}
+
+function redactText(value: string, patterns: RegExp[]): string {
+  return patterns.reduce(
+    // Keep a captured prefix such as `Bearer ` or `password=`
+    (result, pattern) => result.replace(pattern, (_match, prefix?: unknown) =>
+      typeof prefix === 'string' ? `${prefix}${REDACTED}` : REDACTED
+    ),
+    value
+  );
+}
+
+function toTranscriptDiff(entry: Record<string, unknown>): TranscriptDiff {
+  const stepId = entry.stepId ?? entry.step_id;
+  return {
+    stepId: typeof stepId === 'string' ? stepId : undefined,
+    path: String(entry.path ?? entry.filePath ?? entry.file ?? ''),
+    diff: String(entry.diff ?? entry.patch ?? entry.content ?? ''),
+  };
+}
+
+function diffsFor(transcript: ThreadTranscript, stepId: string | undefined): TranscriptDiff[] {
+  const stepIds = new Set(transcript.steps.map((step) => step.id));
+  return transcript.diffs.filter((diff) =>
+    stepId === undefined ? !diff.stepId || !stepIds.has(diff.stepId) : diff.stepId === stepId
+  );
+}
+
+/**
+ * Tool name and arguments recorded on a step, if it was a tool call
+ */
+function toolCallOf(step: ThreadStep): { name: string; arguments: unknown } | undefined {
+  const metadata = step.metadata ?? {};
+  const name = metadata.toolName ?? metadata.tool ?? metadata.name;
+  if (typeof name !== 'string' || !(step.eventType ?? '').includes('tool')) {
+    return undefined;
+  }
+  return { name, arguments: metadata.arguments ?? metadata.args ?? {} };
+}
+
+function stepHeading(step: ThreadStep): string {
+  const parts = [
+    step.sequence !== undefined ? `${step.sequence}.` : undefined,
+    step.title || step.eventType || step.id,
+    step.createdAt ? `· ${step.createdAt}` : undefined,
+  ];
+  return parts.filter(Boolean).join(' ');
+}
+
+function fence(content: string, language: string): string {
+  // Use a fence longer than any backtick run inside the content
+  const longest = Math.max(2, ...(content.match(/`+/g) ?? []).map((run) => run.length));
+  const marker = '`'.repeat(longest + 1);
+  return `${marker}${language}\n${content}\n${marker}`;
+}
+
+function formatDuration(ms?: number): string {
+  if (ms === undefined) {
+    return 'unknown';
+  }
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) {
+    return `${seconds}s`;
+  }
+  const minutes = Math.floor(seconds / 60);
+  return minutes < 60 ? `${minutes}m ${seconds % 60}s` : `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+function formatCost(cost: number): string {
+  return `$${cost.toFixed(4)}`;
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1).replace(/_/g, ' ');
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
@@ -28,6 +28,7 @@ export interface ApiError {
   message?: string;
   code?: string;
   details?: Record<string, unknown>;
+  requestId?: string;
 }
 
 // ============================================================================
@@ -438,7 +439,7 @@ export interface EnvironmentForkFromSnapshotResponse {
 // Thread Types
 // ============================================================================
 
-export type ThreadStatus = 'active' | 'running' | 'completed' | 'failed' | 'archived' | 'cancelled' | 'deleted';
+export type ThreadStatus = 'active' | 'running' | 'paused' | 'completed' | 'failed' | 'archived' | 'cancelled' | 'deleted';
 
 export interface ThreadMessage {
   role: 'user' | 'assistant' | 'system';
@@ -446,6 +447,29 @@ export interface ThreadMessage {
   timestamp?: string;
 }
 
+/**
+ * When a queued message is delivered: `steer` injects it into the run in
+ * progress, `next_turn` starts a new turn once the current one finishes
+ */
+export type QueuedMessageMode = 'steer' | 'next_turn';
+
+/**
+ * A message waiting to be picked up by a thread's agent
+ */
+export interface QueuedMessage {
+  id: string;
+  threadId: string;
+  content: string;
+  mode: QueuedMessageMode;
+  createdAt: string;
+}
+
+export interface QueueMessageParams {
+  content: string;
+  /** @default 'next_turn' */
+  mode?: QueuedMessageMode;
+}
+
 export interface Thread {
   id: string;
   projectId: string;
@@ -468,6 +492,23 @@ export interface CreateThreadParams {
   title?: string;
 }
 
+/**
+ * A message loaded into a thread by `threads.import()`
+ */
+export interface ImportedThreadMessage {
+  role: 'user' | 'assistant' | 'system' | 'tool';
+  content: string;
+  /** Tool calls made by an assistant message */
+  toolCalls?: Array<{ id: string; name: string; arguments: Record<string, unknown> }>;
+  /** The call a `tool` message answers */
+  toolCallId?: string;
+  /** Tool name, for results without a call ID */
+  name?: string;
+  isError?: boolean;
+  attachments?: MessageAttachment[];
+  timestamp?: string;
+}
+
 export interface UpdateThreadParams {
   title?: string;
   status?: ThreadStatus;
@@ -540,6 +581,18 @@ export interface ResearchSession {
   updatedAt: string;
 }
 
+/**
+ * Response of `GET /threads/:id/context`
+ */
+export interface ThreadContextEstimate {
+  threadId: string;
+  /** Tokens the thread's context is estimated to use */
+  estimatedTokens: number;
+  /** Context window of the thread's model, in tokens */
+  contextWindow?: number;
+  [key: string]: unknown;
+}
+
 export interface SendMessageParams {
   content: string;
   mcpServers?: McpServer[];
@@ -548,8 +601,30 @@ export interface SendMessageParams {
   setupScripts?: string[];
   agentConfig?: AgentConfig;
   internetAccess?: boolean;
-  attachments?: unknown[];
+  attachments?: MessageAttachment[];
   runId?: string;
+  /** Tools the SDK executes locally; see `SendMessageOptions.tools` */
+  clientTools?: ClientToolDefinition[];
+  /** Pause before tool calls, file changes and commands until approved */
+  requireApproval?: boolean;
+}
+
+/**
+ * Attachment as sent to the API: inline base64, a previous upload, or a URL
+ */
+export type MessageAttachment =
+  | { type: 'inline'; name: string; mimeType: string; size: number; data: string }
+  | { type: 'upload'; id: string; name: string; mimeType: string; size: number }
+  | { type: 'url'; url: string; name?: string; mimeType?: string };
+
+/**
+ * Client-side tool description sent with a message
+ */
+export interface ClientToolDefinition {
+  name: string;
+  description?: string;
+  /** JSON Schema for the arguments */
+  parameters: Record<string, unknown>;
 }
 
 export interface AgentConfig {
@@ -559,34 +634,161 @@ export interface AgentConfig {
 }
 
 // SSE Event Types
+
+/**
+ * Loose shape of any stream event, including types this SDK does not know yet
+ */
 export interface StreamEvent {
   type: string;
   timestamp?: string;
   [key: string]: unknown;
 }
 
-export interface ResponseStartedEvent extends StreamEvent {
+/**
+ * Fields shared by every typed stream event
+ */
+export interface StreamEventBase {
+  timestamp?: string;
+  /** Run the event belongs to, when the server includes it */
+  runId?: string;
+  /** Set on events synthesized after recovering an interrupted stream */
+  recovered?: boolean;
+}
+
+export interface ResponseStartedEvent extends StreamEventBase {
   type: 'response.started';
 }
 
-export interface ResponseItemCompletedEvent extends StreamEvent {
+/**
+ * Incremental assistant text
+ */
+export interface TextDeltaEvent extends StreamEventBase {
+  type: 'response.text.delta';
+  delta: string;
+}
+
+/**
+ * Summary of the model's reasoning for the current step
+ */
+export interface ReasoningEvent extends StreamEventBase {
+  type: 'response.reasoning';
+  summary: string;
+}
+
+/**
+ * The agent started calling a tool
+ */
+export interface ToolCallStartedEvent extends StreamEventBase {
+  type: 'response.tool_call.started';
+  callId: string;
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
+/**
+ * A tool call finished
+ */
+export interface ToolCallCompletedEvent extends StreamEventBase {
+  type: 'response.tool_call.completed';
+  callId: string;
+  name: string;
+  arguments: Record<string, unknown>;
+  output: string;
+  isError?: boolean;
+}
+
+export type FileChangeOperation = 'create' | 'update' | 'delete' | 'rename';
+
+/**
+ * The agent changed a file on the computer
+ */
+export interface FileChangeEvent extends StreamEventBase {
+  type: 'response.file_change';
+  path: string;
+  operation: FileChangeOperation;
+  /** Original path for renames */
+  previousPath?: string;
+  /** Unified diff of the change, when available */
+  diff?: string;
+}
+
+/**
+ * An action the agent wants to take that is waiting for sign-off
+ */
+export type ApprovalAction =
+  | { kind: 'tool_call'; name: string; arguments: Record<string, unknown> }
+  | { kind: 'file_change'; path: string; operation: FileChangeOperation; diff?: string }
+  | { kind: 'command'; command: string };
+
+/**
+ * The agent is paused until the action is approved or denied
+ */
+export interface ApprovalRequestedEvent extends StreamEventBase {
+  type: 'response.approval.requested';
+  approvalId: string;
+  action: ApprovalAction;
+}
+
+export interface StepStartedEvent extends StreamEventBase {
+  type: 'response.step.started';
+  step: number;
+}
+
+export interface StepCompletedEvent extends StreamEventBase {
+  type: 'response.step.completed';
+  step: number;
+}
+
+/**
+ * Running token usage for the run
+ */
+export interface UsageEvent extends StreamEventBase {
+  type: 'response.usage';
+  usage: TokenUsage;
+}
+
+export interface TextItem {
+  type: 'text';
+  content: string;
+}
+
+export interface ToolCallItem {
+  type: 'tool_call';
+  callId: string;
+  name: string;
+  arguments: Record<string, unknown>;
+  output?: string;
+  isError?: boolean;
+}
+
+export interface ReasoningItem {
+  type: 'reasoning';
+  summary: string;
+}
+
+export interface FileChangeItem {
+  type: 'file_change';
+  path: string;
+  operation: FileChangeOperation;
+  previousPath?: string;
+  diff?: string;
+}
+
+export type ResponseItem = TextItem | ToolCallItem | ReasoningItem | FileChangeItem;
+
+export interface ResponseItemCompletedEvent extends StreamEventBase {
   type: 'response.item.completed';
-  item: {
-    type: 'text' | 'tool_call' | 'reasoning' | 'file_change';
-    content?: string;
-    [key: string]: unknown;
-  };
+  item: ResponseItem;
 }
 
-export interface ResponseCompletedEvent extends StreamEvent {
+export interface ResponseCompletedEvent extends StreamEventBase {
   type: 'response.completed';
   response: {
     content: string;
-    [key: string]: unknown;
   };
 }
 
-export interface StreamCompletedEvent extends StreamEvent {
+export interface StreamCompletedEvent extends StreamEventBase {
   type: 'stream.completed';
   run: {
     id: string;
@@ -595,23 +797,40 @@ export interface StreamCompletedEvent extends StreamEvent {
       input: number;
       output: number;
     };
-    [key: string]: unknown;
   };
 }
 
-export interface StreamErrorEvent extends StreamEvent {
+export interface StreamErrorEvent extends StreamEventBase {
   type: 'stream.error';
   error: string;
   message?: string;
+  code?: string;
 }
 
+/**
+ * Every event a run stream can emit, discriminated by `type`
+ */
 export type MessageStreamEvent =
   | ResponseStartedEvent
+  | TextDeltaEvent
+  | ReasoningEvent
+  | ToolCallStartedEvent
+  | ToolCallCompletedEvent
+  | FileChangeEvent
+  | ApprovalRequestedEvent
+  | StepStartedEvent
+  | StepCompletedEvent
+  | UsageEvent
   | ResponseItemCompletedEvent
   | ResponseCompletedEvent
   | StreamCompletedEvent
   | StreamErrorEvent;
 
+/**
+ * Look up an event interface by its `type`
+ */
+export type MessageStreamEventOfType<T extends MessageStreamEvent['type']> = Extract<MessageStreamEvent, { type: T }>;
+
 // ============================================================================
 // Run Types
 // ============================================================================
@@ -0,0 +1,145 @@
+/**
+ * Wait-for-completion helpers
+ *
+ * Builds, deployments, runs and research sessions finish asynchronously.
+ * `waitFor()` polls until a condition reaches a terminal state, backing off
+ * between polls, and is what `threads.waitForIdle()`,
+ * `environments.waitForBuild()` and the other `waitFor*` methods use.
+ *
+ * A failed terminal state throws `TerminalStateError`; running out of time
+ * throws `TimeoutError`; aborting the signal throws `RequestAbortedError`.
+ */
+
+import { throwIfAborted } from './ApiClient';
+import type { RequestOptions } from './ApiClient';
+import { TerminalStateError, TimeoutError } from './errors';
+import { sleep } from './retry';
+
+export interface WaitOptions<T> {
+  /**
+   * Delay before the second poll in milliseconds
+   * @default 1000
+   */
+  initialDelayMs?: number;
+
+  /**
+   * Upper bound for the delay between polls in milliseconds
+   * @default 15000
+   */
+  maxDelayMs?: number;
+
+  /**
+   * Factor applied to the delay after each poll; `1` polls at a fixed interval
+   * @default 1.5
+   */
+  multiplier?: number;
+
+  /**
+   * Give up after this many milliseconds
+   * @default 600000 (10 minutes)
+   */
+  timeoutMs?: number;
+
+  /**
+   * Abort signal. Aborting stops waiting; it does not cancel the work.
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Called with every polled state, including the final one
+   */
+  onProgress?: (state: T, attempt: number) => void;
+}
+
+/**
+ * `done` stops waiting, `failed` throws, `pending` polls again
+ */
+export type WaitOutcome = 'pending' | 'done' | 'failed';
+
+export interface WaitCondition<T> {
+  /** Fetch the current state */
+  poll: (requestOptions: RequestOptions) => Promise<T>;
+  /** Classify a polled state */
+  check: (state: T) => WaitOutcome;
+  /** What is being waited on, for error messages, e.g. `build of environment env_1` */
+  description: string;
+  /**
+   * Error code for a failed terminal state
+   * @default 'WAIT_FAILED'
+   */
+  failureCode?: string;
+  /** Explanation of a failed state, appended to the error message */
+  failureReason?: (state: T) => string | null | undefined;
+}
+
+/**
+ * Poll until `condition` reports `done`, and return the final state
+ *
+ * @example
+ * ```typescript
+ * const build = await waitFor({
+ *   description: 'build of environment env_1',
+ *   poll: (requestOptions) => client.environments.getBuildStatus('env_1', requestOptions),
+ *   check: (status) => status.buildStatus === 'ready' ? 'done' : status.buildStatus === 'failed' ? 'failed' : 'pending',
+ * }, { timeoutMs: 300000 });
+ * ```
+ */
+export async function waitFor<T>(condition: WaitCondition<T>, options: WaitOptions<T> = {}): Promise<T> {
+  const {
+    initialDelayMs = 1000,
+    maxDelayMs = 15000,
+    multiplier = 1.5,
+    timeoutMs = 600000,
+    signal,
+    onProgress,
+  } = options;
+  const deadline = Date.now() + timeoutMs;
+  let delay = initialDelayMs;
+  const timedOut = () =>
+    new TimeoutError(`Timed out after ${timeoutMs}ms waiting for the ${condition.description}`);
+
+  // Aborted at the deadline or when the caller aborts, so a slow poll is cut short
+  const controller = new AbortController();
+  const onAbort = () => controller.abort();
+  signal?.addEventListener('abort', onAbort, { once: true });
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+  try {
+    for (let attempt = 1; ; attempt++) {
+      throwIfAborted(signal);
+      let state: T;
+      try {
+        state = await condition.poll({ signal: controller.signal });
+      } catch (error) {
+        if (controller.signal.aborted && !signal?.aborted) {
+          throw timedOut();
+        }
+        throw error;
+      }
+      onProgress?.(state, attempt);
+
+      const outcome = condition.check(state);
+      if (outcome === 'done') {
+        return state;
+      }
+      if (outcome === 'failed') {
+        const reason = condition.failureReason?.(state);
+        throw new TerminalStateError(
+          `The ${condition.description} failed${reason ? `: ${reason}` : ''}`,
+          condition.failureCode ?? 'WAIT_FAILED',
+          state
+        );
+      }
+
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) {
+        throw timedOut();
+      }
+      await sleep(Math.min(delay, remaining), signal);
+      delay = Math.min(maxDelayMs, delay * multiplier);
+    }
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+}
@@ -32,15 +32,244 @@ export {
   TestbaseClient,
   // Error class
   ApiClientError,
+  // Streaming
+  MessageStream,
 } from './ComputerAgentsClient';
 
 export type {
   ComputerAgentsClientConfig,
   RunOptions,
   RunResult,
+  StreamOptions,
+  ReconnectOptions,
   ApiClientConfig,
+  RequestOptions,
+  RetryOptions,
+  ApiRequest,
+  FetchLike,
+  Middleware,
+  MiddlewareNext,
+  Logger,
+  LogLevel,
+  LogFields,
+  Tracer,
+  Span,
+  SpanAttributes,
+  SpanContext,
 } from './ComputerAgentsClient';
 
+export {
+  createConsoleLogger,
+  noopLogger,
+  redact,
+} from './cloud/logger';
+
+export {
+  noopTracer,
+  InMemoryTracer,
+  getActiveSpan,
+  formatTraceparent,
+} from './cloud/tracing';
+
+export type {
+  SpanAttributeValue,
+  SpanStatusCode,
+  StartSpanOptions,
+  RecordedSpan,
+} from './cloud/tracing';
+
+// ============================================================================
+// Errors
+// ============================================================================
+
+export {
+  AuthenticationError,
+  PermissionDeniedError,
+  NotFoundError,
+  ConflictError,
+  ValidationError,
+  InvalidArgumentError,
+  RateLimitError,
+  ServerError,
+  TimeoutError,
+  ConnectionError,
+  RequestAbortedError,
+  StreamError,
+  StructuredOutputError,
+  TerminalStateError,
+  GitError,
+} from './cloud/errors';
+
+export type {
+  ApiErrorContext,
+  StreamErrorContext,
+  ValidationFieldError,
+} from './cloud/errors';
+
+// ============================================================================
+// Pagination
+// ============================================================================
+
+export { PageIterator } from './cloud/pagination';
+
+export type {
+  Page,
+  PageIteratorOptions,
+} from './cloud/pagination';
+
+// ============================================================================
+// Server-Sent Events
+// ============================================================================
+
+export { SSEDecoder, readSSE } from './cloud/sse';
+export type { SSEMessage } from './cloud/sse';
+
+// ============================================================================
+// Stream Event Handlers
+// ============================================================================
+
+export { STREAM_EVENT_NAMES, dispatchStreamEvent } from './cloud/streamEvents';
+export type { StreamEventHandlers, StreamEventName } from './cloud/streamEvents';
+
+// ============================================================================
+// Structured Output
+// ============================================================================
+
+export type {
+  JsonSchema,
+  OutputValidator,
+  StructuredOutputOptions,
+} from './cloud/structuredOutput';
+
+// ============================================================================
+// Client-side Tools
+// ============================================================================
+
+export { defineTool } from './cloud/tools';
+
+export type {
+  ClientTool,
+  ToolCallContext,
+  ToolOutputSubmission,
+} from './cloud/tools';
+
+// ============================================================================
+// Attachments
+// ============================================================================
+
+export { MAX_ATTACHMENT_BYTES, INLINE_ATTACHMENT_BYTES } from './cloud/attachments';
+
+export type {
+  Attachment,
+  AttachmentUpload,
+  ImageMimeType,
+} from './cloud/attachments';
+
+// ============================================================================
+// Transcripts
+// ============================================================================
+
+export type {
+  ExportThreadOptions,
+  TranscriptFormat,
+} from './cloud/transcript';
+
+// ============================================================================
+// Conversation Import
+// ============================================================================
+
+export {
+  fromOpenAIMessages,
+  fromAnthropicMessages,
+  detectConversationFormat,
+} from './cloud/conversationImport';
+
+export type {
+  ConversationFormat,
+  OpenAIChatMessage,
+  OpenAIContentPart,
+  OpenAIToolCall,
+  AnthropicMessage,
+  AnthropicContentBlock,
+  AnthropicImageBlock,
+  AnthropicDocumentBlock,
+} from './cloud/conversationImport';
+
+// ============================================================================
+// Diffs
+// ============================================================================
+
+export { parseUnifiedDiff, applyPatch } from './cloud/diff';
+
+export type {
+  DiffFile,
+  DiffFileStatus,
+  DiffHunk,
+  DiffLine,
+  DiffLineType,
+  ApplyPatchOptions,
+  ApplyPatchResult,
+  PatchConflict,
+} from './cloud/diff';
+
+export type {
+  PullChangesOptions,
+  PullChangesResult,
+  PulledCommit,
+  PullConflict,
+} from './cloud/pullChanges';
+
+// ============================================================================
+// Context Policy
+// ============================================================================
+
+export type {
+  ContextPolicy,
+  ContextPolicyAction,
+  ContextPolicyEvent,
+  ContextThreshold,
+} from './cloud/contextPolicy';
+
+// ============================================================================
+// Waiters
+// ============================================================================
+
+export { waitFor } from './cloud/waiters';
+
+export type {
+  WaitOptions,
+  WaitCondition,
+  WaitOutcome,
+} from './cloud/waiters';
+
+// ============================================================================
+// Conversations
+// ============================================================================
+
+export { Conversation } from './cloud/Conversation';
+
+export type {
+  ConversationOptions,
+  ConversationState,
+  ConversationSendOptions,
+  ConversationStreamOptions,
+} from './cloud/Conversation';
+
+// ============================================================================
+// Approvals
+// ============================================================================
+
+export type {
+  ApprovalPolicy,
+  ApprovalRule,
+  ApprovalRuleDecision,
+  ApprovalRequest,
+  ApprovalDecision,
+  ApprovalHandler,
+  ApprovalRecord,
+  ApprovalSubmission,
+} from './cloud/approvals';
+
 // ============================================================================
 // Resource Managers (for advanced usage)
 // ============================================================================
@@ -50,6 +279,7 @@ export {
   EnvironmentsResource,
   ComputersResource,
   ThreadsResource,
+  RunsResource,
   AgentsResource,
   ResourcesResource,
   WebAppsResource,
@@ -69,8 +299,11 @@ export {
 
 export type {
   StreamEventCallback,
+  StreamMessageOptions,
   SendMessageOptions,
   SendMessageResult,
+  ImportThreadParams,
+  ThreadStep,
   ListEnvironmentsParams,
   ListEnvironmentChangesParams,
   ListResourcesParams,
@@ -146,9 +379,15 @@ export type {
   // Threads
   Thread,
   CreateThreadParams,
+  ImportedThreadMessage,
+  QueuedMessage,
+  QueuedMessageMode,
+  QueueMessageParams,
   UpdateThreadParams,
   ListThreadsParams,
   SendMessageParams,
+  ClientToolDefinition,
+  MessageAttachment,
   ThreadMessage,
   ThreadStatus,
   AgentConfig,
@@ -157,12 +396,31 @@ export type {
   SearchThreadResult,
   SearchThreadsResponse,
   ThreadLogEntry,
+  ThreadContextEstimate,
   ResearchSession,
 
   // Stream Events
   StreamEvent,
+  StreamEventBase,
   MessageStreamEvent,
+  MessageStreamEventOfType,
   ResponseStartedEvent,
+  TextDeltaEvent,
+  ReasoningEvent,
+  ToolCallStartedEvent,
+  ToolCallCompletedEvent,
+  FileChangeEvent,
+  FileChangeOperation,
+  ApprovalAction,
+  ApprovalRequestedEvent,
+  StepStartedEvent,
+  StepCompletedEvent,
+  UsageEvent,
+  ResponseItem,
+  TextItem,
+  ToolCallItem,
+  ReasoningItem,
+  FileChangeItem,
   ResponseItemCompletedEvent,
   ResponseCompletedEvent,
   StreamCompletedEvent,
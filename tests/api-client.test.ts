@@ -0,0 +1,356 @@
+/**
+ * Unit tests for the low-level ApiClient
+ *
+ * These tests stub the global fetch and do not require an API key.
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  ApiClient,
+  ApiClientError,
+  ComputerAgentsClient,
+  ConnectionError,
+  InMemoryTracer,
+  NotFoundError,
+  RateLimitError,
+  TimeoutError,
+  ValidationError,
+  redact,
+} from '../src';
+
+function jsonResponse(body: unknown, status = 200, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers },
+  });
+}
+
+describe('ApiClient retries', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should retry idempotent requests on transient status codes', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(jsonResponse({ error: 'Bad Gateway' }, 502))
+      .mockResolvedValueOnce(jsonResponse({ ok: true }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const client = new ApiClient({ apiKey: 'test', retry: { initialDelayMs: 1 } });
+    const result = await client.get<{ ok: boolean }>('/health');
+
+    expect(result.ok).toBe(true);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('should honour Retry-After on 429 responses', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(jsonResponse({ error: 'Too Many Requests' }, 429, { 'Retry-After': '0' }))
+      .mockResolvedValueOnce(jsonResponse({ ok: true }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const client = new ApiClient({ apiKey: 'test', retry: { initialDelayMs: 60000 } });
+    await client.get('/health');
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('should reuse the same Idempotency-Key when retrying POST requests', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(jsonResponse({ error: 'Unavailable' }, 503))
+      .mockResolvedValueOnce(jsonResponse({ thread: { id: 'thread_1' } }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const client = new ApiClient({ apiKey: 'test', retry: { initialDelayMs: 1 } });
+    await client.post('/threads', { environmentId: 'env_1' });
+
+    const firstKey = fetchMock.mock.calls[0][1].headers['Idempotency-Key'];
+    const secondKey = fetchMock.mock.calls[1][1].headers['Idempotency-Key'];
+    expect(firstKey).toBeTruthy();
+    expect(secondKey).toBe(firstKey);
+  });
+
+  it('should not retry POST requests without an idempotency key', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(jsonResponse({ error: 'Unavailable' }, 503));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const client = new ApiClient({ apiKey: 'test', idempotencyKeys: false, retry: { initialDelayMs: 1 } });
+
+    await expect(client.post('/threads', {})).rejects.toBeInstanceOf(ApiClientError);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should allow disabling retries per call', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(jsonResponse({ error: 'Unavailable' }, 503));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const client = new ApiClient({ apiKey: 'test', retry: { initialDelayMs: 1 } });
+
+    await expect(client.get('/health', undefined, { retry: false })).rejects.toMatchObject({ status: 503 });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('ApiClient transport and middleware', () => {
+  it('should send requests through middleware in order and then the custom fetch', async () => {
+    const calls: string[] = [];
+    const fetchMock = vi.fn(async () => {
+      calls.push('fetch');
+      return jsonResponse({ ok: true });
+    });
+
+    const client = new ApiClient({
+      apiKey: 'test',
+      fetch: fetchMock,
+      middleware: [
+        async (request, next) => {
+          calls.push('first');
+          request.headers['X-Test'] = '1';
+          return next(request);
+        },
+      ],
+    });
+    client.use(async (request, next) => {
+      calls.push('second');
+      const response = await next(request);
+      calls.push(`status:${response.status}`);
+      return response;
+    });
+
+    await client.get('/health');
+
+    expect(calls).toEqual(['first', 'second', 'fetch', 'status:200']);
+    expect(fetchMock.mock.calls[0][1].headers['X-Test']).toBe('1');
+  });
+
+  it('should pass FormData bodies through without JSON encoding', async () => {
+    const fetchMock = vi.fn(async () => jsonResponse({ success: true }));
+    const client = new ApiClient({ apiKey: 'test', fetch: fetchMock });
+
+    const formData = new FormData();
+    formData.append('path', 'src');
+    await client.request('POST', '/environments/env_1/files/upload', { body: formData });
+
+    const init = fetchMock.mock.calls[0][1];
+    expect(init.body).toBe(formData);
+    expect(init.headers['Content-Type']).toBeUndefined();
+  });
+});
+
+describe('ApiClient cancellation', () => {
+  it('should reject with ABORTED when the caller aborts', async () => {
+    const fetchMock = vi.fn((_url: string, init: RequestInit) => new Promise<Response>((_resolve, reject) => {
+      init.signal?.addEventListener('abort', () => reject(Object.assign(new Error('aborted'), { name: 'AbortError' })));
+    }));
+    const client = new ApiClient({ apiKey: 'test', fetch: fetchMock });
+
+    const controller = new AbortController();
+    const pending = client.get('/threads', undefined, { signal: controller.signal });
+    controller.abort();
+
+    await expect(pending).rejects.toMatchObject({ code: 'ABORTED' });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not start a request when the signal is already aborted', async () => {
+    const fetchMock = vi.fn(async () => jsonResponse({ ok: true }));
+    const client = new ApiClient({ apiKey: 'test', fetch: fetchMock });
+
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(client.get('/health', undefined, { signal: controller.signal })).rejects.toMatchObject({ code: 'ABORTED' });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
+
+describe('ApiClient errors', () => {
+  it('should map 404 responses to NotFoundError with request context', async () => {
+    const fetchMock = vi.fn(async () => jsonResponse({ error: 'Not Found', message: 'Thread not found' }, 404, { 'X-Request-Id': 'req_1' }));
+    const client = new ApiClient({ apiKey: 'test', fetch: fetchMock });
+
+    const error = await client.get('/threads/thread_1').catch((e) => e);
+
+    expect(error).toBeInstanceOf(NotFoundError);
+    expect(error).toBeInstanceOf(ApiClientError);
+    expect(error).toMatchObject({ status: 404, requestId: 'req_1', method: 'GET', path: '/threads/thread_1' });
+  });
+
+  it('should expose Retry-After on RateLimitError', async () => {
+    const fetchMock = vi.fn(async () => jsonResponse({ error: 'Too Many Requests' }, 429, { 'Retry-After': '3' }));
+    const client = new ApiClient({ apiKey: 'test', fetch: fetchMock, retry: false });
+
+    const error = await client.get('/threads').catch((e) => e);
+
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect(error.retryAfterMs).toBe(3000);
+  });
+
+  it('should parse field errors into ValidationError', async () => {
+    const fetchMock = vi.fn(async () => jsonResponse({
+      error: 'Validation failed',
+      details: { fields: [{ field: 'name', message: 'Required' }] },
+    }, 422));
+    const client = new ApiClient({ apiKey: 'test', fetch: fetchMock });
+
+    const error = await client.post('/projects', {}).catch((e) => e);
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.fieldErrors).toEqual([{ field: 'name', message: 'Required' }]);
+  });
+
+  it('should keep the server code and details on a 408 TimeoutError', async () => {
+    const fetchMock = vi.fn(async () => jsonResponse({
+      error: 'Request Timeout',
+      code: 'UPSTREAM_TIMEOUT',
+      details: { upstream: 'sandbox' },
+    }, 408));
+    const client = new ApiClient({ apiKey: 'test', fetch: fetchMock, retry: false });
+
+    const error = await client.get('/threads').catch((e) => e);
+
+    expect(error).toBeInstanceOf(TimeoutError);
+    expect(error).toMatchObject({ status: 408, code: 'UPSTREAM_TIMEOUT', details: { upstream: 'sandbox' } });
+  });
+
+  it('should raise ApiClientError when a successful response is not JSON', async () => {
+    const fetchMock = vi.fn(async () => new Response('<html>', { headers: { 'X-Request-Id': 'req_2' } }));
+    const client = new ApiClient({ apiKey: 'test', fetch: fetchMock });
+
+    const error = await client.get('/threads').catch((e) => e);
+
+    expect(error).toBeInstanceOf(ApiClientError);
+    expect(error).toMatchObject({ status: 0, code: 'INVALID_RESPONSE', requestId: 'req_2', path: '/threads' });
+  });
+
+  it('should raise ConnectionError when no response is received', async () => {
+    const fetchMock = vi.fn(async () => {
+      throw new TypeError('fetch failed');
+    });
+    const client = new ApiClient({ apiKey: 'test', fetch: fetchMock, retry: false });
+
+    const error = await client.get('/health').catch((e) => e);
+
+    expect(error).toBeInstanceOf(ConnectionError);
+    expect(error).toMatchObject({ status: 0, code: 'NETWORK_ERROR' });
+  });
+});
+
+describe('ApiClient logging', () => {
+  function createLogger() {
+    const entries: Array<{ level: string; message: string; fields?: Record<string, unknown> }> = [];
+    const log = (level: string) => (message: string, fields?: Record<string, unknown>) => {
+      entries.push({ level, message, fields });
+    };
+    return {
+      entries,
+      logger: { debug: log('debug'), info: log('info'), warn: log('warn'), error: log('error') },
+    };
+  }
+
+  it('should redact the Authorization header and secret payloads', async () => {
+    const fetchMock = vi.fn(async () => jsonResponse({ key: 'DB_PASSWORD', token: 'session-token' }));
+    const { entries, logger } = createLogger();
+    const client = new ApiClient({ apiKey: 'sk-secret', fetch: fetchMock, logger, logLevel: 'debug' });
+
+    await client.post('/environments/env_1/secrets', { key: 'DB_PASSWORD', value: 'hunter2' });
+
+    const serialized = JSON.stringify(entries);
+    expect(serialized).not.toContain('sk-secret');
+    expect(serialized).not.toContain('hunter2');
+    expect(serialized).not.toContain('session-token');
+    expect(entries.map((e) => e.message)).toEqual(['request', 'response']);
+    expect(entries[0].fields?.headers).toMatchObject({ Authorization: '[REDACTED]' });
+  });
+
+  it('should redact secret values echoed in response bodies', async () => {
+    const fetchMock = vi.fn(async () => jsonResponse({ secret: { key: 'DB_PASSWORD', value: 'hunter2' } }));
+    const { entries, logger } = createLogger();
+    const client = new ApiClient({ apiKey: 'test', fetch: fetchMock, logger, logLevel: 'debug' });
+
+    await client.put('/environments/env_1/secrets/DB_PASSWORD', { value: 'hunter2' });
+
+    expect(JSON.stringify(entries)).not.toContain('hunter2');
+    expect(entries[1].fields?.body).toEqual({ secret: { key: 'DB_PASSWORD', value: '[REDACTED]' } });
+  });
+
+  it('should only mark true cycles as circular', () => {
+    const shared = { name: 'shared' };
+    const cyclic: Record<string, unknown> = { name: 'root' };
+    cyclic.self = cyclic;
+
+    expect(redact({ a: shared, b: shared })).toEqual({ a: shared, b: shared });
+    expect(redact(cyclic)).toEqual({ name: 'root', self: '[Circular]' });
+  });
+
+  it('should drop entries below the configured level', async () => {
+    const fetchMock = vi.fn(async () => jsonResponse({ ok: true }));
+    const { entries, logger } = createLogger();
+    const client = new ApiClient({ apiKey: 'test', fetch: fetchMock, logger });
+
+    await client.get('/health');
+
+    expect(entries).toHaveLength(0);
+  });
+});
+
+describe('ApiClient tracing', () => {
+  it('should record a span per request and inject traceparent', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(jsonResponse({ error: 'Unavailable' }, 503))
+      .mockResolvedValueOnce(jsonResponse({ id: 'thread_1' }));
+    const tracer = new InMemoryTracer();
+    const client = new ApiClient({ apiKey: 'test', fetch: fetchMock, tracer, retry: { initialDelayMs: 1 } });
+
+    await client.get('/threads/thread_1');
+
+    const [span] = tracer.spans;
+    expect(span.name).toBe('GET /threads/:id');
+    expect(span.status).toBe('ok');
+    expect(span.attributes).toMatchObject({
+      'http.route': '/threads/:id',
+      'http.response.status_code': 200,
+      'http.request.resend_count': 1,
+    });
+    const traceparent = fetchMock.mock.calls[1][1].headers['traceparent'];
+    expect(traceparent).toBe(`00-${span.traceId}-${span.spanId}-01`);
+  });
+
+  it('should name spans after the route with file paths templated', async () => {
+    const fetchMock = vi.fn(async () => new Response('contents'));
+    const tracer = new InMemoryTracer();
+    const client = new ComputerAgentsClient({ apiKey: 'test', fetch: fetchMock, tracer });
+
+    await client.files.getFile('env_1', 'src/index.ts');
+    await client.files.getFile('env_1', 'docs/readme');
+
+    expect(tracer.findSpans('GET /environments/:id/files/:path')).toHaveLength(2);
+  });
+
+  it('should nest thread creation and streaming spans under run()', async () => {
+    const sse = [
+      'data: {"type":"response.completed","response":{"content":"done"}}',
+      '',
+      'data: {"type":"stream.completed","run":{"id":"run_1","status":"completed"}}',
+      '',
+      '',
+    ].join('\n');
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(jsonResponse({ thread: { id: 'thread_1' } }))
+      .mockResolvedValueOnce(new Response(sse, { headers: { 'Content-Type': 'text/event-stream' } }));
+    const tracer = new InMemoryTracer();
+    const client = new ComputerAgentsClient({ apiKey: 'test', fetch: fetchMock, tracer });
+
+    await client.run('Hello', { computerId: 'env_1' });
+
+    const [run] = tracer.findSpans('computer_agents.run');
+    const [create] = tracer.findSpans('computer_agents.thread.create');
+    const [stream] = tracer.findSpans('computer_agents.thread.stream');
+    expect(run.attributes['computer_agents.run_id']).toBe('run_1');
+    expect(create.parentSpanId).toBe(run.spanId);
+    expect(stream.parentSpanId).toBe(run.spanId);
+    expect(tracer.findSpans('POST /threads')[0].parentSpanId).toBe(create.spanId);
+    expect(tracer.findSpans('POST /threads/:id/messages')[0].parentSpanId).toBe(stream.spanId);
+    expect(new Set(tracer.spans.map((s) => s.traceId)).size).toBe(1);
+  });
+});
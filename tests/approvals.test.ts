@@ -0,0 +1,141 @@
+/**
+ * Unit tests for human-in-the-loop approvals
+ *
+ * These tests use a stubbed fetch and do not require an API key.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { ComputerAgentsClient, ValidationError } from '../src';
+import type { ApprovalRecord } from '../src';
+
+function jsonResponse(body: unknown): Response {
+  return new Response(JSON.stringify(body), { headers: { 'Content-Type': 'application/json' } });
+}
+
+function sseResponse(events: unknown[]): Response {
+  const body = events.map((event) => `data: ${JSON.stringify(event)}\n\n`).join('');
+  return new Response(body, { headers: { 'Content-Type': 'text/event-stream' } });
+}
+
+function runRequesting(...actions: unknown[]): unknown[] {
+  return [
+    ...actions.map((action, index) => ({ type: 'response.approval.requested', approvalId: `apr_${index + 1}`, action })),
+    { type: 'response.completed', response: { content: 'done' } },
+    { type: 'stream.completed', run: { id: 'run_1', status: 'completed' } },
+  ];
+}
+
+function stubFetch(events: unknown[]) {
+  return vi.fn(async (url: string, _init: RequestInit) => (
+    url.includes('/approvals/') ? jsonResponse({ success: true }) : sseResponse(events)
+  ));
+}
+
+function submissions(fetchMock: ReturnType<typeof stubFetch>): Record<string, unknown> {
+  return Object.fromEntries(
+    fetchMock.mock.calls
+      .filter(([url]) => url.includes('/approvals/'))
+      .map(([url, init]) => [new URL(url).pathname.split('/').pop(), JSON.parse(init.body as string)])
+  );
+}
+
+describe('Approvals', () => {
+  it('should apply policy rules before asking the hook', async () => {
+    const fetchMock = stubFetch(runRequesting(
+      { kind: 'tool_call', name: 'git_push', arguments: { branch: 'main' } },
+      { kind: 'file_change', path: 'src/app/index.ts', operation: 'update' },
+      { kind: 'command', command: 'rm -rf build' },
+    ));
+    const client = new ComputerAgentsClient({ apiKey: 'test', fetch: fetchMock });
+    const onApprovalRequired = vi.fn(async () => ({ type: 'edit' as const, command: 'rm -rf build/tmp' }));
+    const audit: ApprovalRecord[] = [];
+
+    const result = await client.threads.sendMessage('thread_1', {
+      content: 'Ship it',
+      onApprovalRequired,
+      approvalPolicy: {
+        rules: [
+          { tool: 'git_*', decision: 'deny' },
+          { path: 'src/**', decision: 'approve' },
+          { command: /^rm /, decision: 'ask' },
+        ],
+        onDecision: (record) => audit.push(record),
+      },
+    });
+
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body as string).requireApproval).toBe(true);
+    expect(onApprovalRequired).toHaveBeenCalledTimes(1);
+    expect(submissions(fetchMock)).toEqual({
+      apr_1: { decision: 'deny', reason: 'Denied by approval rule 0' },
+      apr_2: { decision: 'approve' },
+      apr_3: { decision: 'approve', command: 'rm -rf build/tmp' },
+    });
+    expect(result.approvals.map((r) => [r.decidedBy, r.ruleIndex])).toEqual([['rule', 0], ['rule', 1], ['hook', undefined]]);
+    expect(audit).toEqual(result.approvals);
+  });
+
+  it('should apply the timeout decision when the hook does not answer', async () => {
+    const fetchMock = stubFetch(runRequesting({ kind: 'command', command: 'git push --force' }));
+    const client = new ComputerAgentsClient({ apiKey: 'test', fetch: fetchMock });
+    let hookSignal: AbortSignal | undefined;
+
+    const result = await client.threads.sendMessage('thread_1', {
+      content: 'Push',
+      onApprovalRequired: ({ signal }) => {
+        hookSignal = signal;
+        return new Promise(() => undefined);
+      },
+      approvalPolicy: { timeoutMs: 10 },
+    });
+
+    expect(result.approvals[0].decidedBy).toBe('timeout');
+    expect(hookSignal?.aborted).toBe(true);
+    expect(submissions(fetchMock)).toEqual({
+      apr_1: { decision: 'deny', reason: 'No decision before the approval timeout' },
+    });
+  });
+
+  it('should record a throwing hook and apply the fallback decision', async () => {
+    const fetchMock = stubFetch(runRequesting(
+      { kind: 'command', command: 'rm -rf dist' },
+      { kind: 'command', command: 'rm -rf build' },
+    ));
+    const client = new ComputerAgentsClient({ apiKey: 'test', fetch: fetchMock });
+    const audit: ApprovalRecord[] = [];
+
+    const result = await client.threads.sendMessage('thread_1', {
+      content: 'Clean up',
+      onApprovalRequired: () => {
+        throw new Error('reviewer offline');
+      },
+      // A global pattern must match every command, not every other one
+      approvalPolicy: { rules: [{ command: /rm -rf/g, decision: 'ask' }], default: 'approve', onDecision: (r) => audit.push(r) },
+    });
+
+    expect(result.approvals.map((r) => [r.decidedBy, r.error])).toEqual([
+      ['error', 'reviewer offline'],
+      ['error', 'reviewer offline'],
+    ]);
+    expect(audit).toHaveLength(2);
+    expect(submissions(fetchMock)).toEqual({
+      apr_1: { decision: 'deny', reason: 'Approval hook failed: reviewer offline' },
+      apr_2: { decision: 'deny', reason: 'Approval hook failed: reviewer offline' },
+    });
+  });
+
+  it('should reject when a decision cannot be posted instead of reconnecting', async () => {
+    const fetchMock = vi.fn(async (url: string, _init: RequestInit) => (
+      url.includes('/approvals/')
+        ? new Response(JSON.stringify({ error: 'Unknown approval' }), { status: 400 })
+        : sseResponse(runRequesting({ kind: 'command', command: 'ls' }))
+    ));
+    const client = new ComputerAgentsClient({ apiKey: 'test', fetch: fetchMock });
+
+    await expect(client.threads.sendMessage('thread_1', {
+      content: 'List files',
+      approvalPolicy: { default: 'approve' },
+      reconnect: { initialDelayMs: 1 },
+    })).rejects.toBeInstanceOf(ValidationError);
+    expect(fetchMock.mock.calls.filter(([url]) => url.endsWith('/messages'))).toHaveLength(1);
+  });
+});
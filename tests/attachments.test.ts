@@ -0,0 +1,111 @@
+/**
+ * Unit tests for message attachments
+ *
+ * These tests use a stubbed fetch and do not require an API key.
+ */
+
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { describe, it, expect, vi } from 'vitest';
+import {
+  ComputerAgentsClient,
+  INLINE_ATTACHMENT_BYTES,
+  InvalidArgumentError,
+  MAX_ATTACHMENT_BYTES,
+  ValidationError,
+} from '../src';
+
+function jsonResponse(body: unknown): Response {
+  return new Response(JSON.stringify(body), { headers: { 'Content-Type': 'application/json' } });
+}
+
+function completedStream(): Response {
+  const body = `data: ${JSON.stringify({ type: 'stream.completed', run: { id: 'run_1', status: 'completed' } })}\n\n`;
+  return new Response(body, { headers: { 'Content-Type': 'text/event-stream' } });
+}
+
+function stubFetch() {
+  return vi.fn(async (url: string, _init: RequestInit) => (
+    url.endsWith('/attachments')
+      ? jsonResponse({ attachment: { id: 'att_1', name: 'big.bin', mimeType: 'application/octet-stream', size: INLINE_ATTACHMENT_BYTES + 1 } })
+      : completedStream()
+  ));
+}
+
+function messageBody(fetchMock: ReturnType<typeof stubFetch>) {
+  const call = fetchMock.mock.calls.find(([url]) => url.endsWith('/messages'))!;
+  return JSON.parse(call[1].body as string);
+}
+
+const png = Uint8Array.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+describe('Attachments', () => {
+  it('should inline files, buffers and images and pass URLs through', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'attachments-'));
+    try {
+      const notes = join(dir, 'notes.md');
+      await writeFile(notes, '# Notes');
+      const fetchMock = stubFetch();
+      const client = new ComputerAgentsClient({ apiKey: 'test', fetch: fetchMock });
+
+      await client.threads.sendMessage('thread_1', {
+        content: 'Review these',
+        attachments: [
+          { type: 'file', path: notes },
+          { type: 'buffer', data: Buffer.from('a,b'), mimeType: 'text/csv', name: 'data.csv' },
+          { type: 'image', data: png },
+          { type: 'url', url: 'https://example.com/spec.pdf' },
+        ],
+      });
+
+      expect(messageBody(fetchMock).attachments).toEqual([
+        { type: 'inline', name: 'notes.md', mimeType: 'text/markdown', size: 7, data: Buffer.from('# Notes').toString('base64') },
+        { type: 'inline', name: 'data.csv', mimeType: 'text/csv', size: 3, data: Buffer.from('a,b').toString('base64') },
+        { type: 'inline', name: 'image.png', mimeType: 'image/png', size: 8, data: Buffer.from(png).toString('base64') },
+        { type: 'url', url: 'https://example.com/spec.pdf' },
+      ]);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should upload attachments over the inline limit to the thread', async () => {
+    const fetchMock = stubFetch();
+    const client = new ComputerAgentsClient({ apiKey: 'test', fetch: fetchMock });
+
+    await client.threads.sendMessage('thread_1', {
+      content: 'Process this',
+      attachments: [{ type: 'buffer', data: new Uint8Array(INLINE_ATTACHMENT_BYTES + 1), mimeType: 'application/octet-stream', name: 'big.bin' }],
+    });
+
+    expect(new URL(fetchMock.mock.calls[0][0]).pathname).toBe('/threads/thread_1/attachments');
+    expect(fetchMock.mock.calls[0][1].body).toBeInstanceOf(FormData);
+    expect(messageBody(fetchMock).attachments).toEqual([
+      { type: 'upload', id: 'att_1', name: 'big.bin', mimeType: 'application/octet-stream', size: INLINE_ATTACHMENT_BYTES + 1 },
+    ]);
+  });
+
+  it('should reject oversized and unrecognized attachments before sending', async () => {
+    const fetchMock = stubFetch();
+    const client = new ComputerAgentsClient({ apiKey: 'test', fetch: fetchMock });
+
+    const tooLarge = await client.threads.sendMessage('thread_1', {
+      content: 'Hi',
+      attachments: [{ type: 'url', url: 'https://example.com/a.png' }, { type: 'buffer', data: new Uint8Array(MAX_ATTACHMENT_BYTES + 1), mimeType: 'text/plain' }],
+    }).catch((e) => e);
+    expect(tooLarge).toBeInstanceOf(InvalidArgumentError);
+    expect(tooLarge).not.toBeInstanceOf(ValidationError);
+    expect(tooLarge.status).toBe(0);
+    expect(tooLarge.code).toBe('ATTACHMENT_TOO_LARGE');
+    expect(tooLarge.fieldErrors[0].field).toBe('attachments[1]');
+
+    const notImage = await client.threads.sendMessage('thread_1', {
+      content: 'Hi',
+      attachments: [{ type: 'image', data: Buffer.from('plain text') }],
+    }).catch((e) => e);
+    expect(notImage.code).toBe('UNSUPPORTED_ATTACHMENT');
+
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
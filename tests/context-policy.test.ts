@@ -0,0 +1,179 @@
+/**
+ * Unit tests for automatic context-window management
+ *
+ * These tests use a stubbed fetch and do not require an API key.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { ComputerAgentsClient } from '../src';
+import type { ContextPolicyEvent } from '../src';
+
+function jsonResponse(body: unknown): Response {
+  return new Response(JSON.stringify(body), { headers: { 'Content-Type': 'application/json' } });
+}
+
+function sseResponse(): Response {
+  const events = [
+    { type: 'response.completed', response: { content: 'Done' } },
+    { type: 'stream.completed', run: { id: 'run_1', status: 'completed' } },
+  ];
+  const body = events.map((event) => `data: ${JSON.stringify(event)}\n\n`).join('');
+  return new Response(body, { headers: { 'Content-Type': 'text/event-stream' } });
+}
+
+/**
+ * Fake server whose context usage drops once the thread is compacted
+ */
+function stubServer(tokens: Record<string, number>) {
+  return vi.fn(async (url: string, init: RequestInit) => {
+    const path = new URL(url).pathname;
+    const [, , threadId, ...rest] = path.split('/');
+    const route = `${init.method} /${rest.join('/')}`;
+
+    if (route === 'GET /context') {
+      return jsonResponse({ threadId, estimatedTokens: tokens[threadId], contextWindow: 200000 });
+    }
+    if (route === 'POST /context/actions') {
+      const { action } = JSON.parse(init.body as string);
+      if (action === 'compact') {
+        tokens[threadId] = 30000;
+        return jsonResponse({ ok: true });
+      }
+      tokens.thread_2 = 12000;
+      return jsonResponse({ thread: { id: 'thread_2' } });
+    }
+    if (route === 'POST /messages') {
+      return sseResponse();
+    }
+    throw new Error(`Unexpected request ${init.method} ${path}`);
+  });
+}
+
+function requestsTo(fetchMock: ReturnType<typeof stubServer>) {
+  return fetchMock.mock.calls.map(([url, init]) => `${init.method} ${new URL(url).pathname}`);
+}
+
+const thresholds = [
+  { usage: 0.7, action: 'warn' as const },
+  { usage: 0.85, action: 'compact' as const },
+  { usage: 0.95, action: 'fork' as const },
+];
+
+describe('contextPolicy', () => {
+  it('should compact before sending once usage crosses the threshold', async () => {
+    const fetchMock = stubServer({ thread_1: 180000 });
+    const client = new ComputerAgentsClient({ apiKey: 'test', fetch: fetchMock });
+    const events: ContextPolicyEvent[] = [];
+
+    const result = await client.threads.sendMessage('thread_1', {
+      content: 'Keep going',
+      contextPolicy: { thresholds, summaryPrompt: 'Keep the API design', onAction: (event) => events.push(event) },
+    });
+
+    expect(result.content).toBe('Done');
+    expect(requestsTo(fetchMock)).toEqual([
+      'GET /threads/thread_1/context',
+      'POST /threads/thread_1/context/actions',
+      'GET /threads/thread_1/context',
+      'POST /threads/thread_1/messages',
+    ]);
+    expect(JSON.parse(fetchMock.mock.calls[1][1].body as string)).toEqual({ action: 'compact', prompt: 'Keep the API design' });
+    expect(events).toEqual([{
+      action: 'compact',
+      threadId: 'thread_1',
+      threshold: 0.85,
+      usage: 0.9,
+      contextWindow: 200000,
+      tokensBefore: 180000,
+      tokensAfter: 30000,
+      tokensSaved: 150000,
+    }]);
+  });
+
+  it('should report the forked thread on the sendMessage() result', async () => {
+    const fetchMock = stubServer({ thread_1: 195000 });
+    const client = new ComputerAgentsClient({ apiKey: 'test', fetch: fetchMock });
+
+    const result = await client.threads.sendMessage('thread_1', { content: 'Keep going', contextPolicy: { thresholds } });
+
+    expect(result.threadId).toBe('thread_2');
+  });
+
+  it('should fork and send to the new thread from run()', async () => {
+    const fetchMock = stubServer({ thread_1: 195000 });
+    const client = new ComputerAgentsClient({ apiKey: 'test', fetch: fetchMock });
+
+    const result = await client.run('Keep going', {
+      computerId: 'env_1',
+      threadId: 'thread_1',
+      contextPolicy: { thresholds, forkTitle: 'Part 2' },
+    });
+
+    expect(result.threadId).toBe('thread_2');
+    expect(requestsTo(fetchMock).at(-1)).toBe('POST /threads/thread_2/messages');
+    expect(JSON.parse(fetchMock.mock.calls[1][1].body as string)).toEqual({ action: 'fork', title: 'Part 2' });
+  });
+
+  it('should apply the policy to a thread created by run()', async () => {
+    const server = stubServer({ thread_1: 1000 });
+    const fetchMock = vi.fn(async (url: string, init: RequestInit) => (
+      new URL(url).pathname === '/threads' ? jsonResponse({ thread: { id: 'thread_1' } }) : server(url, init)
+    ));
+    const client = new ComputerAgentsClient({ apiKey: 'test', fetch: fetchMock });
+
+    await client.run('Start', { computerId: 'env_1', contextPolicy: { thresholds } });
+    await expect(client.run('Start', { computerId: 'env_1', contextPolicy: { thresholds: [{ usage: 85, action: 'compact' }] } }))
+      .rejects.toMatchObject({ code: 'INVALID_CONTEXT_POLICY' });
+
+    expect(requestsTo(fetchMock).slice(0, 3)).toEqual([
+      'POST /threads', 'GET /threads/thread_1/context', 'POST /threads/thread_1/messages',
+    ]);
+  });
+
+  it('should only report a warning below the compact threshold', async () => {
+    const fetchMock = stubServer({ thread_1: 150000 });
+    const client = new ComputerAgentsClient({ apiKey: 'test', fetch: fetchMock });
+
+    const event = await client.threads.applyContextPolicy('thread_1', { thresholds });
+
+    expect(event).toMatchObject({ action: 'warn', usage: 0.75, tokensBefore: 150000 });
+    expect(event?.tokensSaved).toBeUndefined();
+    expect(requestsTo(fetchMock)).toEqual(['GET /threads/thread_1/context']);
+  });
+
+  it('should do nothing below every threshold', async () => {
+    const fetchMock = stubServer({ thread_1: 1000 });
+    const client = new ComputerAgentsClient({ apiKey: 'test', fetch: fetchMock });
+
+    await expect(client.threads.applyContextPolicy('thread_1', { thresholds })).resolves.toBeUndefined();
+  });
+
+  it('should reject thresholds outside 0..1', async () => {
+    const client = new ComputerAgentsClient({ apiKey: 'test', fetch: stubServer({ thread_1: 1000 }) });
+
+    await expect(client.threads.applyContextPolicy('thread_1', { thresholds: [{ usage: 85, action: 'compact' }] }))
+      .rejects.toMatchObject({ name: 'InvalidArgumentError', status: 0, code: 'INVALID_CONTEXT_POLICY' });
+  });
+
+  it('should move a conversation to the forked thread', async () => {
+    const fetchMock = stubServer({ thread_1: 195000 });
+    const client = new ComputerAgentsClient({ apiKey: 'test', fetch: fetchMock });
+    const chat = client.restoreConversation({ version: 1, threadId: 'thread_1', messages: [], steps: [] });
+    vi.spyOn(chat, 'refresh').mockResolvedValue();
+
+    await chat.send('Keep going', { contextPolicy: { thresholds } });
+
+    expect(chat.threadId).toBe('thread_2');
+  });
+
+  it('should apply a policy set on the conversation to every message', async () => {
+    const fetchMock = stubServer({ thread_1: 180000 });
+    const client = new ComputerAgentsClient({ apiKey: 'test', fetch: fetchMock });
+    const chat = client.conversation({ threadId: 'thread_1', contextPolicy: { thresholds } });
+    vi.spyOn(chat, 'refresh').mockResolvedValue();
+
+    await chat.send('Keep going');
+
+    expect(requestsTo(fetchMock)[1]).toBe('POST /threads/thread_1/context/actions');
+  });
+});
@@ -0,0 +1,188 @@
+/**
+ * Unit tests for importing OpenAI and Anthropic conversations into threads
+ *
+ * These tests use a stubbed fetch and do not require an API key.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  ComputerAgentsClient,
+  InvalidArgumentError,
+  detectConversationFormat,
+  fromAnthropicMessages,
+  fromOpenAIMessages,
+} from '../src';
+import type { AnthropicContentBlock, AnthropicMessage, OpenAIChatMessage } from '../src';
+
+const openAIConversation: OpenAIChatMessage[] = [
+  { role: 'system', content: 'You are a careful engineer.' },
+  {
+    role: 'user',
+    content: [
+      { type: 'text', text: 'What is in this screenshot?' },
+      { type: 'image_url', image_url: { url: 'data:image/png;base64,iVBORw0KGgo=' } },
+    ],
+  },
+  {
+    role: 'assistant',
+    content: null,
+    tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'read_file', arguments: '{"path":"README.md"}' } }],
+  },
+  { role: 'tool', tool_call_id: 'call_1', content: '# Project' },
+  { role: 'assistant', content: 'It shows the README.' },
+];
+
+const anthropicConversation: AnthropicMessage[] = [
+  { role: 'user', content: 'List the files' },
+  {
+    role: 'assistant',
+    content: [
+      { type: 'thinking', thinking: 'I should call ls.' },
+      { type: 'text', text: 'Listing them now.' },
+      { type: 'tool_use', id: 'toolu_1', name: 'ls', input: { path: '.' } },
+    ],
+  },
+  {
+    role: 'user',
+    content: [
+      { type: 'tool_result', tool_use_id: 'toolu_1', content: [{ type: 'text', text: 'src\ntests' }] },
+      { type: 'text', text: 'Thanks' },
+    ],
+  },
+];
+
+describe('fromOpenAIMessages()', () => {
+  it('should convert tool calls, tool results and images', () => {
+    const messages = fromOpenAIMessages(openAIConversation);
+
+    expect(messages.map((message) => message.role)).toEqual(['system', 'user', 'assistant', 'tool', 'assistant']);
+    expect(messages[1].attachments).toEqual([
+      { type: 'inline', name: 'image', mimeType: 'image/png', size: 8, data: 'iVBORw0KGgo=' },
+    ]);
+    expect(messages[2]).toEqual({
+      role: 'assistant',
+      content: '',
+      toolCalls: [{ id: 'call_1', name: 'read_file', arguments: { path: 'README.md' } }],
+    });
+    expect(messages[3]).toEqual({ role: 'tool', toolCallId: 'call_1', content: '# Project' });
+  });
+
+  it('should reject tool call arguments that are not JSON', () => {
+    const convert = () => fromOpenAIMessages([
+      { role: 'assistant', tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'ls', arguments: '{' } }] },
+    ]);
+
+    expect(convert).toThrow(InvalidArgumentError);
+    expect(convert).toThrow(expect.objectContaining({ code: 'INVALID_CONVERSATION' }));
+  });
+});
+
+describe('fromAnthropicMessages()', () => {
+  it('should split tool results out of user turns and drop thinking', () => {
+    const messages = fromAnthropicMessages(anthropicConversation, 'Be brief.');
+
+    expect(messages).toEqual([
+      { role: 'system', content: 'Be brief.' },
+      { role: 'user', content: 'List the files' },
+      {
+        role: 'assistant',
+        content: 'Listing them now.',
+        toolCalls: [{ id: 'toolu_1', name: 'ls', arguments: { path: '.' } }],
+      },
+      { role: 'tool', toolCallId: 'toolu_1', content: 'src\ntests' },
+      { role: 'user', content: 'Thanks' },
+    ]);
+  });
+
+  it('should keep images and documents, including those in tool results', () => {
+    const messages = fromAnthropicMessages([
+      {
+        role: 'user',
+        content: [
+          { type: 'document', source: { type: 'text', media_type: 'text/plain', data: 'spec' }, title: 'spec.txt' },
+          {
+            type: 'tool_result',
+            tool_use_id: 'toolu_1',
+            content: [
+              { type: 'text', text: 'Screenshot taken' },
+              { type: 'image', source: { type: 'base64', media_type: 'image/png', data: 'iVBORw0KGgo=' } },
+            ],
+          },
+        ],
+      },
+    ]);
+
+    expect(messages).toEqual([
+      {
+        role: 'tool',
+        toolCallId: 'toolu_1',
+        content: 'Screenshot taken',
+        attachments: [{ type: 'inline', name: 'image', mimeType: 'image/png', size: 8, data: 'iVBORw0KGgo=' }],
+      },
+      {
+        role: 'user',
+        content: '',
+        attachments: [{ type: 'inline', name: 'spec.txt', mimeType: 'text/plain', size: 4, data: 'c3BlYw==' }],
+      },
+    ]);
+  });
+
+  it('should reject content blocks it cannot convert', () => {
+    const convert = () => fromAnthropicMessages([
+      { role: 'user', content: [{ type: 'search_result' } as unknown as AnthropicContentBlock] },
+    ]);
+
+    expect(convert).toThrow(InvalidArgumentError);
+    expect(convert).toThrow(expect.objectContaining({ status: 0, code: 'INVALID_CONVERSATION' }));
+  });
+});
+
+describe('detectConversationFormat()', () => {
+  it('should recognise format-specific fields', () => {
+    expect(detectConversationFormat(openAIConversation)).toBe('openai');
+    expect(detectConversationFormat(anthropicConversation)).toBe('anthropic');
+    expect(detectConversationFormat([{ role: 'user', content: 'hi' }])).toBe('openai');
+  });
+});
+
+describe('threads.import()', () => {
+  it('should post the converted history and return the new thread', async () => {
+    const fetchMock = vi.fn(async (_url: string, _init: RequestInit) =>
+      new Response(JSON.stringify({ thread: { id: 'thread_1', environmentId: 'env_1' } }), {
+        headers: { 'Content-Type': 'application/json' },
+      })
+    );
+    const client = new ComputerAgentsClient({ apiKey: 'test', fetch: fetchMock });
+
+    const thread = await client.threads.import({
+      environmentId: 'env_1',
+      title: 'Imported',
+      system: 'Be brief.',
+      format: 'anthropic',
+      messages: anthropicConversation,
+    });
+
+    expect(thread.id).toBe('thread_1');
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(new URL(url).pathname).toBe('/threads/import');
+    expect(init.method).toBe('POST');
+    const body = JSON.parse(init.body as string);
+    expect(body).toMatchObject({ environmentId: 'env_1', title: 'Imported' });
+    expect(body.messages).toHaveLength(5);
+    expect(body.messages[0]).toEqual({ role: 'system', content: 'Be brief.' });
+  });
+
+  it('should detect the format when it is omitted', async () => {
+    const fetchMock = vi.fn(async (_url: string, _init: RequestInit) =>
+      new Response(JSON.stringify({ thread: { id: 'thread_2' } }), {
+        headers: { 'Content-Type': 'application/json' },
+      })
+    );
+    const client = new ComputerAgentsClient({ apiKey: 'test', fetch: fetchMock });
+
+    await client.threads.import({ environmentId: 'env_1', messages: anthropicConversation });
+
+    const body = JSON.parse(fetchMock.mock.calls[0][1].body as string);
+    expect(body.messages[1].toolCalls).toEqual([{ id: 'toolu_1', name: 'ls', arguments: { path: '.' } }]);
+  });
+});
@@ -0,0 +1,214 @@
+/**
+ * Unit tests for stateful conversations
+ *
+ * These tests use a stubbed fetch and do not require an API key.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { ComputerAgentsClient, InvalidArgumentError, RequestAbortedError } from '../src';
+
+function jsonResponse(body: unknown): Response {
+  return new Response(JSON.stringify(body), { headers: { 'Content-Type': 'application/json' } });
+}
+
+function sseResponse(events: unknown[]): Response {
+  const body = events.map((event) => `data: ${JSON.stringify(event)}\n\n`).join('');
+  return new Response(body, { headers: { 'Content-Type': 'text/event-stream' } });
+}
+
+const completedRun = [
+  { type: 'response.started', runId: 'run_1' },
+  { type: 'response.completed', response: { content: 'Added /health' } },
+  { type: 'stream.completed', run: { id: 'run_1', status: 'completed' } },
+];
+
+/**
+ * Fake server with one thread whose history and steps grow per message
+ */
+function stubServer() {
+  const messages: Array<{ role: string; content: string }> = [];
+  const steps: Array<{ id: string; sequence: number }> = [];
+
+  const fetchMock = vi.fn(async (url: string, init: RequestInit) => {
+    const path = new URL(url).pathname;
+    const method = init.method ?? 'GET';
+
+    if (method === 'POST' && path === '/threads') {
+      return jsonResponse({ thread: { id: 'thread_1' } });
+    }
+    if (method === 'POST' && path.endsWith('/messages')) {
+      const { content } = JSON.parse(init.body as string);
+      messages.push({ role: 'user', content }, { role: 'assistant', content: 'Added /health' });
+      steps.push({ id: `step_${steps.length + 1}`, sequence: steps.length + 1 });
+      return sseResponse(completedRun);
+    }
+    if (path.endsWith('/messages')) {
+      return jsonResponse({ data: messages, has_more: false, total_count: messages.length });
+    }
+    if (path.endsWith('/steps')) {
+      return jsonResponse({ data: [...steps].reverse() });
+    }
+    if (path.endsWith('/context/actions')) {
+      return jsonResponse({ thread: { id: 'thread_2' } });
+    }
+    return jsonResponse({ success: true });
+  });
+
+  return fetchMock;
+}
+
+function requests(fetchMock: ReturnType<typeof stubServer>) {
+  return fetchMock.mock.calls.map(([url, init]) => `${init.method ?? 'GET'} ${new URL(url).pathname}`);
+}
+
+describe('client.conversation()', () => {
+  it('should create the thread once and cache history and steps after each turn', async () => {
+    const fetchMock = stubServer();
+    const client = new ComputerAgentsClient({ apiKey: 'test', fetch: fetchMock });
+    const chat = client.conversation({ computerId: 'env_1', agentId: 'agent_1' });
+
+    const result = await chat.send('Add a /health endpoint');
+    await chat.send('Now test it');
+
+    expect(result.content).toBe('Added /health');
+    expect(chat.threadId).toBe('thread_1');
+    expect(chat.history.map((message) => message.content)).toEqual([
+      'Add a /health endpoint', 'Added /health', 'Now test it', 'Added /health',
+    ]);
+    expect(chat.steps.map((step) => step.id)).toEqual(['step_1', 'step_2']);
+    expect(requests(fetchMock).filter((request) => request === 'POST /threads')).toHaveLength(1);
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body as string)).toEqual({ environmentId: 'env_1', agentId: 'agent_1' });
+  });
+
+  it('should resolve send() and keep the exchange when the refresh fails', async () => {
+    const server = stubServer();
+    const fetchMock = vi.fn(async (url: string, init: RequestInit) => (
+      (init.method ?? 'GET') === 'GET' ? new Response('{}', { status: 500 }) : server(url, init)
+    ));
+    const client = new ComputerAgentsClient({ apiKey: 'test', fetch: fetchMock, retry: false });
+    const chat = client.conversation({ computerId: 'env_1' });
+
+    const result = await chat.send('Add a /health endpoint');
+
+    expect(result.content).toBe('Added /health');
+    expect(chat.history).toEqual([
+      { role: 'user', content: 'Add a /health endpoint' },
+      { role: 'assistant', content: 'Added /health' },
+    ]);
+  });
+
+  it('should keep creating the thread for other callers when the first one aborts', async () => {
+    const fetchMock = stubServer();
+    const client = new ComputerAgentsClient({ apiKey: 'test', fetch: fetchMock });
+    const chat = client.conversation({ computerId: 'env_1' });
+    const controller = new AbortController();
+
+    const first = chat.send('One', { signal: controller.signal });
+    const second = chat.send('Two');
+    controller.abort();
+
+    await expect(first).rejects.toBeInstanceOf(RequestAbortedError);
+    await expect(second).resolves.toMatchObject({ content: 'Added /health' });
+    expect(chat.threadId).toBe('thread_1');
+    expect(requests(fetchMock).filter((request) => request === 'POST /threads')).toHaveLength(1);
+  });
+
+  it('should not start creating the thread when the signal is already aborted', async () => {
+    const fetchMock = vi.fn(async (_url: string, _init: RequestInit) => new Response('{}', { status: 500 }));
+    const client = new ComputerAgentsClient({ apiKey: 'test', fetch: fetchMock, retry: false });
+    const chat = client.conversation({ computerId: 'env_1' });
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(chat.send('One', { signal: controller.signal })).rejects.toBeInstanceOf(RequestAbortedError);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(chat.threadId).toBeUndefined();
+  });
+
+  it('should add streamed exchanges to the history when the run completes', async () => {
+    const client = new ComputerAgentsClient({ apiKey: 'test', fetch: stubServer() });
+    const chat = client.conversation({ computerId: 'env_1' });
+
+    const stream = chat.stream('Add a /health endpoint');
+    for await (const event of stream) {
+      void event;
+    }
+
+    expect(chat.history).toEqual([
+      { role: 'user', content: 'Add a /health endpoint' },
+      { role: 'assistant', content: 'Added /health' },
+    ]);
+    await chat.sync();
+    expect(chat.steps).toHaveLength(1);
+  });
+
+  it('should revert to the previous step on undo()', async () => {
+    const fetchMock = stubServer();
+    const client = new ComputerAgentsClient({ apiKey: 'test', fetch: fetchMock });
+    const chat = client.conversation({ computerId: 'env_1' });
+
+    await expect(chat.undo()).rejects.toThrow(InvalidArgumentError);
+    await expect(chat.undo()).rejects.toMatchObject({ name: 'InvalidArgumentError', status: 0, code: 'NO_THREAD' });
+    await chat.send('One');
+    await expect(chat.undo()).rejects.toMatchObject({ code: 'NOTHING_TO_UNDO' });
+    await chat.send('Two');
+    await chat.undo();
+
+    expect(requests(fetchMock)).toContain('POST /threads/thread_1/steps/step_1/revert');
+  });
+
+  it('should cache steps beyond the first page', async () => {
+    const steps = Array.from({ length: 60 }, (_, i) => ({ id: `step_${i + 1}`, sequence: i + 1 }));
+    const fetchMock = vi.fn(async (url: string, _init: RequestInit) => {
+      const { pathname, searchParams } = new URL(url);
+      if (pathname.endsWith('/steps')) {
+        const offset = Number(searchParams.get('offset'));
+        return jsonResponse({ data: steps.slice(offset, offset + Number(searchParams.get('limit'))) });
+      }
+      return jsonResponse({ data: [], has_more: false, total_count: 0 });
+    });
+    const client = new ComputerAgentsClient({ apiKey: 'test', fetch: fetchMock });
+    const chat = client.restoreConversation({ version: 1, threadId: 'thread_1', messages: [], steps: [] });
+
+    await chat.refresh();
+    await chat.undo();
+
+    expect(chat.steps).toHaveLength(60);
+    expect(requests(fetchMock)).toContain('POST /threads/thread_1/steps/step_59/revert');
+  });
+
+  it('should fork into a new conversation and compact on the server', async () => {
+    const fetchMock = stubServer();
+    const client = new ComputerAgentsClient({ apiKey: 'test', fetch: fetchMock });
+    const chat = client.conversation({ computerId: 'env_1' });
+    await chat.send('One');
+
+    const fork = await chat.fork({ title: 'Attempt 2' });
+    await chat.compact('Keep the API design');
+
+    expect(fork.threadId).toBe('thread_2');
+    const actions = fetchMock.mock.calls
+      .filter(([url]) => url.endsWith('/context/actions'))
+      .map(([, init]) => JSON.parse(init.body as string));
+    expect(actions).toEqual([
+      { action: 'fork', title: 'Attempt 2' },
+      { action: 'compact', prompt: 'Keep the API design' },
+    ]);
+  });
+
+  it('should round-trip through JSON and continue on the same thread', async () => {
+    const fetchMock = stubServer();
+    const client = new ComputerAgentsClient({ apiKey: 'test', fetch: fetchMock });
+    const chat = client.conversation({ computerId: 'env_1' });
+    await chat.send('One');
+
+    const restored = client.restoreConversation(JSON.parse(JSON.stringify(chat)));
+    await restored.send('Two');
+
+    expect(restored.threadId).toBe('thread_1');
+    expect(restored.history).toHaveLength(4);
+    expect(requests(fetchMock).filter((request) => request === 'POST /threads')).toHaveLength(1);
+    expect(() => client.restoreConversation({ ...chat.toJSON(), version: 2 as 1 })).toThrow(InvalidArgumentError);
+  });
+});
@@ -0,0 +1,206 @@
+/**
+ * Unit tests for unified diff parsing and patch application
+ *
+ * These tests write to a temporary directory and do not require an API key.
+ */
+
+import { access, mkdir, mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { describe, it, expect, afterEach } from 'vitest';
+import { applyPatch, parseUnifiedDiff, InvalidArgumentError } from '../src';
+
+const gitDiff = [
+  'diff --git a/src/app.ts b/src/app.ts',
+  'index 1111111..2222222 100644',
+  '--- a/src/app.ts',
+  '+++ b/src/app.ts',
+  '@@ -1,4 +1,4 @@ export function main() {',
+  ' const a = 1;',
+  '-const b = 2;',
+  '+const b = 3;',
+  ' const c = 3;',
+  ' --- not a header',
+  'diff --git a/README.md b/README.md',
+  'new file mode 100644',
+  'index 0000000..3333333',
+  '--- /dev/null',
+  '+++ b/README.md',
+  '@@ -0,0 +1,2 @@',
+  '+# Project',
+  '+Hello',
+  '\\ No newline at end of file',
+  'diff --git a/old.txt b/new.txt',
+  'similarity index 100%',
+  'rename from old.txt',
+  'rename to new.txt',
+  'diff --git a/logo.png b/logo.png',
+  'Binary files a/logo.png and b/logo.png differ',
+  'diff --git a/gone.txt b/gone.txt',
+  'deleted file mode 100644',
+  '--- a/gone.txt',
+  '+++ /dev/null',
+  '@@ -1 +0,0 @@',
+  '-bye',
+  '',
+].join('\n');
+
+describe('parseUnifiedDiff()', () => {
+  it('should parse files, hunks, renames and binary changes', () => {
+    const files = parseUnifiedDiff(gitDiff);
+
+    expect(files.map((file) => [file.status, file.oldPath, file.newPath])).toEqual([
+      ['modified', 'src/app.ts', 'src/app.ts'],
+      ['added', null, 'README.md'],
+      ['renamed', 'old.txt', 'new.txt'],
+      ['modified', 'logo.png', 'logo.png'],
+      ['deleted', 'gone.txt', null],
+    ]);
+
+    const [app, readme, renamed, logo] = files;
+    expect(app).toMatchObject({ additions: 1, deletions: 1 });
+    expect(app.hunks[0]).toMatchObject({ oldStart: 1, oldLines: 4, newStart: 1, newLines: 4, section: 'export function main() {' });
+    expect(app.hunks[0].lines[4]).toEqual({ type: 'context', content: '--- not a header', oldNumber: 4, newNumber: 4 });
+    expect(readme.hunks[0].lines[1]).toEqual({ type: 'add', content: 'Hello', newNumber: 2, noNewlineAtEnd: true });
+    expect(renamed.similarity).toBe(100);
+    expect(logo.binary).toBe(true);
+  });
+
+  it('should parse plain unified diffs without git headers', () => {
+    const files = parseUnifiedDiff([
+      '--- a.txt\t2026-01-01 10:00:00',
+      '+++ a.txt\t2026-01-01 10:01:00',
+      '@@ -1 +1,2 @@',
+      ' one',
+      '+two',
+    ].join('\n'));
+
+    expect(files).toHaveLength(1);
+    expect(files[0]).toMatchObject({ oldPath: 'a.txt', newPath: 'a.txt', additions: 1, deletions: 0 });
+  });
+
+  it('should reject malformed hunks', () => {
+    expect(() => parseUnifiedDiff('--- a\n+++ b\n@@ -1,2 +1,2 @@\n x\n')).toThrow(InvalidArgumentError);
+    expect(() => parseUnifiedDiff('--- a\n+++ b\n@@ -1,2 +1,2 @@\n x\n')).toThrow(expect.objectContaining({
+      name: 'InvalidArgumentError',
+      status: 0,
+      code: 'INVALID_DIFF',
+    }));
+  });
+});
+
+describe('applyPatch()', () => {
+  let dir: string;
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  async function setup(files: Record<string, string>) {
+    dir = await mkdtemp(join(tmpdir(), 'patch-'));
+    for (const [path, content] of Object.entries(files)) {
+      await writeFile(join(dir, path), content);
+    }
+  }
+
+  const exists = (path: string) => access(join(dir, path)).then(() => true, () => false);
+  const textDiff = gitDiff.split('diff --git a/logo.png')[0];
+
+  it('should apply edits, additions, renames and deletions', async () => {
+    await setup({ 'old.txt': 'same\n', 'gone.txt': 'bye\n' });
+    await mkdir(join(dir, 'src'));
+    await writeFile(join(dir, 'src/app.ts'), '// header\nconst a = 1;\nconst b = 2;\nconst c = 3;\n--- not a header\n');
+
+    const result = await applyPatch(dir, textDiff + gitDiff.split('differ\n')[1]);
+
+    expect(result.conflicts).toEqual([]);
+    expect(result.applied).toEqual(['src/app.ts', 'README.md', 'new.txt', 'gone.txt']);
+    // The hunk moved down one line and is found by its context
+    expect(await readFile(join(dir, 'src/app.ts'), 'utf8')).toBe('// header\nconst a = 1;\nconst b = 3;\nconst c = 3;\n--- not a header\n');
+    expect(await readFile(join(dir, 'README.md'), 'utf8')).toBe('# Project\nHello');
+    expect(await readFile(join(dir, 'new.txt'), 'utf8')).toBe('same\n');
+    expect(await exists('old.txt')).toBe(false);
+    expect(await exists('gone.txt')).toBe(false);
+  });
+
+  it('should undo a patch with reverse', async () => {
+    await setup({ 'a.txt': 'one\ntwo\n' });
+    const patch = '--- a/a.txt\n+++ b/a.txt\n@@ -1,2 +1,2 @@\n one\n-two\n+TWO\n';
+
+    await applyPatch(dir, patch);
+    expect(await readFile(join(dir, 'a.txt'), 'utf8')).toBe('one\nTWO\n');
+
+    await applyPatch(dir, patch, { reverse: true });
+    expect(await readFile(join(dir, 'a.txt'), 'utf8')).toBe('one\ntwo\n');
+  });
+
+  it('should report conflicts and leave those files untouched', async () => {
+    await setup({ 'a.txt': 'one\nchanged locally\n', 'b.txt': 'x\n' });
+    const patch = [
+      '--- a/a.txt', '+++ b/a.txt', '@@ -1,2 +1,2 @@', ' one', '-two', '+TWO',
+      '--- a/b.txt', '+++ b/b.txt', '@@ -1 +1 @@', '-x', '+y',
+      '--- a/../escape.txt', '+++ b/../escape.txt', '@@ -1 +1 @@', '-x', '+y',
+    ].join('\n');
+
+    const result = await applyPatch(dir, patch);
+
+    expect(result.applied).toEqual(['b.txt']);
+    expect(result.conflicts).toEqual([
+      { path: 'a.txt', hunk: 0, message: 'Hunk 1 does not match the current file' },
+      { path: '../escape.txt', hunk: undefined, message: 'Path is outside the target directory' },
+    ]);
+    expect(await readFile(join(dir, 'a.txt'), 'utf8')).toBe('one\nchanged locally\n');
+  });
+
+  it('should patch CRLF files and keep their line endings', async () => {
+    await setup({ 'a.txt': 'one\r\ntwo\r\n' });
+
+    const result = await applyPatch(dir, '--- a/a.txt\n+++ b/a.txt\n@@ -1,2 +1,3 @@\n one\n-two\n+TWO\n+three\n');
+
+    expect(result.conflicts).toEqual([]);
+    expect(await readFile(join(dir, 'a.txt'), 'utf8')).toBe('one\r\nTWO\r\nthree\r\n');
+  });
+
+  it('should treat directories as existing paths that cannot be patched', async () => {
+    await setup({});
+    await mkdir(join(dir, 'lib'));
+
+    const result = await applyPatch(dir, [
+      '--- a/lib', '+++ b/lib', '@@ -1 +1 @@', '-x', '+y',
+      '--- /dev/null', '+++ b/lib', '@@ -0,0 +1 @@', '+y',
+    ].join('\n'));
+
+    expect(result.applied).toEqual([]);
+    expect(result.conflicts).toEqual([
+      { path: 'lib', hunk: undefined, message: 'lib is not a file' },
+      { path: 'lib', hunk: undefined, message: 'lib already exists' },
+    ]);
+  });
+
+  it('should not rename or copy over an existing file', async () => {
+    await setup({ 'a.ts': 'a\n', 'b.ts': 'local\n', 'c.ts': 'local\n' });
+
+    const result = await applyPatch(dir, [
+      'diff --git a/a.ts b/b.ts', 'similarity index 100%', 'rename from a.ts', 'rename to b.ts',
+      'diff --git a/a.ts b/c.ts', 'similarity index 100%', 'copy from a.ts', 'copy to c.ts',
+    ].join('\n'));
+
+    expect(result.applied).toEqual([]);
+    expect(result.conflicts).toEqual([
+      { path: 'b.ts', hunk: undefined, message: 'b.ts already exists' },
+      { path: 'c.ts', hunk: undefined, message: 'c.ts already exists' },
+    ]);
+    expect(await readFile(join(dir, 'a.ts'), 'utf8')).toBe('a\n');
+    expect(await readFile(join(dir, 'b.ts'), 'utf8')).toBe('local\n');
+    expect(await readFile(join(dir, 'c.ts'), 'utf8')).toBe('local\n');
+  });
+
+  it('should not write anything on a dry run', async () => {
+    await setup({ 'a.txt': 'x\n' });
+
+    const result = await applyPatch(dir, '--- a/a.txt\n+++ b/a.txt\n@@ -1 +1 @@\n-x\n+y\n', { dryRun: true });
+
+    expect(result.applied).toEqual(['a.txt']);
+    expect(await readFile(join(dir, 'a.txt'), 'utf8')).toBe('x\n');
+  });
+});
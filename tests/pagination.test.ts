@@ -0,0 +1,87 @@
+/**
+ * Unit tests for list pagination and async iterators
+ *
+ * These tests use a stubbed fetch and do not require an API key.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { ComputerAgentsClient } from '../src';
+
+function listResponse(data: unknown[], hasMore: boolean, total: number): Response {
+  return new Response(JSON.stringify({ object: 'list', data, has_more: hasMore, total_count: total }), {
+    status: 200,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+describe('Pagination', () => {
+  it('should expose has_more and total_count from list pages', async () => {
+    const fetchMock = vi.fn(async () => listResponse([{ id: 'sch_1' }], true, 3));
+    const client = new ComputerAgentsClient({ apiKey: 'test', fetch: fetchMock });
+
+    const page = await client.schedules.listPage({ limit: 1 });
+
+    expect(page).toEqual({ data: [{ id: 'sch_1' }], hasMore: true, total: 3 });
+  });
+
+  it('should fetch pages lazily with increasing offsets', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(listResponse([{ id: 'thread_1' }, { id: 'thread_2' }], true, 3))
+      .mockResolvedValueOnce(listResponse([{ id: 'thread_3' }], false, 3));
+    const client = new ComputerAgentsClient({ apiKey: 'test', fetch: fetchMock });
+
+    const ids: string[] = [];
+    for await (const thread of client.threads.listAll({ status: 'completed' }, { pageSize: 2 })) {
+      ids.push(thread.id);
+    }
+
+    expect(ids).toEqual(['thread_1', 'thread_2', 'thread_3']);
+    const urls = fetchMock.mock.calls.map(([url]) => new URL(url));
+    expect(urls.map((url) => url.searchParams.get('offset'))).toEqual(['0', '2']);
+    expect(urls[0].searchParams.get('status')).toBe('completed');
+    expect(urls[0].searchParams.get('limit')).toBe('2');
+  });
+
+  it('should keep paging endpoints without has_more until a page is short', async () => {
+    const skills = Array.from({ length: 120 }, (_, i) => ({ id: `skill_${i}` }));
+    const fetchMock = vi.fn(async (url: string) => {
+      const params = new URL(url).searchParams;
+      const offset = Number(params.get('offset'));
+      const data = skills.slice(offset, offset + Number(params.get('limit')));
+      return new Response(JSON.stringify({ data }), { headers: { 'Content-Type': 'application/json' } });
+    });
+    const client = new ComputerAgentsClient({ apiKey: 'test', fetch: fetchMock });
+
+    const pages = [];
+    for await (const page of client.skills.listAll().pages()) {
+      pages.push(page);
+    }
+
+    expect(pages.map((page) => page.data.length)).toEqual([50, 50, 20]);
+    expect(pages[0].total).toBeUndefined();
+    const urls = fetchMock.mock.calls.map(([url]) => new URL(url).searchParams);
+    expect(urls.map((params) => params.get('offset'))).toEqual(['0', '50', '100']);
+    expect(urls[0].get('limit')).toBe('50');
+  });
+
+  it('should stop fetching once maxItems is reached', async () => {
+    const fetchMock = vi.fn(async () => listResponse([{ id: 'a' }, { id: 'b' }], true, 100));
+    const client = new ComputerAgentsClient({ apiKey: 'test', fetch: fetchMock });
+
+    const items = await client.triggers.listAll({}, { pageSize: 2, maxItems: 3 }).toArray();
+
+    expect(items).toHaveLength(3);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('should send paging parameters for thread messages', async () => {
+    const fetchMock = vi.fn(async () => listResponse([], false, 0));
+    const client = new ComputerAgentsClient({ apiKey: 'test', fetch: fetchMock });
+
+    await client.threads.getMessages('thread_1', { limit: 10, offset: 20 });
+
+    const url = new URL(fetchMock.mock.calls[0][0]);
+    expect(url.searchParams.get('limit')).toBe('10');
+    expect(url.searchParams.get('offset')).toBe('20');
+  });
+});
@@ -0,0 +1,207 @@
+/**
+ * Unit tests for pulling thread and computer changes into a local git branch
+ *
+ * These tests use a stubbed fetch and a temporary git repository, and do not
+ * require an API key.
+ */
+
+import { execFileSync } from 'child_process';
+import { mkdir, mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { ComputerAgentsClient, GitError, InvalidArgumentError } from '../src';
+
+function jsonResponse(body: unknown): Response {
+  return new Response(JSON.stringify(body), { headers: { 'Content-Type': 'application/json' } });
+}
+
+function stubFetch(fixtures: Record<string, unknown>) {
+  return vi.fn(async (url: string, _init: RequestInit) => jsonResponse(fixtures[new URL(url).pathname]));
+}
+
+const editReadme = '--- a/README.md\n+++ b/README.md\n@@ -1 +1,2 @@\n # App\n+Now with tests\n';
+const addTest = '--- /dev/null\n+++ b/test.js\n@@ -0,0 +1 @@\n+test();\n';
+
+let repoDir: string;
+const git = (...args: string[]) => execFileSync('git', args, { cwd: repoDir, encoding: 'utf8' }).trim();
+
+beforeEach(async () => {
+  repoDir = await mkdtemp(join(tmpdir(), 'pull-'));
+  git('init', '-q', '-b', 'main');
+  git('config', 'user.name', 'Test');
+  git('config', 'user.email', 'test@example.com');
+  git('config', 'commit.gpgsign', 'false');
+  await writeFile(join(repoDir, 'README.md'), '# App\n');
+  git('add', '.');
+  git('commit', '-q', '-m', 'Initial commit');
+});
+
+afterEach(async () => {
+  await rm(repoDir, { recursive: true, force: true });
+});
+
+describe('threads.pullChanges()', () => {
+  const fixtures = {
+    '/threads/thread_1': { thread: { id: 'thread_1', title: 'Add tests' } },
+    '/threads/thread_1/steps': {
+      data: [
+        { id: 'step_2', sequence: 2, title: 'Write test' },
+        { id: 'step_1', sequence: 1, title: 'Update README' },
+        { id: 'step_3', sequence: 3, title: 'Run tests' },
+      ],
+    },
+    '/threads/thread_1/steps/step_1/diff': { diff: editReadme },
+    '/threads/thread_1/steps/step_2/diff': { diff: addTest },
+    '/threads/thread_1/steps/step_3/diff': { diff: '' },
+  };
+
+  it('should commit each step with a diff on a new branch, in order', async () => {
+    const client = new ComputerAgentsClient({ apiKey: 'test', fetch: stubFetch(fixtures) });
+
+    const result = await client.threads.pullChanges('thread_1', { repoDir, branch: 'agent/tests' });
+
+    expect(result.conflicts).toEqual([]);
+    expect(result.commits.map((commit) => [commit.sourceId, commit.files])).toEqual([
+      ['step_1', ['README.md']],
+      ['step_2', ['test.js']],
+    ]);
+    expect(git('rev-parse', '--abbrev-ref', 'HEAD')).toBe('agent/tests');
+    expect(git('log', '--format=%s', 'main..HEAD').split('\n')).toEqual(['Write test', 'Update README']);
+    expect(git('log', '-1', '--format=%b', result.commits[0].sha)).toContain('Thread: Add tests');
+    expect(await readFile(join(repoDir, 'test.js'), 'utf8')).toBe('test();\n');
+  });
+
+  it('should report files with local changes as conflicts and leave them alone', async () => {
+    const client = new ComputerAgentsClient({ apiKey: 'test', fetch: stubFetch(fixtures) });
+    await writeFile(join(repoDir, 'README.md'), '# My local edit\n');
+
+    const result = await client.threads.pullChanges('thread_1', { repoDir, branch: 'agent/tests' });
+
+    expect(result.conflicts).toEqual([
+      { sourceId: 'step_1', path: 'README.md', message: 'README.md has uncommitted local changes' },
+    ]);
+    expect(result.commits.map((commit) => commit.sourceId)).toEqual(['step_2']);
+    expect(await readFile(join(repoDir, 'README.md'), 'utf8')).toBe('# My local edit\n');
+  });
+
+  it('should resolve paths against repoDir when it is a subdirectory', async () => {
+    const client = new ComputerAgentsClient({ apiKey: 'test', fetch: stubFetch(fixtures) });
+    await mkdir(join(repoDir, 'app'));
+    await writeFile(join(repoDir, 'app/README.md'), '# App\n');
+    git('add', '.');
+    git('commit', '-q', '-m', 'Add app');
+    // Same relative path as the patch, but outside repoDir
+    await writeFile(join(repoDir, 'README.md'), '# My local edit\n');
+
+    const result = await client.threads.pullChanges('thread_1', { repoDir: join(repoDir, 'app'), branch: 'agent/tests' });
+
+    expect(result.conflicts).toEqual([]);
+    expect(git('show', '--name-only', '--format=', 'HEAD~1')).toBe('app/README.md');
+    expect(await readFile(join(repoDir, 'app/README.md'), 'utf8')).toBe('# App\nNow with tests\n');
+    expect(await readFile(join(repoDir, 'app/test.js'), 'utf8')).toBe('test();\n');
+    expect(await readFile(join(repoDir, 'README.md'), 'utf8')).toBe('# My local edit\n');
+  });
+
+  it('should commit pulled files that match .gitignore', async () => {
+    const client = new ComputerAgentsClient({ apiKey: 'test', fetch: stubFetch(fixtures) });
+    await writeFile(join(repoDir, '.gitignore'), '*.js\n');
+    git('add', '.gitignore');
+    git('commit', '-q', '-m', 'Ignore JavaScript');
+
+    const result = await client.threads.pullChanges('thread_1', { repoDir, branch: 'agent/tests' });
+
+    expect(result.commits.map((commit) => commit.sourceId)).toEqual(['step_1', 'step_2']);
+    expect(git('show', '--name-only', '--format=', 'HEAD')).toBe('test.js');
+  });
+
+  it('should throw GitError when the branch already exists', async () => {
+    const client = new ComputerAgentsClient({ apiKey: 'test', fetch: stubFetch(fixtures) });
+
+    await expect(client.threads.pullChanges('thread_1', { repoDir, branch: 'main' })).rejects.toBeInstanceOf(GitError);
+  });
+
+  it('should leave the repository untouched when a patch is malformed', async () => {
+    const broken = { ...fixtures, '/threads/thread_1/steps/step_2/diff': { diff: '--- a/x\n+++ b/x\n@@ -1 +1 @@\n-a\n' } };
+    const client = new ComputerAgentsClient({ apiKey: 'test', fetch: stubFetch(broken) });
+
+    await expect(client.threads.pullChanges('thread_1', { repoDir, branch: 'agent/tests' })).rejects.toThrow();
+
+    expect(git('rev-parse', '--abbrev-ref', 'HEAD')).toBe('main');
+    expect(git('branch', '--list', 'agent/tests')).toBe('');
+  });
+
+  it('should delete the branch and keep the checkout when committing fails', async () => {
+    const client = new ComputerAgentsClient({ apiKey: 'test', fetch: stubFetch(fixtures) });
+    git('config', 'commit.gpgsign', 'true');
+    git('config', 'gpg.program', 'false');
+
+    await expect(client.threads.pullChanges('thread_1', { repoDir, branch: 'agent/tests' })).rejects.toBeInstanceOf(GitError);
+
+    expect(git('rev-parse', '--abbrev-ref', 'HEAD')).toBe('main');
+    expect(git('branch', '--list', 'agent/tests')).toBe('');
+    expect(git('worktree', 'list').split('\n')).toHaveLength(1);
+  });
+});
+
+describe('environments.pullChanges()', () => {
+  const change = (id: string, title: string) => ({ id, title, threadTitle: 'Add tests', stepTitle: title, files: [] });
+  const fixtures = {
+    // Newest first, like the API
+    '/environments/env_1/changes': {
+      data: [change('chg_3', 'Third'), change('chg_2', 'Write test'), change('chg_1', 'Update README')],
+      hasMore: false,
+      total: 3,
+    },
+    '/environments/env_1/changes/chg_1/diff': { diff: editReadme },
+    '/environments/env_1/changes/chg_2/diff': { diff: addTest },
+    '/environments/env_1/changes/chg_3/diff': { diff: '--- a/missing.txt\n+++ b/missing.txt\n@@ -1 +1 @@\n-a\n+b\n' },
+  };
+
+  it('should commit the selected change range oldest first', async () => {
+    const client = new ComputerAgentsClient({ apiKey: 'test', fetch: stubFetch(fixtures) });
+
+    const result = await client.environments.pullChanges('env_1', { repoDir, branch: 'agent/env', from: 'chg_1', to: 'chg_2' });
+
+    expect(result.commits.map((commit) => commit.sourceId)).toEqual(['chg_1', 'chg_2']);
+    expect(result.commits[1].message).toBe('Write test\n\nThread: Add tests\nStep: Write test\nChange-Id: chg_2');
+  });
+
+  it('should report patches that do not apply', async () => {
+    const client = new ComputerAgentsClient({ apiKey: 'test', fetch: stubFetch(fixtures) });
+
+    const result = await client.environments.pullChanges('env_1', { repoDir, branch: 'agent/env', from: 'chg_3' });
+
+    expect(result.commits).toEqual([]);
+    expect(result.conflicts).toEqual([
+      { sourceId: 'chg_3', path: 'missing.txt', message: 'missing.txt does not exist' },
+    ]);
+  });
+
+  it('should stop listing changes once it reaches from', async () => {
+    const changes = Array.from({ length: 120 }, (_, i) => change(`chg_${120 - i}`, `Change ${120 - i}`));
+    const fetchMock = vi.fn(async (url: string, _init: RequestInit) => {
+      const { pathname, searchParams } = new URL(url);
+      if (pathname === '/environments/env_1/changes') {
+        const offset = Number(searchParams.get('offset'));
+        const limit = Number(searchParams.get('limit'));
+        return jsonResponse({ data: changes.slice(offset, offset + limit), hasMore: offset + limit < changes.length, total: 120 });
+      }
+      return jsonResponse({ diff: pathname.endsWith('chg_119/diff') ? addTest : '' });
+    });
+    const client = new ComputerAgentsClient({ apiKey: 'test', fetch: fetchMock });
+
+    const result = await client.environments.pullChanges('env_1', { repoDir, branch: 'agent/env', from: 'chg_119', to: 'chg_120' });
+
+    expect(result.commits.map((commit) => commit.sourceId)).toEqual(['chg_119']);
+    const listCalls = fetchMock.mock.calls.filter(([url]) => new URL(url).pathname === '/environments/env_1/changes');
+    expect(listCalls).toHaveLength(1);
+  });
+
+  it('should reject unknown change IDs', async () => {
+    const client = new ComputerAgentsClient({ apiKey: 'test', fetch: stubFetch(fixtures) });
+
+    await expect(client.environments.pullChanges('env_1', { repoDir, branch: 'agent/env', to: 'chg_9' }))
+      .rejects.toBeInstanceOf(InvalidArgumentError);
+  });
+});
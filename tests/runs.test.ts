@@ -0,0 +1,79 @@
+/**
+ * Unit tests for the runs resource
+ *
+ * These tests use a stubbed fetch and do not require an API key.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { ComputerAgentsClient } from '../src';
+
+function jsonResponse(body: unknown): Response {
+  return new Response(JSON.stringify(body), { headers: { 'Content-Type': 'application/json' } });
+}
+
+const run = {
+  id: 'run_1',
+  projectId: 'proj_1',
+  threadId: 'thread_1',
+  name: 'Fix tests',
+  task: 'Fix the failing tests',
+  status: 'success',
+  cost: 0.042,
+  tokenUsage: { inputTokens: 1200, outputTokens: 300 },
+  createdAt: '2026-01-01T10:00:00.000Z',
+  updatedAt: '2026-01-01T10:02:00.000Z',
+};
+
+const fixtures: Record<string, unknown> = {
+  '/runs': { data: [run], has_more: false, total_count: 1 },
+  '/runs/run_1': { run },
+  '/runs/run_1/logs': { logs: [{ timestamp: '2026-01-01T10:00:01.000Z', level: 'info', message: 'npm test' }] },
+  '/runs/run_1/diffs': { diffs: [{ path: 'src/a.ts', type: 'modified', diff: '-a\n+b', additions: 1, deletions: 1 }] },
+  '/runs/run_1/cancel': { run: { ...run, status: 'cancelled' } },
+};
+
+function stubFetch() {
+  return vi.fn(async (url: string, _init: RequestInit) => jsonResponse(fixtures[new URL(url).pathname]));
+}
+
+describe('client.runs', () => {
+  it('should pass thread, status and since filters when listing', async () => {
+    const fetchMock = stubFetch();
+    const client = new ComputerAgentsClient({ apiKey: 'test', fetch: fetchMock });
+
+    const page = await client.runs.listPage({ threadId: 'thread_1', status: 'success', since: '2026-01-01T00:00:00Z', limit: 10 });
+
+    expect(page.data[0].id).toBe('run_1');
+    expect(page.total).toBe(1);
+    const query = new URL(fetchMock.mock.calls[0][0]).searchParams;
+    expect(Object.fromEntries(query)).toEqual({
+      threadId: 'thread_1',
+      status: 'success',
+      since: '2026-01-01T00:00:00Z',
+      limit: '10',
+    });
+  });
+
+  it('should look up a run with its usage, logs and diffs', async () => {
+    const client = new ComputerAgentsClient({ apiKey: 'test', fetch: stubFetch() });
+
+    const found = await client.runs.get('run_1');
+    const logs = await client.runs.getLogs('run_1');
+    const diffs = await client.runs.getDiffs('run_1');
+
+    expect(found.tokenUsage).toEqual({ inputTokens: 1200, outputTokens: 300 });
+    expect(found.cost).toBe(0.042);
+    expect(logs[0].message).toBe('npm test');
+    expect(diffs[0]).toMatchObject({ path: 'src/a.ts', type: 'modified' });
+  });
+
+  it('should cancel a run', async () => {
+    const fetchMock = stubFetch();
+    const client = new ComputerAgentsClient({ apiKey: 'test', fetch: fetchMock });
+
+    const cancelled = await client.runs.cancel('run_1');
+
+    expect(cancelled.status).toBe('cancelled');
+    expect(fetchMock.mock.calls[0][1].method).toBe('POST');
+  });
+});
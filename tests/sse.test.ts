@@ -0,0 +1,73 @@
+/**
+ * Unit tests for the Server-Sent Events decoder
+ */
+
+import { describe, it, expect } from 'vitest';
+import { SSEDecoder, readSSE } from '../src';
+
+function streamOf(...chunks: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    start(controller) {
+      for (const chunk of chunks) {
+        controller.enqueue(encoder.encode(chunk));
+      }
+      controller.close();
+    },
+  });
+}
+
+describe('SSEDecoder', () => {
+  it('should join multi-line data fields with newlines', () => {
+    const decoder = new SSEDecoder();
+    const messages = decoder.decode('data: first\ndata: second\n\n');
+
+    expect(messages).toEqual([{ event: 'message', data: 'first\nsecond', id: undefined, retry: undefined }]);
+  });
+
+  it('should handle CRLF and CR line endings, including CRLF split across chunks', () => {
+    const decoder = new SSEDecoder();
+    const messages = [
+      ...decoder.decode('data: a\r\n\r'),
+      ...decoder.decode('\ndata: b\r\r'),
+    ];
+
+    expect(messages.map((m) => m.data)).toEqual(['a', 'b']);
+  });
+
+  it('should expose event names, ids and retry, and keep the id sticky', () => {
+    const decoder = new SSEDecoder();
+    const messages = decoder.decode('event: update\nid: 7\nretry: 3000\ndata: x\n\ndata: y\n\n');
+
+    expect(messages[0]).toEqual({ event: 'update', data: 'x', id: '7', retry: 3000 });
+    expect(messages[1]).toMatchObject({ event: 'message', data: 'y', id: '7' });
+    expect(decoder.lastId).toBe('7');
+  });
+
+  it('should ignore comments, unknown fields and events without data', () => {
+    const decoder = new SSEDecoder();
+    const messages = decoder.decode(': heartbeat\n\nfoo: bar\nevent: ping\n\ndata\n\n');
+
+    expect(messages).toEqual([{ event: 'message', data: '', id: undefined, retry: undefined }]);
+  });
+
+  it('should strip a leading BOM and only one leading space from values', () => {
+    const decoder = new SSEDecoder();
+    const messages = decoder.decode('\uFEFFdata:  padded\n\n');
+
+    expect(messages[0].data).toBe(' padded');
+  });
+});
+
+describe('readSSE', () => {
+  it('should decode events split across arbitrary chunk boundaries', async () => {
+    const body = streamOf('da', 'ta: {"type":"a"}\n', '\ndata: {"type"', ':"b"}\n\n', 'data: unterminated');
+
+    const messages = [];
+    for await (const message of readSSE(body)) {
+      messages.push(message.data);
+    }
+
+    expect(messages).toEqual(['{"type":"a"}', '{"type":"b"}']);
+  });
+});
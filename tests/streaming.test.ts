@@ -0,0 +1,305 @@
+/**
+ * Unit tests for streaming runs
+ *
+ * These tests use a stubbed fetch and do not require an API key.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { ComputerAgentsClient, StreamError } from '../src';
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+function sseResponse(events: unknown[]): Response {
+  const body = events.map((event) => `data: ${JSON.stringify(event)}\n\n`).join('');
+  return new Response(body, { headers: { 'Content-Type': 'text/event-stream' } });
+}
+
+const completedRun = [
+  { type: 'response.started' },
+  { type: 'response.item.completed', item: { type: 'message' } },
+  { type: 'response.completed', response: { content: 'done' } },
+  { type: 'stream.completed', run: { id: 'run_1', status: 'completed' } },
+];
+
+describe('threads.stream()', () => {
+  it('should yield events and resolve the final result without buffering', async () => {
+    const fetchMock = vi.fn(async () => sseResponse(completedRun));
+    const client = new ComputerAgentsClient({ apiKey: 'test', fetch: fetchMock });
+
+    const stream = client.threads.stream('thread_1', { content: 'Hello' });
+    const types: string[] = [];
+    for await (const event of stream) {
+      types.push(event.type);
+    }
+    const result = await stream.finalResult();
+
+    expect(types).toEqual(['response.started', 'response.item.completed', 'response.completed', 'stream.completed']);
+    expect(result.content).toBe('done');
+    expect(result.run?.id).toBe('run_1');
+    expect(result.events).toEqual([]);
+  });
+
+  it('should cancel the run when the consumer breaks out of the loop', async () => {
+    const fetchMock = vi.fn(async (url: string) => (
+      url.endsWith('/cancel') ? jsonResponse({ success: true }) : sseResponse(completedRun)
+    ));
+    const client = new ComputerAgentsClient({ apiKey: 'test', fetch: fetchMock });
+
+    const stream = client.threads.stream('thread_1', { content: 'Hello' });
+    for await (const event of stream) {
+      if (event.type === 'response.started') {
+        break;
+      }
+    }
+
+    const urls = fetchMock.mock.calls.map(([url]) => new URL(url).pathname);
+    expect(urls).toEqual(['/threads/thread_1/messages', '/threads/thread_1/cancel']);
+    await expect(stream.finalResult()).rejects.toThrow('Stream ended before the run completed');
+  });
+
+  it('should not cancel a finished run when the consumer breaks on stream.completed', async () => {
+    const fetchMock = vi.fn(async (url: string) => (
+      url.endsWith('/cancel') ? jsonResponse({ success: true }) : sseResponse(completedRun)
+    ));
+    const client = new ComputerAgentsClient({ apiKey: 'test', fetch: fetchMock });
+
+    const stream = client.threads.stream('thread_1', { content: 'Hello' });
+    for await (const event of stream) {
+      if (event.type === 'stream.completed') {
+        break;
+      }
+    }
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect((await stream.finalResult()).content).toBe('done');
+  });
+
+  it('should keep collecting events for sendMessage()', async () => {
+    const fetchMock = vi.fn(async () => sseResponse(completedRun));
+    const client = new ComputerAgentsClient({ apiKey: 'test', fetch: fetchMock });
+    const onEvent = vi.fn();
+
+    const result = await client.threads.sendMessage('thread_1', { content: 'Hello', onEvent });
+
+    expect(onEvent).toHaveBeenCalledTimes(4);
+    expect(result.events).toHaveLength(4);
+  });
+});
+
+describe('client.stream()', () => {
+  it('should create a thread and expose its ID', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(jsonResponse({ thread: { id: 'thread_9' } }))
+      .mockResolvedValueOnce(sseResponse(completedRun));
+    const client = new ComputerAgentsClient({ apiKey: 'test', fetch: fetchMock });
+
+    const stream = client.stream('Hello', { computerId: 'env_1' });
+    const result = await stream.finalResult();
+
+    expect(stream.threadId).toBe('thread_9');
+    expect(result.content).toBe('done');
+    expect(new URL(fetchMock.mock.calls[1][0]).pathname).toBe('/threads/thread_9/messages');
+  });
+});
+
+describe('stream recovery', () => {
+  function sseWithIds(events: Array<[string, unknown]>): Response {
+    const body = events.map(([id, event]) => `id: ${id}\ndata: ${JSON.stringify(event)}\n\n`).join('');
+    return new Response(body, { headers: { 'Content-Type': 'text/event-stream' } });
+  }
+
+  const numbered = completedRun.map((event, index): [string, unknown] => [String(index + 1), event]);
+
+  it('should reconnect with Last-Event-ID and skip events already delivered', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(sseWithIds(numbered.slice(0, 2)))
+      .mockResolvedValueOnce(sseWithIds(numbered));
+    const client = new ComputerAgentsClient({ apiKey: 'test', fetch: fetchMock });
+
+    const types: string[] = [];
+    const stream = client.threads.stream('thread_1', { content: 'Hello', reconnect: { initialDelayMs: 1 } });
+    for await (const event of stream) {
+      types.push(event.type);
+    }
+
+    expect(types).toEqual(['response.started', 'response.item.completed', 'response.completed', 'stream.completed']);
+    expect((await stream.finalResult()).content).toBe('done');
+    const [first, second] = fetchMock.mock.calls.map(([, init]) => init.headers);
+    expect(second['Last-Event-ID']).toBe('2');
+    expect(second['Idempotency-Key']).toBe(first['Idempotency-Key']);
+  });
+
+  it('should fall back to polling when the server refuses to resume', async () => {
+    const fetchMock = vi.fn(async (url: string) => {
+      const { pathname } = new URL(url);
+      if (pathname.endsWith('/status')) {
+        return jsonResponse({ threadId: 'thread_1', status: 'completed' });
+      }
+      if (fetchMock.mock.calls.length === 1) {
+        return sseWithIds(numbered.slice(0, 1));
+      }
+      if (fetchMock.mock.calls.length === 2) {
+        return jsonResponse({ error: 'Conflict' }, 409);
+      }
+      return jsonResponse({
+        data: [{ role: 'user', content: 'Hello' }, { role: 'assistant', content: 'polled answer' }],
+        has_more: false,
+        total_count: 2,
+      });
+    });
+    const client = new ComputerAgentsClient({ apiKey: 'test', fetch: fetchMock });
+
+    const result = await client.threads.sendMessage('thread_1', {
+      content: 'Hello',
+      reconnect: { initialDelayMs: 1, pollIntervalMs: 1 },
+    });
+
+    expect(result.content).toBe('polled answer');
+    expect(result.run?.status).toBe('completed');
+    expect(result.events.map((e) => e.type)).toEqual(['response.started', 'response.completed', 'stream.completed']);
+  });
+});
+
+describe('stream recovery without event IDs', () => {
+  // The server ignores Idempotency-Key: re-sending the message would start a second run
+  function pollingServer(statuses: string[]) {
+    const fetchMock = vi.fn(async (url: string, init: RequestInit) => {
+      const { pathname } = new URL(url);
+      if (pathname.endsWith('/messages') && init.method === 'POST') {
+        return sseResponse(completedRun.slice(0, 2));
+      }
+      if (pathname.endsWith('/status')) {
+        return jsonResponse({ threadId: 'thread_1', status: statuses.shift() ?? 'completed' });
+      }
+      return jsonResponse({
+        data: [{ role: 'user', content: 'Hello' }, { role: 'assistant', content: 'polled answer' }],
+        has_more: false,
+        total_count: 2,
+      });
+    });
+    return fetchMock;
+  }
+
+  it('should poll instead of re-sending the message', async () => {
+    const fetchMock = pollingServer([]);
+    const client = new ComputerAgentsClient({ apiKey: 'test', fetch: fetchMock });
+
+    const result = await client.threads.sendMessage('thread_1', {
+      content: 'Hello',
+      reconnect: { initialDelayMs: 1, pollIntervalMs: 1 },
+    });
+
+    expect(result.content).toBe('polled answer');
+    const posts = fetchMock.mock.calls.filter(([, init]) => init.method === 'POST');
+    expect(posts).toHaveLength(1);
+  });
+
+  it('should keep polling while the run is paused', async () => {
+    const fetchMock = pollingServer(['paused', 'paused', 'completed']);
+    const client = new ComputerAgentsClient({ apiKey: 'test', fetch: fetchMock });
+
+    const result = await client.threads.sendMessage('thread_1', {
+      content: 'Hello',
+      reconnect: { initialDelayMs: 1, pollIntervalMs: 1 },
+    });
+
+    expect(result.run?.status).toBe('completed');
+    expect(fetchMock.mock.calls.filter(([url]) => url.endsWith('/status'))).toHaveLength(3);
+  });
+});
+
+describe('typed event handlers', () => {
+  it('should route events to handlers by name', async () => {
+    const fetchMock = vi.fn(async () => sseResponse([
+      { type: 'response.started' },
+      { type: 'response.tool_call.started', callId: 'call_1', name: 'shell', arguments: { command: 'ls' } },
+      { type: 'response.tool_call.completed', callId: 'call_1', name: 'shell', arguments: { command: 'ls' }, output: 'a.py' },
+      { type: 'response.file_change', path: 'a.py', operation: 'update' },
+      { type: 'response.unknown_future_event' },
+      ...completedRun.slice(2),
+    ]));
+    const client = new ComputerAgentsClient({ apiKey: 'test', fetch: fetchMock });
+    const calls: string[] = [];
+
+    await client.run('Hello', {
+      threadId: 'thread_1',
+      computerId: 'env_1',
+      on: {
+        tool_call: (e) => calls.push(`call ${e.name} ${e.arguments.command}`),
+        tool_result: (e) => calls.push(`result ${e.output}`),
+        file_change: (e) => calls.push(`${e.operation} ${e.path}`),
+        done: (e) => calls.push(`done ${e.run.status}`),
+      },
+    });
+
+    expect(calls).toEqual(['call shell ls', 'result a.py', 'update a.py', 'done completed']);
+  });
+});
+
+describe('stream errors', () => {
+  it('should reject sendMessage() with a StreamError carrying run context', async () => {
+    const fetchMock = vi.fn(async () => sseResponse([
+      { type: 'response.started', runId: 'run_7' },
+      { type: 'stream.error', error: 'boom', message: 'Agent crashed', code: 'AGENT_CRASHED' },
+    ]));
+    const client = new ComputerAgentsClient({ apiKey: 'test', fetch: fetchMock });
+
+    const error = await client.threads.sendMessage('thread_1', { content: 'Hello' }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(StreamError);
+    expect(error.message).toBe('Agent crashed');
+    expect(error.code).toBe('AGENT_CRASHED');
+    expect(error.threadId).toBe('thread_1');
+    expect(error.runId).toBe('run_7');
+    expect(error.events.map((e: { type: string }) => e.type)).toEqual(['response.started', 'stream.error']);
+  });
+
+  it('should reject on a premature close only in strict mode', async () => {
+    const fetchMock = vi.fn(async () => sseResponse(completedRun.slice(0, 3)));
+    const client = new ComputerAgentsClient({ apiKey: 'test', fetch: fetchMock });
+
+    const lenient = await client.threads.sendMessage('thread_1', { content: 'Hello', reconnect: false });
+    expect(lenient.content).toBe('done');
+
+    const error = await client.threads
+      .sendMessage('thread_1', { content: 'Hello', reconnect: false, strict: true })
+      .catch((e) => e);
+    expect(error).toBeInstanceOf(StreamError);
+    expect(error.code).toBe('STREAM_CLOSED');
+    expect(error.events).toHaveLength(3);
+  });
+
+  it('should attach the most recent events to errors from stream()', async () => {
+    const deltas = Array.from({ length: 60 }, (_, i) => ({ type: 'response.text.delta', delta: String(i) }));
+    const fetchMock = vi.fn(async () => sseResponse([
+      ...deltas,
+      { type: 'stream.error', error: 'boom', message: 'Agent crashed' },
+    ]));
+    const client = new ComputerAgentsClient({ apiKey: 'test', fetch: fetchMock });
+
+    const error = await client.threads.stream('thread_1', { content: 'Hello' }).finalResult().catch((e) => e);
+
+    expect(error).toBeInstanceOf(StreamError);
+    expect(error.events).toHaveLength(50);
+    expect(error.events.at(-1).type).toBe('stream.error');
+    expect(error.events[0].delta).toBe('11');
+  });
+
+  it('should release the abort listener once the stream body is read', async () => {
+    const fetchMock = vi.fn(async () => sseResponse(completedRun));
+    const client = new ComputerAgentsClient({ apiKey: 'test', fetch: fetchMock });
+    const controller = new AbortController();
+    const add = vi.spyOn(controller.signal, 'addEventListener');
+    const remove = vi.spyOn(controller.signal, 'removeEventListener');
+
+    await client.threads.stream('thread_1', { content: 'Hello', signal: controller.signal }).finalResult();
+
+    expect(add.mock.calls.length).toBeGreaterThan(0);
+    expect(remove).toHaveBeenCalledTimes(add.mock.calls.length);
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * Unit tests for structured output
+ *
+ * These tests use a stubbed fetch and do not require an API key.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { ComputerAgentsClient, StructuredOutputError } from '../src';
+
+function jsonResponse(body: unknown): Response {
+  return new Response(JSON.stringify(body), { headers: { 'Content-Type': 'application/json' } });
+}
+
+function answer(content: string): Response {
+  const events = [
+    { type: 'response.completed', response: { content } },
+    { type: 'stream.completed', run: { id: 'run_1', status: 'completed' } },
+  ];
+  const body = events.map((event) => `data: ${JSON.stringify(event)}\n\n`).join('');
+  return new Response(body, { headers: { 'Content-Type': 'text/event-stream' } });
+}
+
+function sentContent(fetchMock: ReturnType<typeof vi.fn>, call: number): string {
+  return JSON.parse(fetchMock.mock.calls[call][1].body).content;
+}
+
+const schema = {
+  type: 'object',
+  properties: { name: { type: 'string' }, stars: { type: 'integer' } },
+  required: ['name', 'stars'],
+};
+
+describe('Structured output', () => {
+  it('should re-prompt on the same thread until the output validates', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(jsonResponse({ thread: { id: 'thread_1' } }))
+      .mockResolvedValueOnce(answer('Here you go: {"name": "sdk"}'))
+      .mockResolvedValueOnce(answer('```json\n{"name": "sdk", "stars": 42}\n```'));
+    const client = new ComputerAgentsClient({ apiKey: 'test', fetch: fetchMock });
+
+    const result = await client.run<{ name: string; stars: number }>('Describe the repo', {
+      computerId: 'env_1',
+      output: { schema },
+    });
+
+    expect(result.data).toEqual({ name: 'sdk', stars: 42 });
+    expect(result.threadId).toBe('thread_1');
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(sentContent(fetchMock, 1)).toContain('"required"');
+    expect(sentContent(fetchMock, 2)).toContain('$.stars: is required');
+    expect(new URL(fetchMock.mock.calls[2][0]).pathname).toBe('/threads/thread_1/messages');
+  });
+
+  it('should send only the correction to the thread the last attempt ran on', async () => {
+    let answers = 0;
+    const fetchMock = vi.fn(async (url: string, _init: RequestInit) => {
+      const path = new URL(url).pathname;
+      if (path.endsWith('/context')) {
+        const estimatedTokens = path.includes('thread_1') ? 195000 : 1000;
+        return jsonResponse({ threadId: path.split('/')[2], estimatedTokens, contextWindow: 200000 });
+      }
+      if (path.endsWith('/context/actions')) {
+        return jsonResponse({ thread: { id: 'thread_2' } });
+      }
+      return answer(++answers === 1 ? '{"name": "sdk"}' : '{"name": "sdk", "stars": 1}');
+    });
+    const client = new ComputerAgentsClient({ apiKey: 'test', fetch: fetchMock });
+
+    const result = await client.threads.sendMessage('thread_1', {
+      content: 'Describe the repo',
+      attachments: [{ type: 'buffer', data: new TextEncoder().encode('notes'), mimeType: 'text/plain', name: 'notes.txt' }],
+      contextPolicy: { thresholds: [{ usage: 0.9, action: 'fork' }] },
+      output: { schema },
+    });
+
+    expect(result.threadId).toBe('thread_2');
+    const requests = fetchMock.mock.calls.map(([url, init]) => `${init.method} ${new URL(url).pathname}`);
+    expect(requests).toEqual([
+      'GET /threads/thread_1/context',
+      'POST /threads/thread_1/context/actions',
+      'GET /threads/thread_2/context',
+      'POST /threads/thread_2/messages',
+      'POST /threads/thread_2/messages',
+    ]);
+    expect(JSON.parse(fetchMock.mock.calls[3][1].body as string).attachments).toHaveLength(1);
+    const correction = JSON.parse(fetchMock.mock.calls[4][1].body as string);
+    expect(correction.attachments).toBeUndefined();
+    expect(correction.content).toContain('$.stars: is required');
+  });
+
+  it('should type and transform data with a parse() validator', async () => {
+    const fetchMock = vi.fn(async () => answer('["b", "a"]'));
+    const client = new ComputerAgentsClient({ apiKey: 'test', fetch: fetchMock });
+    const validator = {
+      parse: (value: unknown): string[] => (value as string[]).slice().sort(),
+    };
+
+    const result = await client.threads.sendMessage('thread_1', { content: 'List files', output: { validator } });
+
+    const sorted: string[] = result.data;
+    expect(sorted).toEqual(['a', 'b']);
+  });
+
+  it('should throw StructuredOutputError once retries are exhausted', async () => {
+    const fetchMock = vi.fn(async () => answer('not json at all'));
+    const client = new ComputerAgentsClient({ apiKey: 'test', fetch: fetchMock });
+
+    const error = await client.threads
+      .sendMessage('thread_1', { content: 'Hi', output: { schema, maxRetries: 1 } })
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(StructuredOutputError);
+    expect(error.attempts).toBe(2);
+    expect(error.threadId).toBe('thread_1');
+    expect(error.issues).toEqual(['response does not contain valid JSON']);
+    expect(error.content).toBe('not json at all');
+  });
+});
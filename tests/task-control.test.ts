@@ -0,0 +1,94 @@
+/**
+ * Unit tests for cloud task control on threads
+ *
+ * These tests use a stubbed fetch and do not require an API key.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { ComputerAgentsClient } from '../src';
+
+function jsonResponse(body: unknown): Response {
+  return new Response(JSON.stringify(body), { headers: { 'Content-Type': 'application/json' } });
+}
+
+const queued = {
+  id: 'qm_1',
+  threadId: 'thread_1',
+  content: 'Skip the e2e tests',
+  mode: 'steer',
+  createdAt: '2026-01-01T10:00:00.000Z',
+};
+
+function stubFetch() {
+  return vi.fn(async (url: string, init: RequestInit) => {
+    const path = new URL(url).pathname;
+    if (path.endsWith('/pause')) {
+      return jsonResponse({ thread: { id: 'thread_1', status: 'paused' } });
+    }
+    if (path.endsWith('/status')) {
+      return jsonResponse({ threadId: 'thread_1', status: 'running', queuedMessages: 2 });
+    }
+    if (path === '/threads/thread_1/queue' && init.method === 'POST') {
+      return jsonResponse({ message: { ...queued, ...JSON.parse(init.body as string) } });
+    }
+    if (path === '/threads/thread_1/queue' && init.method === 'DELETE') {
+      return jsonResponse({ deleted: 2 });
+    }
+    if (path === '/threads/thread_1/queue') {
+      return jsonResponse({ data: [queued] });
+    }
+    return jsonResponse({ success: true });
+  });
+}
+
+function requests(fetchMock: ReturnType<typeof stubFetch>) {
+  return fetchMock.mock.calls.map(([url, init]) => `${init.method} ${new URL(url).pathname}`);
+}
+
+describe('Thread task control', () => {
+  it('should pause and resume a thread', async () => {
+    const fetchMock = stubFetch();
+    const client = new ComputerAgentsClient({ apiKey: 'test', fetch: fetchMock });
+
+    const paused = await client.threads.pause('thread_1');
+    await client.threads.resume('thread_1');
+
+    expect(paused.status).toBe('paused');
+    expect(requests(fetchMock)).toEqual(['POST /threads/thread_1/pause', 'POST /threads/thread_1/resume']);
+  });
+
+  it('should queue steering and next-turn messages', async () => {
+    const fetchMock = stubFetch();
+    const client = new ComputerAgentsClient({ apiKey: 'test', fetch: fetchMock });
+
+    const steered = await client.threads.steer('thread_1', 'Skip the e2e tests');
+    const next = await client.threads.queueMessage('thread_1', { content: 'Then update the changelog' });
+
+    expect(steered.mode).toBe('steer');
+    expect(next.mode).toBe('next_turn');
+    expect(fetchMock.mock.calls.map(([, init]) => JSON.parse(init.body as string))).toEqual([
+      { content: 'Skip the e2e tests', mode: 'steer' },
+      { content: 'Then update the changelog', mode: 'next_turn' },
+    ]);
+  });
+
+  it('should list, delete and clear queued messages and report queue depth', async () => {
+    const fetchMock = stubFetch();
+    const client = new ComputerAgentsClient({ apiKey: 'test', fetch: fetchMock });
+
+    const messages = await client.threads.listQueuedMessages('thread_1');
+    await client.threads.deleteQueuedMessage('thread_1', 'qm_1');
+    const cleared = await client.threads.clearQueue('thread_1');
+    const status = await client.threads.getStatus('thread_1');
+
+    expect(messages).toEqual([queued]);
+    expect(cleared).toBe(2);
+    expect(status.queuedMessages).toBe(2);
+    expect(requests(fetchMock)).toEqual([
+      'GET /threads/thread_1/queue',
+      'DELETE /threads/thread_1/queue/qm_1',
+      'DELETE /threads/thread_1/queue',
+      'GET /threads/thread_1/status',
+    ]);
+  });
+});
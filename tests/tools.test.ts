@@ -0,0 +1,100 @@
+/**
+ * Unit tests for client-side tools
+ *
+ * These tests use a stubbed fetch and do not require an API key.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { ComputerAgentsClient, StreamError, defineTool } from '../src';
+
+function jsonResponse(body: unknown): Response {
+  return new Response(JSON.stringify(body), { headers: { 'Content-Type': 'application/json' } });
+}
+
+function sseResponse(events: unknown[]): Response {
+  const body = events.map((event) => `data: ${JSON.stringify(event)}\n\n`).join('');
+  return new Response(body, { headers: { 'Content-Type': 'text/event-stream' } });
+}
+
+const lookupOrder = defineTool<{ orderId: string }>({
+  name: 'lookup_order',
+  description: 'Look up an order',
+  parameters: {
+    type: 'object',
+    properties: { orderId: { type: 'string' } },
+    required: ['orderId'],
+  },
+  handler: async ({ orderId }, context) => ({ orderId, status: 'shipped', callId: context.callId }),
+});
+
+function runWithToolCall(args: Record<string, unknown>): unknown[] {
+  return [
+    { type: 'response.started', runId: 'run_1' },
+    { type: 'response.tool_call.started', callId: 'call_1', name: 'lookup_order', arguments: args },
+    { type: 'response.tool_call.started', callId: 'call_2', name: 'server_tool', arguments: {} },
+    { type: 'response.completed', response: { content: 'Order shipped' } },
+    { type: 'stream.completed', run: { id: 'run_1', status: 'completed' } },
+  ];
+}
+
+describe('Client-side tools', () => {
+  it('should send tool definitions and post handler results back to the run', async () => {
+    const fetchMock = vi.fn(async (url: string, _init: RequestInit) => (
+      url.endsWith('/tool-outputs') ? jsonResponse({ success: true }) : sseResponse(runWithToolCall({ orderId: 'ord_9' }))
+    ));
+    const client = new ComputerAgentsClient({ apiKey: 'test', fetch: fetchMock });
+
+    const result = await client.threads.sendMessage('thread_1', { content: 'Where is ord_9?', tools: [lookupOrder] });
+
+    expect(result.content).toBe('Order shipped');
+    const [[, messageInit], [outputUrl, outputInit]] = fetchMock.mock.calls;
+    expect(JSON.parse(messageInit.body as string).clientTools).toEqual([
+      { name: 'lookup_order', description: 'Look up an order', parameters: lookupOrder.parameters },
+    ]);
+    expect(new URL(outputUrl).pathname).toBe('/threads/thread_1/tool-outputs');
+    expect(JSON.parse(outputInit.body as string)).toEqual({
+      runId: 'run_1',
+      callId: 'call_1',
+      output: JSON.stringify({ orderId: 'ord_9', status: 'shipped', callId: 'call_1' }),
+      isError: false,
+    });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('should report invalid arguments as a failed call without running the handler', async () => {
+    const handler = vi.fn();
+    const fetchMock = vi.fn(async (url: string, _init: RequestInit) => (
+      url.endsWith('/tool-outputs') ? jsonResponse({ success: true }) : sseResponse(runWithToolCall({ id: 1 }))
+    ));
+    const client = new ComputerAgentsClient({ apiKey: 'test', fetch: fetchMock });
+
+    await client.threads.sendMessage('thread_1', { content: 'Hi', tools: [{ ...lookupOrder, handler }] });
+
+    expect(handler).not.toHaveBeenCalled();
+    const submission = JSON.parse(fetchMock.mock.calls[1][1].body as string);
+    expect(submission.isError).toBe(true);
+    expect(submission.output).toContain('$.orderId: is required');
+  });
+
+  it('should fail the stream instead of reconnecting when the output cannot be posted', async () => {
+    const fetchMock = vi.fn(async (url: string, _init: RequestInit) => {
+      if (url.endsWith('/tool-outputs')) {
+        return new Response(JSON.stringify({ error: 'Bad request' }), { status: 400 });
+      }
+      return url.endsWith('/cancel') ? jsonResponse({ success: true }) : sseResponse(runWithToolCall({ orderId: 'ord_9' }));
+    });
+    const client = new ComputerAgentsClient({ apiKey: 'test', fetch: fetchMock });
+
+    const error = await client.threads
+      .sendMessage('thread_1', { content: 'Where is ord_9?', tools: [lookupOrder], reconnect: { initialDelayMs: 1 } })
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(StreamError);
+    expect((error as StreamError).code).toBe('TOOL_OUTPUT_FAILED');
+    expect(fetchMock.mock.calls.map(([url]) => new URL(url).pathname)).toEqual([
+      '/threads/thread_1/messages',
+      '/threads/thread_1/tool-outputs',
+      '/threads/thread_1/cancel',
+    ]);
+  });
+});
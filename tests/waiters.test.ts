@@ -0,0 +1,136 @@
+/**
+ * Unit tests for wait-for-completion helpers
+ *
+ * These tests use a stubbed fetch and do not require an API key.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { ComputerAgentsClient, RequestAbortedError, TerminalStateError, TimeoutError, waitFor } from '../src';
+
+function jsonResponse(body: unknown): Response {
+  return new Response(JSON.stringify(body), { headers: { 'Content-Type': 'application/json' } });
+}
+
+/**
+ * Fetch stub that returns the given bodies in order, repeating the last one
+ */
+function sequence(...bodies: unknown[]) {
+  let index = 0;
+  return vi.fn(async (_url: string, _init: RequestInit) => jsonResponse(bodies[Math.min(index++, bodies.length - 1)]));
+}
+
+const fast = { initialDelayMs: 1, maxDelayMs: 1 };
+
+describe('waitFor()', () => {
+  it('should poll with backoff until done and report progress', async () => {
+    const states = ['pending', 'pending', 'done'];
+    const poll = vi.fn(async () => states.shift()!);
+    const onProgress = vi.fn();
+
+    const result = await waitFor(
+      { description: 'job', poll, check: (state) => state === 'done' ? 'done' : 'pending' },
+      { initialDelayMs: 1, multiplier: 2, onProgress }
+    );
+
+    expect(result).toBe('done');
+    expect(poll).toHaveBeenCalledTimes(3);
+    expect(onProgress.mock.calls).toEqual([['pending', 1], ['pending', 2], ['done', 3]]);
+  });
+
+  it('should time out with a TimeoutError', async () => {
+    const wait = waitFor(
+      { description: 'job', poll: async () => 'pending', check: () => 'pending' },
+      { ...fast, timeoutMs: 20 }
+    );
+
+    await expect(wait).rejects.toBeInstanceOf(TimeoutError);
+    await expect(wait).rejects.toThrow('waiting for the job');
+  });
+
+  it('should cut a slow poll short at the deadline', async () => {
+    const wait = waitFor(
+      {
+        description: 'job',
+        poll: ({ signal }) => new Promise<string>((_resolve, reject) => {
+          signal?.addEventListener('abort', () => reject(new RequestAbortedError()), { once: true });
+        }),
+        check: () => 'pending',
+      },
+      { ...fast, timeoutMs: 20 }
+    );
+
+    await expect(wait).rejects.toBeInstanceOf(TimeoutError);
+  });
+
+  it('should stop when the signal aborts', async () => {
+    const controller = new AbortController();
+    const wait = waitFor(
+      { description: 'job', poll: async () => 'pending', check: () => 'pending' },
+      { initialDelayMs: 1000, signal: controller.signal }
+    );
+    controller.abort();
+
+    await expect(wait).rejects.toBeInstanceOf(RequestAbortedError);
+  });
+});
+
+describe('resource waiters', () => {
+  it('should resolve environments.waitForBuild() once the build is ready', async () => {
+    const fetchMock = sequence({ buildStatus: 'pending' }, { buildStatus: 'building' }, { buildStatus: 'ready', imageTag: 'v2' });
+    const client = new ComputerAgentsClient({ apiKey: 'test', fetch: fetchMock });
+
+    const status = await client.environments.waitForBuild('env_1', fast);
+
+    expect(status.imageTag).toBe('v2');
+    expect(new URL(fetchMock.mock.calls[0][0]).pathname).toBe('/environments/env_1/build/status');
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('should throw a TerminalStateError with the last state when a build fails', async () => {
+    const client = new ComputerAgentsClient({
+      apiKey: 'test',
+      fetch: sequence({ buildStatus: 'building' }, { buildStatus: 'failed', buildError: 'npm install exited with 1' }),
+    });
+
+    const error = await client.environments.waitForBuild('env_1', fast).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(TerminalStateError);
+    expect(error).toMatchObject({
+      code: 'BUILD_FAILED',
+      message: 'The build of environment env_1 failed: npm install exited with 1',
+      state: { buildStatus: 'failed' },
+    });
+  });
+
+  it('should treat a cancelled run as idle and a failed one as an error', async () => {
+    const cancelled = new ComputerAgentsClient({
+      apiKey: 'test',
+      fetch: sequence({ threadId: 'thread_1', status: 'running' }, { threadId: 'thread_1', status: 'cancelled' }),
+    });
+    const failed = new ComputerAgentsClient({
+      apiKey: 'test',
+      fetch: sequence({ threadId: 'thread_1', status: 'failed' }),
+    });
+
+    await expect(cancelled.threads.waitForIdle('thread_1', fast)).resolves.toMatchObject({ status: 'cancelled' });
+    await expect(failed.threads.waitForIdle('thread_1', fast)).rejects.toMatchObject({ code: 'RUN_FAILED' });
+  });
+
+  it('should wait for a trigger execution to appear and complete', async () => {
+    const page = (status?: string) => ({
+      data: status ? [{ id: 'exec_1', triggerId: 'trg_1', status }] : [],
+      has_more: false,
+      total_count: status ? 1 : 0,
+    });
+    const client = new ComputerAgentsClient({
+      apiKey: 'test',
+      fetch: sequence(page(), page('running'), page('completed')),
+    });
+    const onProgress = vi.fn();
+
+    const execution = await client.triggers.waitForExecution('trg_1', 'exec_1', { ...fast, onProgress });
+
+    expect(execution.status).toBe('completed');
+    expect(onProgress).toHaveBeenCalledTimes(2);
+  });
+});